@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog, loadAuditLog, summarizeArgs } from '../audit-log.js';
+import { HostRegistry } from '../host-registry.js';
+import { CommandPolicy } from '../command-policy.js';
+import { runWithCallContext } from '../call-context.js';
+import { registerAuditTools } from '../tools/core/audit-tools.js';
+import { countTools, loadTools } from '../tool-loader.js';
+import { wrapLocalToolServer } from '../tool-registrar.js';
+
+vi.mock('ssh2');
+
+const inventory = { defaultHost: 'tower', hosts: [{ name: 'tower', host: 'tower.local', port: 22, username: 'root', password: 'pw' }] };
+
+const entry = (command: string, extra: object = {}) => ({ host: 'tower', command, exitCode: 0, durationMs: 5, outputBytes: 10, ...extra });
+
+describe('Audit Log', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-'));
+    file = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('AuditLog', () => {
+    it('should append one JSON line per record in order', async () => {
+      const log = new AuditLog(file);
+      log.record(entry('uptime'));
+      log.record(entry('df -h'));
+      await log.flush();
+
+      const lines = fs.readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines.map((line) => line.command)).toEqual(['uptime', 'df -h']);
+      expect(lines[0]).toMatchObject({ host: 'tower', exitCode: 0, durationMs: 5, outputBytes: 10 });
+      expect(lines[0].timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+      expect(lines[0].hash).toBeUndefined();
+    });
+
+    it('should filter and limit queries', async () => {
+      const log = new AuditLog(file);
+      await log.record(entry('docker ps', { tool: 'docker' }));
+      await log.record(entry('uptime', { tool: 'system', host: 'backup' }));
+      await log.record(entry('docker logs plex', { tool: 'docker' }));
+
+      expect((await log.query({ tool: 'docker' })).map((r) => r.command)).toEqual(['docker ps', 'docker logs plex']);
+      expect((await log.query({ host: 'backup' })).map((r) => r.command)).toEqual(['uptime']);
+      expect((await log.query({ limit: 1 })).map((r) => r.command)).toEqual(['docker logs plex']);
+      expect(await log.query({ since: new Date(Date.now() + 60000) })).toEqual([]);
+      expect(await new AuditLog(path.join(dir, 'missing.jsonl')).query()).toEqual([]);
+    });
+
+    it('should chain hashes and resume the chain from an existing file', async () => {
+      await new AuditLog(file, true).record(entry('uptime'));
+      const resumed = new AuditLog(file, true);
+      await resumed.record(entry('df -h'));
+
+      const [first, second] = fs.readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      expect(first.prevHash).toBe('0'.repeat(64));
+      expect(second.prevHash).toBe(first.hash);
+      expect(await resumed.verify()).toEqual({ records: 2 });
+    });
+
+    it('should detect edited and deleted records', async () => {
+      const log = new AuditLog(file, true);
+      for (const command of ['uptime', 'rm /tmp/x', 'df -h']) await log.record(entry(command));
+      const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+
+      fs.writeFileSync(file, [lines[0], lines[1].replace('rm /tmp/x', 'ls /tmp'), lines[2]].join('\n') + '\n');
+      expect(await log.verify()).toMatchObject({ brokenAt: 2, reason: 'record contents do not match its hash' });
+
+      fs.writeFileSync(file, [lines[0], lines[2]].join('\n') + '\n');
+      expect(await log.verify()).toMatchObject({ brokenAt: 2, reason: 'prevHash does not match the previous record' });
+    });
+
+    it('should cut long commands and mask secrets before writing', async () => {
+      const log = new AuditLog(file);
+      const payload = `echo '${'A'.repeat(1000)}' | base64 -d > /tmp/out`;
+      await log.record(entry(payload));
+      await log.record(entry('printf API_KEY=hunter2hunter2', { error: 'failed: API_KEY=hunter2hunter2' }));
+
+      const [long, secret] = fs.readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      expect(long.command).toMatch(/^echo 'A{250}\.\.\. \(\d+ chars, sha256:[0-9a-f]{16}\)$/);
+      expect(long.command).toContain(`(${payload.length} chars`);
+      expect(secret.command).not.toContain('hunter2');
+      expect(secret.error).not.toContain('hunter2');
+    });
+
+    it('should shorten long string arguments', () => {
+      const summary = summarizeArgs({ action: 'write_file', content: 'x'.repeat(1000), count: 3 });
+      expect(summary.action).toBe('write_file');
+      expect(summary.content).toMatch(/^x{64}\.\.\. \(1000 chars\)$/);
+      expect(summary.count).toBe(3);
+    });
+
+    it('should only be enabled by AUDIT_LOG_FILE', () => {
+      expect(loadAuditLog({})).toBeNull();
+      expect(loadAuditLog({ AUDIT_LOG_FILE: file, AUDIT_LOG_HASH_CHAIN: 'true' })).toMatchObject({ file, hashChain: true });
+    });
+  });
+
+  describe('executor', () => {
+    it('should record executed, failed and rejected commands with the calling tool', async () => {
+      const log = new AuditLog(file);
+      const hosts = new HostRegistry(inventory, { policy: new CommandPolicy(), auditLog: log });
+      const tower = hosts.get('tower');
+      tower.manager.executeCommand = vi.fn()
+        .mockResolvedValueOnce({ stdout: 'up 3 days', stderr: '', exitCode: 0 })
+        .mockRejectedValueOnce(new Error('Connection lost')) as any;
+
+      const context = { host: 'tower', tool: 'system', action: 'info', args: { action: 'info' }, clientId: 'ops' };
+      await runWithCallContext(context, () => tower.executor('uptime'));
+      await expect(runWithCallContext(context, () => tower.executor('df -h'))).rejects.toThrow('Connection lost');
+      await expect(tower.executor('rm -rf /mnt/user')).rejects.toThrow('Command rejected by policy');
+
+      const [ok, failed, rejected] = await log.query();
+      expect(ok).toMatchObject({ host: 'tower', tool: 'system', action: 'info', args: { action: 'info' }, clientId: 'ops', command: 'uptime', exitCode: 0, outputBytes: 9 });
+      expect(failed).toMatchObject({ command: 'df -h', exitCode: null, error: 'Connection lost' });
+      expect(rejected).toMatchObject({ command: 'rm -rf /mnt/user', exitCode: null });
+      expect(rejected.tool).toBeUndefined();
+      expect(rejected.error).toContain('recursive-force-rm');
+    });
+  });
+
+  describe('audit tool', () => {
+    let registeredTools: Map<string, any>;
+    let mockServer: any;
+
+    beforeEach(() => {
+      registeredTools = new Map();
+      mockServer = {
+        registerTool: vi.fn((name, config, handler) => {
+          registeredTools.set(name, { description: config.description, schema: config.inputSchema, annotations: config.annotations, handler });
+        }),
+      };
+    });
+
+    it('should list recent entries', async () => {
+      const log = new AuditLog(file);
+      await log.record(entry('docker ps', { tool: 'docker', action: 'list_containers' }));
+      await log.record(entry('cat /x', { exitCode: null, outputBytes: 0, error: 'Command rejected by policy' }));
+      registerAuditTools(wrapLocalToolServer(mockServer), log);
+
+      const audit = registeredTools.get('audit');
+      expect(audit.annotations.readOnlyHint).toBe(true);
+      const text = (await audit.handler({ action: 'recent' })).content[0].text;
+      expect(text).toContain('Audit Log (2 entries)');
+      expect(text).toContain('[tower] docker/list_containers exit=0');
+      expect(text).toContain('$ docker ps');
+      expect(text).toContain('internal error: Command rejected by policy');
+
+      const json = await audit.handler({ action: 'recent', outputFormat: 'json' });
+      expect(json.structuredContent.data.entries.map((r: any) => r.command)).toEqual(['docker ps', 'cat /x']);
+
+      const invalid = await audit.handler({ action: 'recent', since: 'yesterday' });
+      expect(invalid.isError).toBe(true);
+    });
+
+    it('should verify the hash chain', async () => {
+      registerAuditTools(wrapLocalToolServer(mockServer), new AuditLog(file));
+      expect((await registeredTools.get('audit').handler({ action: 'verify' })).isError).toBe(true);
+
+      const chained = new AuditLog(file, true);
+      await chained.record(entry('uptime'));
+      registerAuditTools(wrapLocalToolServer(mockServer), chained);
+      const result = await registeredTools.get('audit').handler({ action: 'verify' });
+      expect(result.content[0].text).toBe('Audit log chain intact (1 entries)');
+    });
+
+    it('should only be loaded when an audit log is configured', () => {
+      const server: any = { registerTool: vi.fn(), tool: vi.fn() };
+      expect(countTools(loadTools(server, new HostRegistry(inventory))).total).toBe(13);
+      const withAudit = loadTools(server, new HostRegistry(inventory, { auditLog: new AuditLog(file) }));
+      expect(withAudit.map((tool) => tool.name)).toContain('audit');
+    });
+  });
+});
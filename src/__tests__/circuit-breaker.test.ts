@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CircuitBreaker } from '../circuit-breaker.js';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    breaker = new CircuitBreaker(3, 30000, () => now);
+  });
+
+  it('should allow commands while closed', () => {
+    expect(breaker.check()).toBe('allow');
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should open after the failure threshold', () => {
+    expect(breaker.recordFailure('boom')).toBe(false);
+    expect(breaker.recordFailure('boom')).toBe(false);
+    expect(breaker.recordFailure('boom')).toBe(true);
+
+    const status = breaker.snapshot();
+    expect(status.state).toBe('open');
+    expect(status.openedAt).toBe(now);
+    expect(status.nextRetryAt).toBe(now + 30000);
+    expect(status.lastError).toBe('boom');
+  });
+
+  it('should reset the failure count on success', () => {
+    breaker.recordFailure('boom');
+    breaker.recordFailure('boom');
+    breaker.recordSuccess();
+    expect(breaker.recordFailure('boom')).toBe(false);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should reject while open and cooling down', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('boom');
+    now += 29999;
+    expect(breaker.check()).toBe('reject');
+  });
+
+  it('should hand out a single probe once the cool-down elapses', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('boom');
+    now += 30000;
+
+    expect(breaker.check()).toBe('probe');
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.check()).toBe('reject');
+  });
+
+  it('should close when the probe succeeds', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('boom');
+    now += 30000;
+    breaker.check();
+    breaker.recordSuccess();
+
+    const status = breaker.snapshot();
+    expect(status.state).toBe('closed');
+    expect(status.consecutiveFailures).toBe(0);
+    expect(status.nextRetryAt).toBeNull();
+    expect(breaker.check()).toBe('allow');
+  });
+
+  it('should re-open for another cool-down when the probe fails', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure('boom');
+    now += 30000;
+    breaker.check();
+    breaker.recordProbeFailure('still down');
+
+    const status = breaker.snapshot();
+    expect(status.state).toBe('open');
+    expect(status.nextRetryAt).toBe(now + 30000);
+    expect(status.lastError).toBe('still down');
+    expect(breaker.check()).toBe('reject');
+  });
+});
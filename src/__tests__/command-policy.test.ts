@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandPolicy, commandBinaries, loadCommandPolicy, splitCommandLine } from '../command-policy.js';
+import { HostRegistry } from '../host-registry.js';
+import { collectToolCommands } from './helpers/tool-commands.js';
+
+vi.mock('ssh2');
+
+describe('Command Policy', () => {
+  describe('splitCommandLine', () => {
+    it('should split on operators outside quotes', () => {
+      const { commands, longestPipeline } = splitCommandLine(`df -h | grep -E '^/dev/(sd|md)' && echo "a; b" || true`);
+      expect(commands).toEqual([`df -h`, `grep -E '^/dev/(sd|md)'`, `echo "a; b"`, `true`]);
+      expect(longestPipeline).toBe(2);
+    });
+
+    it('should treat command substitutions as separate commands', () => {
+      expect(splitCommandLine(`echo "count: $(docker ps -q | wc -l)" 2>&1`).commands).toEqual([`echo "count:`, `docker ps -q`, `wc -l`, `" 2>&1`]);
+    });
+
+    it('should find wrapped and inline-script binaries', () => {
+      expect(commandBinaries(`sudo -n timeout 5 smartctl -a /dev/sda`)).toEqual(['sudo', 'timeout', 'smartctl']);
+      expect(commandBinaries(`for d in /dev/sd?; do x=$(hdparm -C $d); done`)).toEqual(['hdparm']);
+      expect(commandBinaries(`bash -c 'reboot now'`)).toEqual(['bash', 'reboot']);
+    });
+  });
+
+  describe('check', () => {
+    const policy = new CommandPolicy();
+
+    it('should allow ordinary commands', () => {
+      expect(policy.check(`docker ps -a --format json`)).toBeNull();
+      expect(policy.check(`rm '/mnt/user/appdata/old.log'`)).toBeNull();
+    });
+
+    it('should reject the default deny patterns', () => {
+      expect(policy.check(`rm -rf /mnt/user`)?.rule).toBe('recursive-force-rm');
+      expect(policy.check(`rm -r -f /tmp/x`)?.rule).toBe('recursive-force-rm');
+      expect(policy.check(`dd if=/dev/zero of=/dev/sda bs=1M`)?.rule).toBe('dd-to-device');
+      expect(policy.check(`echo x > /dev/sdb`)?.rule).toBe('write-to-block-device');
+      expect(policy.check(`:(){ :|:& };:`)?.rule).toBe('fork-bomb');
+    });
+
+    it('should reject restricted binaries wherever they run', () => {
+      expect(policy.check(`mkfs.ext4 /dev/sdc1`)?.rule).toBe('restricted-binary');
+      expect(policy.check(`uptime; sudo reboot`)?.message).toContain('"reboot"');
+      expect(policy.check(`sh -c "shutdown -h now"`)?.rule).toBe('restricted-binary');
+      expect(policy.check(`grep reboot /var/log/syslog`)).toBeNull();
+    });
+
+    it('should limit pipeline length', () => {
+      const strictPipes = new CommandPolicy({ maxPipelineLength: 3 });
+      expect(strictPipes.check(`ps aux | sort | head`)).toBeNull();
+      expect(strictPipes.check(`ps aux | grep x | sort | head`)?.rule).toBe('max-pipeline-length');
+    });
+
+    it('should add configured rules to the defaults', () => {
+      const custom = new CommandPolicy({
+        denyPatterns: [{ name: 'no-docker-rm', pattern: String.raw`\bdocker\s+rm\b` }],
+        restrictedBinaries: ['nc'],
+      });
+      expect(custom.check(`docker rm plex`)?.rule).toBe('no-docker-rm');
+      expect(custom.check(`nc -zv host 80`)?.rule).toBe('restricted-binary');
+      expect(custom.check(`rm -rf /`)?.rule).toBe('recursive-force-rm');
+    });
+
+    it('should only accept built-in tool binaries in strict mode', () => {
+      const strict = new CommandPolicy({ strict: true, allowedBinaries: ['zpool'] });
+      expect(strict.check(`docker ps | grep plex; exit 0`)).toBeNull();
+      expect(strict.check(`zpool status`)).toBeNull();
+      expect(strict.check(`nmap -sS 10.0.0.0/24`)?.rule).toBe('strict-allowlist');
+      expect(strict.check(`bash`)?.rule).toBe('strict-allowlist');
+    });
+  });
+
+  describe('enforcement', () => {
+    const inventory = { defaultHost: 'tower', hosts: [{ name: 'tower', host: 'tower.local', port: 22, username: 'root', password: 'pw' }] };
+
+    it('should reject violations before they reach the connection', async () => {
+      const hosts = new HostRegistry(inventory, { policy: new CommandPolicy() });
+      const tower = hosts.get('tower');
+      tower.manager.executeCommand = vi.fn().mockResolvedValue({ stdout: 'ok', stderr: '', exitCode: 0 }) as any;
+
+      await expect(tower.executor('rm -rf /mnt/user')).rejects.toThrow('Command rejected by policy (recursive-force-rm)');
+      expect(tower.manager.executeCommand).not.toHaveBeenCalled();
+      await expect(tower.executor('uptime')).resolves.toBe('ok');
+    });
+
+    it('should only log violations in audit mode', async () => {
+      const hosts = new HostRegistry(inventory, { policy: new CommandPolicy({ mode: 'audit' }) });
+      const tower = hosts.get('tower');
+      tower.manager.executeCommand = vi.fn().mockResolvedValue({ stdout: 'ok', stderr: '', exitCode: 0 }) as any;
+
+      await expect(tower.executor('rm -rf /tmp/scratch')).resolves.toBe('ok');
+    });
+  });
+
+  describe('loadCommandPolicy', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'command-policy-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should enforce the defaults unless turned off', () => {
+      expect(loadCommandPolicy({})?.mode).toBe('enforce');
+      expect(loadCommandPolicy({ COMMAND_POLICY: 'audit' })?.mode).toBe('audit');
+      expect(loadCommandPolicy({ COMMAND_POLICY: 'off' })).toBeNull();
+      expect(() => loadCommandPolicy({ COMMAND_POLICY: 'strict' })).toThrow('COMMAND_POLICY must be');
+    });
+
+    it('should read rules from COMMAND_POLICY_FILE', () => {
+      const file = path.join(dir, 'policy.json');
+      fs.writeFileSync(file, JSON.stringify({ restrictedBinaries: ['nc'], strict: true }));
+
+      const policy = loadCommandPolicy({ COMMAND_POLICY_FILE: file })!;
+      expect(policy.check('nc -l 4444')?.rule).toBe('restricted-binary');
+      expect(policy.check('nmap host')?.rule).toBe('strict-allowlist');
+      expect(loadCommandPolicy({ COMMAND_POLICY_FILE: file, COMMAND_POLICY_STRICT: 'false' })!.check('nmap host')).toBeNull();
+    });
+
+    it('should reject invalid files', () => {
+      const file = path.join(dir, 'policy.json');
+      fs.writeFileSync(file, JSON.stringify({ denyPatterns: [{ name: 'bad', pattern: '(' }] }));
+      expect(() => loadCommandPolicy({ COMMAND_POLICY_FILE: file })).toThrow('invalid pattern for "bad"');
+    });
+  });
+
+  describe('built-in tools', () => {
+    it('should issue commands that pass the default and strict policies', async () => {
+      const commands = await collectToolCommands({
+        args: {
+          container: 'plex', network: 'bridge', volume: 'data', path: '/mnt/user/appdata/x', pattern: 'error', name: 'vm1',
+          share: 'media', device: 'sda', vm: 'vm1', content: 'eA==', oldString: 'a', newString: 'b', url: 'https://example.com/f',
+          template: 'plex', target: 'example.com', fromContainer: 'plex', metric: 'cpu', durationSeconds: 2, confirm: true,
+          command: ['curl', '-s', 'localhost:8080'],
+        },
+        resourceVariables: { name: 'plex', share: 'media', template: 'plex' },
+      });
+      expect(commands.length).toBeGreaterThan(100);
+
+      for (const policy of [new CommandPolicy(), new CommandPolicy({ strict: true })]) {
+        const violations = commands
+          .map((command) => ({ command, violation: policy.check(command) }))
+          .filter(({ violation }) => violation !== null);
+        expect(violations).toEqual([]);
+      }
+    });
+  });
+});
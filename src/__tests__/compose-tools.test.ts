@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { registerComposeTools } from '../tools/core/compose-tools.js';
+
+const labels = (service: string) => ({
+  'com.docker.compose.project': 'media',
+  'com.docker.compose.project.working_dir': '/opt/media',
+  'com.docker.compose.project.config_files': '/opt/media/compose.yml,/opt/media/compose.override.yml',
+  'com.docker.compose.service': service,
+});
+
+const inspect = [
+  {
+    Name: '/media-plex-1',
+    Config: { Image: 'plexinc/pms-docker', Labels: labels('plex'), Env: ['TZ=UTC', 'PLEX_CLAIM=abc', 'PATH=/usr/bin'] },
+    State: { Status: 'running', Health: { Status: 'healthy' } },
+    HostConfig: { PortBindings: { '32400/tcp': [{ HostIp: '', HostPort: '32400' }] } },
+  },
+  {
+    Name: '/media-sonarr-1',
+    Config: { Image: 'linuxserver/sonarr:3', Labels: labels('sonarr'), Env: ['TZ=Europe/Berlin'] },
+    State: { Status: 'exited' },
+    HostConfig: { PortBindings: { '8989/tcp': [{ HostIp: '0.0.0.0', HostPort: '8989' }] } },
+  },
+  {
+    Name: '/media-old-1',
+    Config: { Image: 'busybox', Labels: labels('old'), Env: [] },
+    State: { Status: 'running' },
+    HostConfig: {},
+  },
+];
+
+const config = {
+  services: {
+    plex: {
+      image: 'plexinc/pms-docker:latest',
+      ports: [{ target: 32400, published: '32400', protocol: 'tcp' }],
+      environment: { TZ: 'UTC', PLEX_CLAIM: 'abc', HOME_PATH: null },
+    },
+    sonarr: {
+      image: 'linuxserver/sonarr:4',
+      ports: [{ target: 8989, published: '8990', protocol: 'tcp' }],
+      environment: { TZ: 'UTC', PUID: '99' },
+    },
+    radarr: { image: 'linuxserver/radarr' },
+  },
+};
+
+describe('Compose Tools', () => {
+  let mockServer: any;
+  let mockSSHExecutor: any;
+  let registeredTools: Map<string, any>;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      tool: vi.fn((name, description, schema, handler) => {
+        registeredTools.set(name, { name, description, schema, handler });
+      }),
+    };
+    mockSSHExecutor = vi.fn(async (command: string) => {
+      if (command.startsWith('docker ps -aq')) return 'a1\nb2\nc3\n';
+      if (command.startsWith('docker inspect')) return JSON.stringify(inspect);
+      if (command.endsWith('config --format json')) return JSON.stringify(config);
+      if (command.endsWith('config --quiet')) return '';
+      if (command.startsWith('cat ')) return 'services:\n  plex:\n    image: plexinc/pms-docker\n';
+      throw new Error(`unexpected command: ${command}`);
+    });
+    registerComposeTools(mockServer as any, mockSSHExecutor);
+  });
+
+  it('should register the compose tool', () => {
+    expect(registeredTools.has('compose')).toBe(true);
+  });
+
+  it('should discover projects from container labels', async () => {
+    const result = await registeredTools.get('compose').handler({ action: 'list_projects' });
+    expect(mockSSHExecutor).toHaveBeenCalledWith('docker ps -aq --filter label=com.docker.compose.project');
+    expect(mockSSHExecutor).toHaveBeenCalledWith('docker inspect a1 b2 c3');
+    expect(result.structuredContent.projects).toEqual([{
+      name: 'media',
+      workingDir: '/opt/media',
+      configFiles: ['/opt/media/compose.yml', '/opt/media/compose.override.yml'],
+      services: 3,
+      running: 2,
+      containers: 3,
+    }]);
+  });
+
+  it('should report no projects', async () => {
+    mockSSHExecutor.mockResolvedValueOnce('');
+    const result = await registeredTools.get('compose').handler({ action: 'list_projects' });
+    expect(result.content[0].text).toBe('No compose projects.');
+    expect(mockSSHExecutor).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show per-service status', async () => {
+    const result = await registeredTools.get('compose').handler({ action: 'status', project: 'media' });
+    const text = result.content[0].text;
+    expect(text).toContain('plex (1/1 running)');
+    expect(text).toContain('media-plex-1: running (healthy) - plexinc/pms-docker');
+    expect(text).toContain('sonarr (0/1 running)');
+    expect(text).toContain('Ports: 8989:8989/tcp');
+    expect(result.structuredContent.services[0]).toEqual({
+      service: 'plex',
+      running: 1,
+      containers: [{ name: 'media-plex-1', image: 'plexinc/pms-docker', state: 'running', health: 'healthy', ports: ['32400:32400/tcp'] }],
+    });
+  });
+
+  it('should require a known project', async () => {
+    const tool = registeredTools.get('compose');
+    expect((await tool.handler({ action: 'status' })).isError).toBe(true);
+    const missing = await tool.handler({ action: 'status', project: 'nope' });
+    expect(missing.content[0].text).toContain('Compose project "nope" not found');
+    expect((await tool.handler({ action: 'status', project: '-p' })).isError).toBe(true);
+  });
+
+  it('should read and validate the compose files', async () => {
+    const result = await registeredTools.get('compose').handler({ action: 'config', project: 'media' });
+    expect(mockSSHExecutor).toHaveBeenCalledWith('cat /opt/media/compose.yml');
+    expect(mockSSHExecutor).toHaveBeenCalledWith(
+      'docker compose --project-directory /opt/media -p media -f /opt/media/compose.yml -f /opt/media/compose.override.yml config --quiet'
+    );
+    expect(result.content[0].text).toContain('Validation: Valid');
+    expect(result.content[0].text).toContain('=== /opt/media/compose.override.yml ===');
+  });
+
+  it('should report validation errors', async () => {
+    const executor = mockSSHExecutor.getMockImplementation();
+    mockSSHExecutor.mockImplementation(async (command: string) => {
+      if (command.endsWith('config --quiet')) throw new Error('services.plex.ports must be a list');
+      return executor(command);
+    });
+    const result = await registeredTools.get('compose').handler({ action: 'config', project: 'media' });
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('Validation: Invalid - services.plex.ports must be a list');
+  });
+
+  it('should diff declared services against running containers', async () => {
+    const result = await registeredTools.get('compose').handler({ action: 'diff', project: 'media' });
+    const { inSync, services } = result.structuredContent;
+    expect(inSync).toBe(false);
+    const issues = Object.fromEntries(services.map((s: any) => [s.service, s.issues]));
+    expect(issues.plex).toEqual([]);
+    expect(issues.sonarr).toEqual([
+      'image declared linuxserver/sonarr:4, running linuxserver/sonarr:3',
+      'ports declared [8990:8989/tcp], running [8989:8989/tcp]',
+      'env differs: TZ',
+      'env missing: PUID',
+      'container exited',
+    ]);
+    expect(issues.radarr).toEqual(['no container (not created or removed)']);
+    expect(issues.old).toEqual(['not in the compose file (orphan)']);
+    expect(result.content[0].text).toContain('drifted from its compose file');
+    expect(result.content[0].text).not.toContain('Europe/Berlin');
+  });
+});
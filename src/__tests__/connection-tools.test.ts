@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { registerConnectionTools } from '../tools/core/connection-tools.js';
+import { HostRegistry } from '../host-registry.js';
+import { wrapLocalToolServer } from '../tool-registrar.js';
+
+vi.mock('ssh2');
+
+const inventory = {
+  defaultHost: 'tower',
+  hosts: [
+    { name: 'tower', host: 'tower.local', port: 22, username: 'root', password: 'pw' },
+    { name: 'backup', host: 'backup.local', port: 22, username: 'root', password: 'pw' },
+  ],
+};
+
+describe('Connection Tools', () => {
+  let mockServer: any;
+  let registeredTools: Map<string, any>;
+  let hosts: HostRegistry;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      registerTool: vi.fn((name, config, handler) => {
+        registeredTools.set(name, { name, description: config.description, schema: config.inputSchema, annotations: config.annotations, handler });
+      }),
+    };
+    hosts = new HostRegistry(inventory);
+    registerConnectionTools(wrapLocalToolServer(mockServer), hosts);
+  });
+
+  it('should register the connection tool', () => {
+    expect(mockServer.registerTool).toHaveBeenCalledTimes(1);
+    expect(registeredTools.has('connection')).toBe(true);
+    expect(registeredTools.get('connection').annotations.readOnlyHint).toBe(true);
+  });
+
+  it('should report every host when no host is given', async () => {
+    const result = await registeredTools.get('connection').handler({ action: 'status' });
+    const text = result.content[0].text;
+    expect(text).toContain('=== tower (tower.local) ===');
+    expect(text).toContain('=== backup (backup.local) ===');
+    expect(text).toContain('Circuit breaker: closed');
+  });
+
+  it('should report breaker state and next retry for an open breaker', async () => {
+    const nextRetryAt = Date.now() + 20000;
+    vi.spyOn(hosts.get('backup').manager, 'getCircuitStatus').mockReturnValue({
+      state: 'open',
+      consecutiveFailures: 3,
+      failureThreshold: 3,
+      cooldownMs: 30000,
+      openedAt: nextRetryAt - 30000,
+      nextRetryAt,
+      lastError: 'Connection refused',
+    });
+
+    const result = await registeredTools.get('connection').handler({ action: 'status', host: 'backup' });
+    const text = result.content[0].text;
+    expect(text).not.toContain('tower');
+    expect(text).toContain('Circuit breaker: open');
+    expect(text).toContain('Consecutive failures: 3/3');
+    expect(text).toContain(`Next retry: ${new Date(nextRetryAt).toISOString()}`);
+    expect(text).toContain('Last error: Connection refused');
+  });
+
+  it('should return the host states as structured content', async () => {
+    const result = await registeredTools.get('connection').handler({ action: 'status', host: 'tower' });
+    expect(result.structuredContent).toEqual({
+      action: 'status',
+      data: {
+        hosts: [{
+          name: 'tower',
+          address: 'tower.local',
+          connected: false,
+          circuit: { state: 'closed', consecutiveFailures: 0, failureThreshold: 3, cooldownMs: 30000 },
+        }],
+      },
+    });
+
+    const markdown = await registeredTools.get('connection').handler({ action: 'status', host: 'tower', outputFormat: 'markdown' });
+    expect(markdown.content[0].text).toContain('| tower | no | not detected | closed | 0/3 |  |');
+  });
+
+  it('should reject unknown hosts', async () => {
+    const result = await registeredTools.get('connection').handler({ action: 'status', host: 'nope' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unknown host "nope"');
+  });
+});
@@ -61,7 +61,7 @@ describe('Container Topology Tools', () => {
   });
 
   describe('action=network_test', () => {
-    it('should require type and host', async () => {
+    it('should require type and target', async () => {
       const tool = registeredTools.get('container_topology');
       const result = await tool.handler({ action: 'network_test', type: 'ping' });
       expect(result.isError).toBe(true);
@@ -70,28 +70,28 @@ describe('Container Topology Tools', () => {
     it('should run ping test', async () => {
       mockSSHExecutor.mockResolvedValue('64 bytes from 8.8.8.8');
       const tool = registeredTools.get('container_topology');
-      const result = await tool.handler({ action: 'network_test', type: 'ping', host: '8.8.8.8' });
+      const result = await tool.handler({ action: 'network_test', type: 'ping', target: '8.8.8.8' });
       expect(result.content[0].text).toContain('Ping');
     });
 
     it('should run dns test', async () => {
       mockSSHExecutor.mockResolvedValue('Address: 8.8.8.8');
       const tool = registeredTools.get('container_topology');
-      const result = await tool.handler({ action: 'network_test', type: 'dns', host: 'google.com' });
+      const result = await tool.handler({ action: 'network_test', type: 'dns', target: 'google.com' });
       expect(result.content[0].text).toContain('DNS');
     });
 
     it('should run traceroute test', async () => {
       mockSSHExecutor.mockResolvedValue('1 router 1ms');
       const tool = registeredTools.get('container_topology');
-      const result = await tool.handler({ action: 'network_test', type: 'traceroute', host: '8.8.8.8' });
+      const result = await tool.handler({ action: 'network_test', type: 'traceroute', target: '8.8.8.8' });
       expect(result.content[0].text).toContain('Traceroute');
     });
 
     it('should run container connectivity test', async () => {
       mockSSHExecutor.mockResolvedValue('Connection successful');
       const tool = registeredTools.get('container_topology');
-      const result = await tool.handler({ action: 'network_test', type: 'container', host: 'db', fromContainer: 'web', port: 5432 });
+      const result = await tool.handler({ action: 'network_test', type: 'container', target: 'db', fromContainer: 'web', port: 5432 });
       expect(result.content[0].text).toContain('Container');
     });
   });
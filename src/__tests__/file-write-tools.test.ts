@@ -67,6 +67,7 @@ describe("File Write Tools", () => {
       expect(result.isError).toBeFalsy();
       expect(result.content[0].text).toContain("/mnt/user/appdata");
       expect(result.content[0].text).toContain("/tmp");
+      expect(result.structuredContent.allowedPaths).toContain("/mnt/user/appdata");
     });
 
     it("should return no-config message when WRITE_ALLOWED_PATHS is unset", async () => {
@@ -49,6 +49,17 @@ describe('Health Diagnostics Tools', () => {
       const result = await tool.handler({ action: 'threshold_alerts', cpuThreshold: 80, memThreshold: 90 });
       expect(result.content[0].text).toContain('Threshold');
     });
+
+    it('should return alerts as structured content', async () => {
+      mockSSHExecutor.mockImplementation(async (cmd: string) => {
+        if (cmd.startsWith('df')) return '/dev/sda1 100G 95G 5G 95% /mnt/disk1';
+        return '';
+      });
+      const tool = registeredTools.get('health');
+      const result = await tool.handler({ action: 'threshold_alerts', diskThreshold: 90 });
+      expect(result.structuredContent.alerts).toEqual([{ metric: 'disk', target: '/dev/sda1', value: 95, threshold: 90 }]);
+      expect(result.content[0].text).toContain('Disk /dev/sda1 95% > 90%');
+    });
   });
 
   describe('action=compare_baseline', () => {
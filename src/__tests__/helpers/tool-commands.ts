@@ -0,0 +1,71 @@
+import { vi } from 'vitest';
+import * as coreTools from '../../tools/core/index.js';
+import { UnraidPlatform } from '../../platforms/unraid/index.js';
+import { LinuxPlatform } from '../../platforms/linux/index.js';
+import { coreResources } from '../../resources/core-resources.js';
+import { unraidResources } from '../../platforms/unraid/resources.js';
+
+export interface ToolCommandOptions {
+  /** Arguments for every action; a function receives the tool's parameter shape */
+  args: Record<string, unknown> | ((shape: Record<string, any>) => Record<string, unknown>);
+  /** URI template variables for every resource read */
+  resourceVariables: Record<string, string>;
+}
+
+/**
+ * Run every action of every tool (plus resources and platform detection)
+ * against a recording executor, once with empty output and once failing,
+ * so fallback commands are issued too
+ *
+ * @returns Every command the tools tried to run
+ */
+export async function collectToolCommands(options: ToolCommandOptions): Promise<string[]> {
+  const commands: string[] = [];
+  const tools = new Map<string, { schema: any; handler: any }>();
+  const server: any = {
+    tool: (name: string, _description: string, schema: any, ...rest: any[]) => tools.set(name, { schema, handler: rest.pop() }),
+  };
+  const variants: Record<string, object[]> = {
+    network_test: ['ping', 'dns', 'traceroute', 'container'].flatMap((type) => [{ type }, { type, port: 80 }]),
+    write_file: [{}, { encoding: 'base64' }],
+    exec_probe: ['read_file', 'list_dir', 'processes', 'dns', 'http_get'].map((probe) => ({ probe })),
+  };
+
+  process.env.WRITE_ALLOWED_PATHS = '/mnt/user';
+  process.env.WRITE_ALLOWED_CONTAINERS = '*';
+  try {
+    for (const fail of [false, true]) {
+      const executor = vi.fn(async (command: string) => {
+        commands.push(command);
+        if (fail) throw new Error('failed');
+        if (command.startsWith("docker inspect --format '{{json .State}}'")) return '{}';
+        if (command.startsWith("docker inspect --format '{{.State.Pid}}'")) return '1234';
+        return command.startsWith('ls -1 /dev/sd') ? '/dev/sda\n' : '';
+      });
+      tools.clear();
+      for (const [name, register] of Object.entries(coreTools)) {
+        if (name.startsWith('register') && !['registerConnectionTools', 'registerAuditTools'].includes(name)) (register as any)(server, executor);
+      }
+      for (const module of UnraidPlatform.getToolModules()) module.register(server, executor);
+
+      for (const { schema, handler } of tools.values()) {
+        const args = typeof options.args === 'function' ? options.args(schema) : options.args;
+        for (const action of schema.action.options) {
+          for (const variant of variants[action] ?? [{}]) {
+            await handler({ ...args, ...variant, action }).catch(() => undefined);
+          }
+        }
+      }
+      for (const resource of [...coreResources, ...unraidResources]) {
+        await resource.read(executor, options.resourceVariables).catch(() => undefined);
+        await resource.list?.(executor).catch(() => undefined);
+      }
+      await UnraidPlatform.detect(executor).catch(() => undefined);
+      await LinuxPlatform.detect(executor).catch(() => undefined);
+    }
+  } finally {
+    delete process.env.WRITE_ALLOWED_PATHS;
+    delete process.env.WRITE_ALLOWED_CONTAINERS;
+  }
+  return commands;
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseHostInventory, loadHostInventory } from '../host-inventory.js';
+
+vi.mock('fs', () => ({
+  readFileSync: vi.fn(),
+}));
+
+describe('Host Inventory', () => {
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    delete process.env.SSH_HOSTS_FILE;
+    delete process.env.SSH_HOST_NAME;
+    delete process.env.SSH_PLATFORM;
+    delete process.env.SSH_KNOWN_HOSTS_FILE;
+    delete process.env.SSH_AUTH_SOCK;
+    delete process.env.SSH_HOST_FINGERPRINT;
+    delete process.env.SSH_HOST_KEY_CHECKING;
+    process.env.SSH_HOST = 'tower.local';
+    process.env.SSH_USERNAME = 'root';
+    process.env.SSH_PRIVATE_KEY_PATH = '/keys/id';
+    delete process.env.SSH_PASSWORD;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.clearAllMocks();
+  });
+
+  describe('parseHostInventory', () => {
+    it('should parse hosts keyed by name and merge defaults', () => {
+      const inventory = parseHostInventory(JSON.stringify({
+        defaults: { username: 'root', privateKeyPath: '/keys/id' },
+        hosts: {
+          tower: { host: 'tower.local', platform: 'unraid' },
+          backup: { host: '10.0.0.12', port: 2222, username: 'admin' },
+        },
+      }));
+
+      expect(inventory.defaultHost).toBe('tower');
+      expect(inventory.hosts).toEqual([
+        { name: 'tower', host: 'tower.local', port: 22, username: 'root', privateKeyPath: '/keys/id', password: undefined, platform: 'unraid' },
+        { name: 'backup', host: '10.0.0.12', port: 2222, username: 'admin', privateKeyPath: '/keys/id', password: undefined, platform: undefined },
+      ]);
+    });
+
+    it('should honor defaultHost', () => {
+      const inventory = parseHostInventory(JSON.stringify({
+        defaultHost: 'b',
+        hosts: { a: { host: 'a', username: 'u', password: 'p' }, b: { host: 'b', username: 'u', password: 'p' } },
+      }));
+      expect(inventory.defaultHost).toBe('b');
+    });
+
+    it('should reject an unknown defaultHost', () => {
+      expect(() => parseHostInventory(JSON.stringify({
+        defaultHost: 'missing',
+        hosts: { a: { host: 'a', username: 'u', password: 'p' } },
+      }))).toThrow('defaultHost "missing" is not defined');
+    });
+
+    it('should reject entries without credentials', () => {
+      expect(() => parseHostInventory(JSON.stringify({
+        hosts: { a: { host: 'a', username: 'u' } },
+      }))).toThrow('"a" needs "privateKeyPath", "password" or "agent"');
+    });
+
+    it('should reject invalid host names', () => {
+      expect(() => parseHostInventory(JSON.stringify({
+        hosts: { 'bad name': { host: 'a', username: 'u', password: 'p' } },
+      }))).toThrow('invalid host name');
+    });
+
+    it('should read per-host key settings and fall back to the global policy', () => {
+      process.env.SSH_HOST_KEY_CHECKING = 'strict';
+      const inventory = parseHostInventory(JSON.stringify({
+        defaults: { username: 'root', password: 'pw' },
+        hosts: {
+          tower: { host: 'tower.local', hostFingerprint: 'SHA256:abc', hostKeyChecking: 'accept-new' },
+          backup: { host: 'backup.local' },
+        },
+      }));
+
+      expect(inventory.hosts[0]).toMatchObject({ hostFingerprint: 'SHA256:abc', hostKeyChecking: 'accept-new' });
+      expect(inventory.hosts[1].hostKeyChecking).toBe('strict');
+      expect(() => parseHostInventory(JSON.stringify({
+        hosts: { tower: { host: 'tower.local', username: 'root', password: 'pw', hostKeyChecking: 'yes' } },
+      }))).toThrow('Host inventory: "tower" hostKeyChecking must be one of');
+    });
+
+    it('should reject invalid JSON and empty inventories', () => {
+      expect(() => parseHostInventory('{')).toThrow('invalid JSON');
+      expect(() => parseHostInventory('{"hosts": {}}')).toThrow('no hosts defined');
+      expect(() => parseHostInventory('{"hosts": []}')).toThrow('expected a "hosts" object');
+    });
+  });
+
+  describe('loadHostInventory', () => {
+    it('should build a single host from environment variables', () => {
+      const inventory = loadHostInventory();
+      expect(inventory.defaultHost).toBe('default');
+      expect(inventory.hosts).toHaveLength(1);
+      expect(inventory.hosts[0]).toMatchObject({ name: 'default', host: 'tower.local', port: 22, username: 'root' });
+    });
+
+    it('should use SSH_HOST_NAME and SSH_PLATFORM for the single host', () => {
+      process.env.SSH_HOST_NAME = 'tower';
+      process.env.SSH_PLATFORM = 'unraid';
+      const inventory = loadHostInventory();
+      expect(inventory.hosts[0]).toMatchObject({ name: 'tower', platform: 'unraid' });
+    });
+
+    it('should read SSH_HOSTS_FILE when set', async () => {
+      const fs = await import('fs');
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+        hosts: { nas: { host: 'nas.local', username: 'root', password: 'pw' } },
+      }));
+      process.env.SSH_HOSTS_FILE = '/etc/mcp/hosts.json';
+
+      const inventory = loadHostInventory();
+      expect(fs.readFileSync).toHaveBeenCalledWith('/etc/mcp/hosts.json', 'utf8');
+      expect(inventory.hosts[0].name).toBe('nas');
+    });
+  });
+});
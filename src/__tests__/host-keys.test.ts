@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  fingerprint,
+  hostMatches,
+  keyTypeOf,
+  knownHostsName,
+  parseHostKeyChecking,
+  parseKnownHosts,
+  verifyHostKey,
+} from '../host-keys.js';
+
+function makeKey(type = 'ssh-ed25519'): Buffer {
+  const typeBuf = Buffer.from(type);
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(typeBuf.length);
+  return Buffer.concat([len, typeBuf, crypto.randomBytes(32)]);
+}
+
+function hashedHost(name: string): string {
+  const salt = crypto.randomBytes(20);
+  const hash = crypto.createHmac('sha1', salt).update(name).digest('base64');
+  return `|1|${salt.toString('base64')}|${hash}`;
+}
+
+describe('Host Keys', () => {
+  let dir: string;
+  let knownHostsFile: string;
+  const key = makeKey();
+  const otherKey = makeKey();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'host-keys-'));
+    knownHostsFile = path.join(dir, 'known_hosts');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('helpers', () => {
+    it('should format OpenSSH SHA256 fingerprints', () => {
+      const expected = 'SHA256:' + crypto.createHash('sha256').update(key).digest('base64').replace(/=+$/, '');
+      expect(fingerprint(key)).toBe(expected);
+    });
+
+    it('should read the key type from the blob', () => {
+      expect(keyTypeOf(makeKey('ecdsa-sha2-nistp256'))).toBe('ecdsa-sha2-nistp256');
+    });
+
+    it('should bracket non-default ports', () => {
+      expect(knownHostsName('tower', 22)).toBe('tower');
+      expect(knownHostsName('tower', 2222)).toBe('[tower]:2222');
+    });
+
+    it('should match plain, wildcard, negated and hashed patterns', () => {
+      expect(hostMatches('tower,10.0.0.5', 'tower')).toBe(true);
+      expect(hostMatches('*.lan', 'nas.lan')).toBe(true);
+      expect(hostMatches('*.lan,!nas.lan', 'nas.lan')).toBe(false);
+      expect(hostMatches(hashedHost('[tower]:2222'), '[tower]:2222')).toBe(true);
+      expect(hostMatches(hashedHost('tower'), 'backup')).toBe(false);
+    });
+
+    it('should parse markers and skip comments', () => {
+      const entries = parseKnownHosts(
+        `# comment\n\ntower ssh-ed25519 ${key.toString('base64')}\n@revoked old ssh-rsa ${otherKey.toString('base64')} note\n`
+      );
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ marker: null, patterns: 'tower', keyType: 'ssh-ed25519' });
+      expect(entries[1].marker).toBe('@revoked');
+    });
+
+    it('should validate the checking mode', () => {
+      expect(parseHostKeyChecking(undefined, 'X')).toBeUndefined();
+      expect(parseHostKeyChecking('strict', 'X')).toBe('strict');
+      expect(() => parseHostKeyChecking('yes', 'SSH_HOST_KEY_CHECKING')).toThrow('SSH_HOST_KEY_CHECKING must be one of');
+    });
+  });
+
+  describe('verifyHostKey', () => {
+    it('should accept a matching pinned fingerprint', () => {
+      const pinned = fingerprint(key);
+      expect(verifyHostKey(key, { host: 'tower', port: 22, hostFingerprint: pinned, knownHostsFile })).toEqual({ ok: true });
+      expect(verifyHostKey(key, { host: 'tower', port: 22, hostFingerprint: pinned.slice(7) + '=', knownHostsFile })).toEqual({ ok: true });
+    });
+
+    it('should refuse a pinned fingerprint mismatch', () => {
+      const verdict = verifyHostKey(otherKey, { host: 'tower', port: 22, hostFingerprint: fingerprint(key), knownHostsFile });
+      expect(verdict.ok).toBe(false);
+      if (!verdict.ok) expect(verdict.reason).toContain(`pinned fingerprint is ${fingerprint(key)}`);
+    });
+
+    it('should accept a key listed in known_hosts', () => {
+      fs.writeFileSync(knownHostsFile, `${hashedHost('[tower]:2222')} ssh-ed25519 ${key.toString('base64')}\n`);
+      expect(verifyHostKey(key, { host: 'tower', port: 2222, knownHostsFile, hostKeyChecking: 'strict' })).toEqual({ ok: true });
+    });
+
+    it('should refuse a changed key even in accept-new mode', () => {
+      fs.writeFileSync(knownHostsFile, `tower ssh-ed25519 ${key.toString('base64')}\n`);
+      const verdict = verifyHostKey(otherKey, { host: 'tower', port: 22, knownHostsFile });
+      expect(verdict.ok).toBe(false);
+      if (!verdict.ok) expect(verdict.reason).toContain('HOST KEY HAS CHANGED');
+      expect(fs.readFileSync(knownHostsFile, 'utf8').split('\n').filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should only compare known_hosts entries of the same key type', () => {
+      const rsaKey = makeKey('ssh-rsa');
+      fs.writeFileSync(knownHostsFile, `tower ssh-rsa ${rsaKey.toString('base64')}\n`);
+      expect(verifyHostKey(rsaKey, { host: 'tower', port: 22, knownHostsFile, hostKeyChecking: 'strict' })).toEqual({ ok: true });
+
+      const strict = verifyHostKey(key, { host: 'tower', port: 22, knownHostsFile, hostKeyChecking: 'strict' });
+      expect(strict.ok).toBe(false);
+      if (!strict.ok) expect(strict.reason).not.toContain('HOST KEY HAS CHANGED');
+
+      expect(verifyHostKey(key, { host: 'tower', port: 22, knownHostsFile })).toEqual({ ok: true });
+      expect(fs.readFileSync(knownHostsFile, 'utf8').split('\n').filter(Boolean)).toEqual([
+        `tower ssh-rsa ${rsaKey.toString('base64')}`,
+        `tower ssh-ed25519 ${key.toString('base64')}`,
+      ]);
+      expect(verifyHostKey(otherKey, { host: 'tower', port: 22, knownHostsFile }).ok).toBe(false);
+    });
+
+    it('should refuse a revoked key', () => {
+      fs.writeFileSync(knownHostsFile, `@revoked tower ssh-ed25519 ${key.toString('base64')}\n`);
+      const verdict = verifyHostKey(key, { host: 'tower', port: 22, knownHostsFile });
+      expect(verdict.ok).toBe(false);
+    });
+
+    it('should refuse unknown hosts in strict mode', () => {
+      const verdict = verifyHostKey(key, { host: 'tower', port: 22, knownHostsFile, hostKeyChecking: 'strict' });
+      expect(verdict.ok).toBe(false);
+      if (!verdict.ok) expect(verdict.reason).toContain('no entry in');
+      expect(fs.existsSync(knownHostsFile)).toBe(false);
+    });
+
+    it('should record unknown hosts on first use and trust them afterwards', () => {
+      expect(verifyHostKey(key, { host: 'tower', port: 2222, knownHostsFile })).toEqual({ ok: true });
+      expect(fs.readFileSync(knownHostsFile, 'utf8')).toBe(`[tower]:2222 ssh-ed25519 ${key.toString('base64')}\n`);
+
+      expect(verifyHostKey(key, { host: 'tower', port: 2222, knownHostsFile, hostKeyChecking: 'strict' })).toEqual({ ok: true });
+      expect(verifyHostKey(otherKey, { host: 'tower', port: 2222, knownHostsFile }).ok).toBe(false);
+    });
+
+    it('should skip verification when checking is off', () => {
+      expect(verifyHostKey(otherKey, { host: 'tower', port: 22, hostFingerprint: fingerprint(key), hostKeyChecking: 'off' })).toEqual({ ok: true });
+    });
+  });
+});
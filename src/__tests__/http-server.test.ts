@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as https from 'https';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { httpConfigFromEnv, startHttpServer, HttpServerHandle } from '../http-server.js';
+import { HostRegistry } from '../host-registry.js';
+import { ca, server as serverCert, clients } from './helpers/tls-fixtures.js';
+
+vi.mock('ssh2');
+
+const inventory = {
+  defaultHost: 'tower',
+  hosts: [{ name: 'tower', host: 'tower.local', port: 22, username: 'root', password: 'pw' }],
+};
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+describe('HTTP Server', () => {
+  describe('httpConfigFromEnv', () => {
+    it('should require authentication', () => {
+      expect(() => httpConfigFromEnv({})).toThrow('HTTP transport requires authentication');
+      expect(httpConfigFromEnv({ MCP_ALLOW_UNAUTHENTICATED: 'true' }).authToken).toBeUndefined();
+    });
+
+    it('should apply defaults', () => {
+      const config = httpConfigFromEnv({ MCP_AUTH_TOKEN: 'secret' });
+      expect(config).toMatchObject({ port: 3000, bindAddress: '0.0.0.0', authToken: 'secret', sessionIdleMs: 1800000 });
+      expect(config.tls).toBeUndefined();
+    });
+
+    it('should reject incomplete TLS settings', () => {
+      expect(() => httpConfigFromEnv({ MCP_AUTH_TOKEN: 's', MCP_TLS_CERT: '/cert.pem' })).toThrow('must be set together');
+      expect(() => httpConfigFromEnv({ MCP_TLS_CA: '/ca.pem' })).toThrow('MCP_TLS_CA requires');
+    });
+
+    it('should reject an invalid port', () => {
+      expect(() => httpConfigFromEnv({ MCP_AUTH_TOKEN: 's', MCP_HTTP_PORT: 'abc' })).toThrow('MCP_HTTP_PORT');
+      expect(() => httpConfigFromEnv({ MCP_AUTH_TOKEN: 's', MCP_HTTP_PORT: '0' })).toThrow('MCP_HTTP_PORT must be a positive integer');
+    });
+
+    it('should reject a zero idle timeout', () => {
+      expect(() => httpConfigFromEnv({ MCP_AUTH_TOKEN: 's', MCP_SESSION_IDLE_MS: '0' })).toThrow('MCP_SESSION_IDLE_MS must be a positive integer');
+    });
+  });
+
+  describe('startHttpServer', () => {
+    let handle: HttpServerHandle;
+    let baseUrl: string;
+    const createServer = vi.fn(() => {
+      const server = new McpServer({ name: 'test', version: '1.0.0' });
+      server.tool('ping', 'Ping', { value: z.string().optional() }, async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+      return server;
+    });
+
+    function post(body: unknown, headers: Record<string, string> = {}) {
+      return fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+        body: JSON.stringify(body),
+      });
+    }
+
+    beforeEach(async () => {
+      createServer.mockClear();
+      const hosts = new HostRegistry(inventory);
+      handle = await startHttpServer(createServer, hosts, {
+        port: 0,
+        bindAddress: '127.0.0.1',
+        authToken: 'secret',
+        sessionIdleMs: 60000,
+      });
+      baseUrl = `http://127.0.0.1:${handle.port}`;
+    });
+
+    afterEach(async () => {
+      await handle.close();
+    });
+
+    it('should only report liveness on /health without authentication', async () => {
+      const response = await fetch(`${baseUrl}/health`);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ status: 'ok' });
+      expect(await (await fetch(`${baseUrl}/health`, { headers: { Authorization: 'Bearer nope' } })).json()).toEqual({ status: 'ok' });
+    });
+
+    it('should report hosts on /health to authenticated callers', async () => {
+      const response = await fetch(`${baseUrl}/health`, { headers: { Authorization: 'Bearer secret' } });
+      const body = await response.json();
+      expect(body).toMatchObject({ status: 'ok', sessions: 0, hosts: [{ name: 'tower', connected: false, circuit: 'closed' }] });
+    });
+
+    it('should reject requests without a valid bearer token', async () => {
+      const missing = await post(initialize);
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+
+      const wrong = await post(initialize, { Authorization: 'Bearer nope' });
+      expect(wrong.status).toBe(401);
+      expect((await wrong.json()).error.message).toContain('invalid bearer token');
+      expect(createServer).not.toHaveBeenCalled();
+    });
+
+    it('should open a session and serve tool calls within it', async () => {
+      const auth = { Authorization: 'Bearer secret' };
+      const init = await post(initialize, auth);
+      expect(init.status).toBe(200);
+      const sessionId = init.headers.get('mcp-session-id');
+      expect(sessionId).toBeTruthy();
+      await init.text();
+
+      const session = { ...auth, 'mcp-session-id': sessionId!, 'mcp-protocol-version': '2025-03-26' };
+      await (await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, session)).text();
+      const list = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }, session);
+      expect(await list.text()).toContain('"ping"');
+
+      const health = await (await fetch(`${baseUrl}/health`, { headers: { Authorization: 'Bearer secret' } })).json();
+      expect(health.sessions).toBe(1);
+      expect(createServer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 404 for an unknown session', async () => {
+      const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, {
+        Authorization: 'Bearer secret',
+        'mcp-session-id': 'does-not-exist',
+      });
+      expect(response.status).toBe(404);
+    });
+
+    it('should require a session id for GET /mcp', async () => {
+      const response = await fetch(`${baseUrl}/mcp`, { headers: { Authorization: 'Bearer secret' } });
+      expect(response.status).toBe(400);
+    });
+
+    it('should serve the legacy SSE transport', async () => {
+      const controller = new AbortController();
+      const response = await fetch(`${baseUrl}/sse`, { headers: { Authorization: 'Bearer secret' }, signal: controller.signal });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+      const reader = response.body!.getReader();
+      const { value } = await reader.read();
+      const event = new TextDecoder().decode(value);
+      expect(event).toContain('event: endpoint');
+      const endpoint = event.match(/data: (\S+)/)![1];
+      expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+
+      const message = await fetch(`${baseUrl}${endpoint}`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+        body: JSON.stringify(initialize),
+      });
+      expect(message.status).toBe(202);
+      controller.abort();
+    });
+
+    it('should not keep a session when the first request is not initialize', async () => {
+      const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { Authorization: 'Bearer secret' });
+      expect(response.status).toBe(400);
+      const health = await (await fetch(`${baseUrl}/health`, { headers: { Authorization: 'Bearer secret' } })).json();
+      expect(health.sessions).toBe(0);
+    });
+  });
+
+  describe('client certificates', () => {
+    let handle: HttpServerHandle;
+
+    /** POST /mcp as one of the fixture clients; resolves to the status, session id and body */
+    function post(client: keyof typeof clients, body: unknown, sessionId?: string): Promise<{ status: number; sessionId?: string; body: string }> {
+      return new Promise((resolve, reject) => {
+        const req = https.request({
+          host: '127.0.0.1',
+          port: handle.port,
+          path: '/mcp',
+          method: 'POST',
+          ca,
+          ...clients[client],
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...(sessionId ? { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' } : {}),
+          },
+        }, (res) => {
+          let data = '';
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () => resolve({ status: res.statusCode!, sessionId: res.headers['mcp-session-id'] as string | undefined, body: data }));
+        });
+        req.on('error', reject);
+        req.end(JSON.stringify(body));
+      });
+    }
+
+    beforeEach(async () => {
+      const createServer = () => {
+        const server = new McpServer({ name: 'test', version: '1.0.0' });
+        server.tool('ping', 'Ping', {}, async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+        return server;
+      };
+      handle = await startHttpServer(createServer, new HostRegistry(inventory), {
+        port: 0,
+        bindAddress: '127.0.0.1',
+        tls: { cert: Buffer.from(serverCert.cert), key: Buffer.from(serverCert.key), ca: Buffer.from(ca) },
+        sessionIdleMs: 60000,
+      });
+    });
+
+    afterEach(async () => {
+      await handle.close();
+    });
+
+    it('should only let the client that opened a session use it', async () => {
+      const init = await post('alice', initialize);
+      expect(init.status).toBe(200);
+      expect(init.sessionId).toBeTruthy();
+      await post('alice', { jsonrpc: '2.0', method: 'notifications/initialized' }, init.sessionId);
+
+      const own = await post('alice', { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }, init.sessionId);
+      expect(own.body).toContain('"ping"');
+
+      const other = await post('bob', { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }, init.sessionId);
+      expect(other.status).toBe(404);
+      expect(other.body).toContain('Session not found');
+    });
+  });
+});
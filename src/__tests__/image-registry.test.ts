@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchRemoteDigest, isInsecureRegistry, parseImageReference } from '../image-registry.js';
+
+const DIGEST = 'sha256:' + 'a'.repeat(64);
+
+function headers(status: string, extra: string[] = []): string {
+  return [`HTTP/1.1 ${status}`, 'Content-Type: application/json', ...extra, ''].join('\r\n');
+}
+
+describe('Image Registry', () => {
+  describe('parseImageReference', () => {
+    it('should resolve Docker Hub short names', () => {
+      expect(parseImageReference('nginx')).toEqual({ registry: 'registry-1.docker.io', repository: 'library/nginx', tag: 'latest' });
+      expect(parseImageReference('linuxserver/sonarr:4.0')).toEqual({ registry: 'registry-1.docker.io', repository: 'linuxserver/sonarr', tag: '4.0' });
+      expect(parseImageReference('docker.io/library/redis:7')).toMatchObject({ registry: 'registry-1.docker.io', repository: 'library/redis' });
+    });
+
+    it('should recognise other registries, ports and digests', () => {
+      expect(parseImageReference('lscr.io/linuxserver/plex')).toEqual({ registry: 'lscr.io', repository: 'linuxserver/plex', tag: 'latest' });
+      expect(parseImageReference('localhost:5000/app:1.2')).toEqual({ registry: 'localhost:5000', repository: 'app', tag: '1.2' });
+      expect(parseImageReference(`ghcr.io/org/app@${DIGEST}`)).toEqual({ registry: 'ghcr.io', repository: 'org/app', tag: undefined, digest: DIGEST });
+    });
+
+    it('should reject invalid references', () => {
+      expect(() => parseImageReference('Bad/Name')).toThrow('Invalid image reference');
+      expect(() => parseImageReference('app:$(x)')).toThrow('Invalid image reference');
+    });
+  });
+
+  it('should use HTTP for localhost and configured insecure registries', () => {
+    expect(isInsecureRegistry('localhost:5000')).toBe(true);
+    expect(isInsecureRegistry('127.0.0.1:5000')).toBe(true);
+    expect(isInsecureRegistry('registry.lan:5000')).toBe(false);
+    expect(isInsecureRegistry('registry.lan:5000', ['registry.lan:5000'])).toBe(true);
+  });
+
+  describe('fetchRemoteDigest', () => {
+    it('should read the digest from a local registry over HTTP', async () => {
+      const executor = vi.fn().mockResolvedValue(headers('200 OK', [`Docker-Content-Digest: ${DIGEST}`]));
+      expect(await fetchRemoteDigest(executor, parseImageReference('localhost:5000/app:1'))).toBe(DIGEST);
+      expect(executor).toHaveBeenCalledTimes(1);
+      expect(executor.mock.calls[0][0]).toMatch(/^curl -sSI --max-time 20 -H 'Accept: application\/vnd\.oci\.image\.index\.v1\+json, .*' http:\/\/localhost:5000\/v2\/app\/manifests\/1$/);
+    });
+
+    it('should fetch an anonymous token when challenged', async () => {
+      const challenge = 'Www-Authenticate: Bearer realm="https://auth.docker.io/token",service="registry.docker.io",scope="repository:library/nginx:pull"';
+      const executor = vi.fn()
+        .mockResolvedValueOnce(headers('401 Unauthorized', [challenge]))
+        .mockResolvedValueOnce(headers('200 OK', [`docker-content-digest: ${DIGEST}`]));
+      expect(await fetchRemoteDigest(executor, parseImageReference('nginx:1.27'))).toBe(DIGEST);
+
+      const command = executor.mock.calls[1][0];
+      expect(command).toContain("curl -sS --max-time 20 'https://auth.docker.io/token?service=registry.docker.io&scope=repository%3Alibrary%2Fnginx%3Apull'");
+      expect(command).toContain('-H "Authorization: Bearer $token" https://registry-1.docker.io/v2/library/nginx/manifests/1.27');
+    });
+
+    it('should report missing tags and other failures', async () => {
+      await expect(fetchRemoteDigest(vi.fn().mockResolvedValue(headers('404 Not Found')), parseImageReference('app:9')))
+        .rejects.toThrow('Tag "9" not found');
+      await expect(fetchRemoteDigest(vi.fn().mockResolvedValue(''), parseImageReference('app')))
+        .rejects.toThrow('returned no response');
+      await expect(fetchRemoteDigest(vi.fn(), parseImageReference(`app@${DIGEST}`))).rejects.toThrow('pinned by digest');
+    });
+  });
+});
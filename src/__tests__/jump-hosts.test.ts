@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { describeRoute, parseProxyJump, resolveJumpHosts } from '../jump-hosts.js';
+
+const target = {
+  host: 'nas.internal',
+  port: 22,
+  username: 'root',
+  privateKeyPath: '/keys/nas',
+  hostFingerprint: 'SHA256:target',
+  hostKeyChecking: 'strict' as const,
+};
+
+describe('Jump Hosts', () => {
+  describe('parseProxyJump', () => {
+    it('should parse users, ports and multiple hops', () => {
+      expect(parseProxyJump('admin@bastion:2222, jump2')).toEqual([
+        { host: 'bastion', port: 2222, username: 'admin' },
+        { host: 'jump2', port: undefined, username: undefined },
+      ]);
+    });
+
+    it('should parse bracketed IPv6 and ssh:// URIs', () => {
+      expect(parseProxyJump('ops@[fd00::1]:2200')).toEqual([{ host: 'fd00::1', port: 2200, username: 'ops' }]);
+      expect(parseProxyJump('ssh://ops@bastion:22')).toEqual([{ host: 'bastion', port: 22, username: 'ops' }]);
+    });
+
+    it('should treat "none" as no jump hosts', () => {
+      expect(parseProxyJump('none')).toEqual([]);
+    });
+
+    it('should reject invalid ports', () => {
+      expect(() => parseProxyJump('bastion:99999')).toThrow('Invalid port in jump host "bastion:99999"');
+    });
+  });
+
+  describe('resolveJumpHosts', () => {
+    it('should inherit credentials and host key policy but not the pinned fingerprint', () => {
+      const [hop] = resolveJumpHosts(['bastion'], target);
+      expect(hop).toMatchObject({
+        host: 'bastion',
+        port: 22,
+        username: 'root',
+        privateKeyPath: '/keys/nas',
+        hostKeyChecking: 'strict',
+      });
+      expect(hop.hostFingerprint).toBeUndefined();
+    });
+
+    it('should keep per-hop credentials', () => {
+      const hops = resolveJumpHosts(
+        [{ host: 'bastion', username: 'jump', password: 'pw', hostFingerprint: 'SHA256:bastion' }, 'ops@inner:2222'],
+        target
+      );
+      expect(hops[0]).toMatchObject({ username: 'jump', password: 'pw', privateKeyPath: '/keys/nas', hostFingerprint: 'SHA256:bastion' });
+      expect(hops[1]).toMatchObject({ host: 'inner', port: 2222, username: 'ops' });
+    });
+
+    it("should not send the target's password to jump hosts", () => {
+      const withPassword = { ...target, password: 'nas-secret' };
+      const [hop] = resolveJumpHosts(['bastion'], withPassword);
+      expect(hop.password).toBeUndefined();
+      expect(hop.privateKeyPath).toBe('/keys/nas');
+
+      const passwordOnly = { host: 'nas.internal', port: 22, username: 'root', password: 'nas-secret' };
+      expect(() => resolveJumpHosts(['bastion'], passwordOnly)).toThrow('Jump host bastion has no credentials');
+      expect(resolveJumpHosts([{ host: 'bastion', password: 'jump-secret' }], passwordOnly)[0].password).toBe('jump-secret');
+    });
+
+    it('should require a host for object hops', () => {
+      expect(() => resolveJumpHosts([{ username: 'jump' }], target)).toThrow('Jump host 1 is missing "host"');
+    });
+  });
+
+  it('should describe the route through each hop', () => {
+    const config = { ...target, jumpHosts: resolveJumpHosts(['admin@bastion:2222'], target) };
+    expect(describeRoute(config)).toBe('admin@bastion:2222 -> root@nas.internal:22');
+  });
+});
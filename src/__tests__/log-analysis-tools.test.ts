@@ -36,6 +36,14 @@ describe('Log Analysis Tools', () => {
       const tool = registeredTools.get('log');
       const result = await tool.handler({ action: 'grep_all', pattern: 'error' });
       expect(result.content[0].text).toContain('Search');
+      expect(mockSSHExecutor.mock.calls[0][0]).toContain('grep -i -e error /var/log/syslog');
+    });
+
+    it('should support extended regex alternation', async () => {
+      mockSSHExecutor.mockResolvedValue('');
+      const tool = registeredTools.get('log');
+      await tool.handler({ action: 'grep_all', pattern: 'oom|killed process', extendedRegex: true });
+      expect(mockSSHExecutor.mock.calls[0][0]).toContain("grep -i -E -e 'oom|killed process' /var/log/syslog");
     });
   });
 
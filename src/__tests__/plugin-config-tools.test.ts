@@ -26,10 +26,14 @@ describe('Plugin Config Tools', () => {
 
   describe('action=list', () => {
     it('should list plugins', async () => {
-      mockSSHExecutor.mockResolvedValue('plugin1|1.0|/boot/config/plugins/plugin1/plugin1.plg');
+      mockSSHExecutor.mockResolvedValue('plugin1|1.0|/boot/config/plugins/plugin1/plugin1.plg\nplugin2|no-plg|/boot/config/plugins/plugin2/');
       const tool = registeredTools.get('plugin');
       const result = await tool.handler({ action: 'list' });
       expect(result.content[0].text).toContain('Plugins');
+      expect(result.structuredContent.plugins).toEqual([
+        { name: 'plugin1', version: '1.0', path: '/boot/config/plugins/plugin1/plugin1.plg' },
+        { name: 'plugin2', path: '/boot/config/plugins/plugin2/' },
+      ]);
     });
   });
 
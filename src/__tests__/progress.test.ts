@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createProgressReporter } from '../progress.js';
+
+describe('Progress Reporter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should do nothing without a progress token', () => {
+    expect(createProgressReporter({ sendNotification: vi.fn() })).toBeUndefined();
+    expect(createProgressReporter(undefined)).toBeUndefined();
+  });
+
+  it('should send the first chunk immediately and throttle the rest', async () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const reporter = createProgressReporter({ _meta: { progressToken: 'tok' }, sendNotification })!;
+
+    reporter.onOutput('line 1\n');
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+    expect(sendNotification).toHaveBeenLastCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'tok', progress: 7, message: 'line 1\n' },
+    });
+
+    reporter.onOutput('line 2\n');
+    reporter.onOutput('line 3\n');
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+    expect(sendNotification).toHaveBeenLastCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'tok', progress: 21, message: 'line 2\nline 3\n' },
+    });
+  });
+
+  it('should only carry the tail of large output', () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const reporter = createProgressReporter({ _meta: { progressToken: 1 }, sendNotification })!;
+
+    reporter.onOutput('x'.repeat(5000));
+    const { params } = sendNotification.mock.calls[0][0];
+    expect(params.progress).toBe(5000);
+    expect(params.message).toHaveLength(1000);
+  });
+
+  it('should drop pending notifications once finished', async () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const reporter = createProgressReporter({ _meta: { progressToken: 'tok' }, sendNotification })!;
+
+    reporter.onOutput('a');
+    reporter.onOutput('b');
+    reporter.finish();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { loadPrompts } from '../prompt-loader.js';
+import { investigationPrompts } from '../prompts/investigations.js';
+import { HostRegistry } from '../host-registry.js';
+import { UnraidPlatform } from '../platforms/unraid/index.js';
+import { LinuxPlatform } from '../platforms/linux/index.js';
+
+vi.mock('ssh2');
+
+const host = (name: string) => ({ name, host: `${name}.local`, port: 22, username: 'root', password: 'pw' });
+
+describe('Prompts', () => {
+  let mockServer: any;
+  let registered: Map<string, any>;
+
+  beforeEach(() => {
+    registered = new Map();
+    mockServer = {
+      prompt: vi.fn((name, description, argsSchema, callback) => {
+        registered.set(name, { description, argsSchema, callback });
+      }),
+    };
+  });
+
+  function text(result: any): string {
+    return result.messages[0].content.text;
+  }
+
+  it('should skip platform-specific prompts when no host runs the platform', () => {
+    const hosts = new HostRegistry({ defaultHost: 'box', hosts: [host('box')] });
+    hosts.get('box').platform = LinuxPlatform;
+    loadPrompts(mockServer, hosts);
+
+    expect(Array.from(registered.keys())).toEqual(['container_restarting', 'disk_filling', 'host_slow']);
+    expect(registered.get('container_restarting').argsSchema.host).toBeUndefined();
+  });
+
+  it('should chain tool calls for the requested container', async () => {
+    const hosts = new HostRegistry({ defaultHost: 'box', hosts: [host('box')] });
+    hosts.get('box').platform = LinuxPlatform;
+    loadPrompts(mockServer, hosts);
+
+    const result = text(await registered.get('container_restarting').callback({ container: 'plex' }));
+    expect(result).toContain('Container "plex"');
+    expect(result).toContain('`docker` {"action":"inspect","container":"plex"}');
+    expect(result).toContain('`log` {"action":"restart_history","hours":24}');
+    expect(result).not.toContain('`plugin`');
+  });
+
+  it('should add Unraid steps and defaults for Unraid hosts', async () => {
+    const hosts = new HostRegistry({ defaultHost: 'tower', hosts: [host('tower')] });
+    hosts.get('tower').platform = UnraidPlatform;
+    loadPrompts(mockServer, hosts);
+
+    const disk = text(await registered.get('disk_filling').callback({}));
+    expect(disk).toContain('"path":"/mnt/user"');
+    expect(disk).toContain('`unraid` {"action":"cache_usage"}');
+
+    const restart = text(await registered.get('container_restarting').callback({ container: 'plex' }));
+    expect(restart).toContain('`plugin` {"action":"template","template":"plex"}');
+    expect(registered.has('parity_errors')).toBe(true);
+  });
+
+  it('should add a host argument and target the chosen host in multi-host mode', async () => {
+    const hosts = new HostRegistry({ defaultHost: 'tower', hosts: [host('tower'), host('box')] });
+    hosts.get('tower').platform = UnraidPlatform;
+    hosts.get('box').platform = LinuxPlatform;
+    loadPrompts(mockServer, hosts);
+
+    expect(registered.get('host_slow').argsSchema.host).toBeDefined();
+    const slow = text(await registered.get('host_slow').callback({ host: 'box' }));
+    expect(slow).toContain('Host "box" (Generic Linux)');
+    expect(slow).toContain('`performance` {"action":"bottleneck","host":"box"}');
+    expect(slow).not.toContain('`unraid`');
+
+    await expect(registered.get('parity_errors').callback({ host: 'box' })).rejects.toThrow('does not apply to host "box"');
+    expect(text(await registered.get('parity_errors').callback({}))).toContain('"host":"tower"');
+  });
+
+  it('should reject unknown hosts', async () => {
+    const hosts = new HostRegistry({ defaultHost: 'tower', hosts: [host('tower'), host('box')] });
+    loadPrompts(mockServer, hosts);
+
+    await expect(registered.get('host_slow').callback({ host: 'nope' })).rejects.toThrow('Unknown host "nope"');
+  });
+
+  it('should only reference actions that exist', () => {
+    const tools: Record<string, string[]> = {
+      docker: ['inspect', 'logs', 'health', 'stats', 'logs_aggregate'],
+      log: ['restart_history', 'grep_all', 'error_aggregator'],
+      resource: ['hogs', 'disk_analyzer', 'docker_df', 'dangling', 'zombies', 'io_profile'],
+      system: ['disk_usage'],
+      performance: ['bottleneck'],
+      container_topology: ['dependency_graph'],
+      plugin: ['template'],
+      unraid: ['array_status', 'share_usage', 'cache_usage', 'mover_status', 'mover_log', 'parity_status', 'parity_history', 'smart', 'temps', 'unclean_check', 'spin_status'],
+    };
+    const context = { platform: UnraidPlatform };
+    for (const prompt of investigationPrompts) {
+      const rendered = prompt.build({ container: 'c' }, context);
+      for (const [, tool, json] of rendered.matchAll(/`(\w+)` (\{[^}]*\})/g)) {
+        expect(tools[tool], `${prompt.name}: ${tool}`).toBeDefined();
+        expect(tools[tool]).toContain(JSON.parse(json).action);
+      }
+    }
+  });
+
+  it('should use extended regex for grep_all alternation', () => {
+    const context = { platform: UnraidPlatform };
+    for (const prompt of investigationPrompts) {
+      const rendered = prompt.build({ container: 'c' }, context);
+      for (const [, json] of rendered.matchAll(/`log` (\{[^}]*\})/g)) {
+        const args = JSON.parse(json);
+        if (args.action === 'grep_all' && args.pattern.includes('|')) expect(args.extendedRegex, `${prompt.name}: ${args.pattern}`).toBe(true);
+      }
+    }
+  });
+});
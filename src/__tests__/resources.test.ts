@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { registerResources, resourceUri, ResourceSubscriptions } from '../resource-registrar.js';
+import { HostRegistry } from '../host-registry.js';
+import { coreResources } from '../resources/core-resources.js';
+import { unraidResources } from '../platforms/unraid/resources.js';
+import { ResourceDefinition } from '../platforms/types.js';
+import { containerName } from '../shell.js';
+
+vi.mock('ssh2');
+
+const inventory = {
+  defaultHost: 'tower',
+  hosts: [
+    { name: 'tower', host: 'tower.local', port: 22, username: 'root', password: 'pw' },
+    { name: 'backup', host: 'backup.local', port: 22, username: 'root', password: 'pw' },
+  ],
+};
+
+describe('Resources', () => {
+  let mockServer: any;
+  let registered: Map<string, any>;
+  let hosts: HostRegistry;
+
+  const containers: ResourceDefinition = {
+    name: 'container-inspect',
+    path: 'containers/{name}/inspect',
+    variables: { name: containerName },
+    description: 'Inspect',
+    mimeType: 'application/json',
+    read: (executor, { name }) => executor(`docker inspect ${name}`),
+    list: async (executor) => (await executor('docker ps')).split('\n').map((name) => ({ name })),
+  };
+  const info: ResourceDefinition = {
+    name: 'system-info',
+    path: 'system/info',
+    description: 'Info',
+    mimeType: 'text/plain',
+    read: (executor) => executor('uname -a'),
+  };
+
+  beforeEach(() => {
+    registered = new Map();
+    mockServer = {
+      resource: vi.fn((name, template, metadata, callback) => {
+        registered.set(name, { template, metadata, callback });
+      }),
+      server: {
+        registerCapabilities: vi.fn(),
+        setRequestHandler: vi.fn(),
+        sendResourceUpdated: vi.fn().mockResolvedValue(undefined),
+      },
+    };
+    hosts = new HostRegistry(inventory);
+    hosts.get('tower').executor = vi.fn(async (cmd: string) => (cmd === 'docker ps' ? 'plex\nsonarr' : `tower: ${cmd}`));
+    hosts.get('backup').executor = vi.fn(async (cmd: string) => (cmd === 'docker ps' ? 'restic' : `backup: ${cmd}`));
+  });
+
+  function read(name: string, uri: string) {
+    return registered.get(name).callback(new URL(uri), {}, {});
+  }
+
+  it('should build resource URIs with encoded variables', () => {
+    expect(resourceUri('tower', 'system/info')).toBe('ssh-sre://tower/system/info');
+    expect(resourceUri('tower', 'containers/{name}/inspect', { name: 'plex' })).toBe('ssh-sre://tower/containers/plex/inspect');
+  });
+
+  it('should register each definition as a host template with metadata', () => {
+    registerResources(mockServer, hosts, [{ definition: containers }, { definition: info }]);
+
+    const entry = registered.get('container-inspect');
+    expect(entry.template.uriTemplate.toString()).toBe('ssh-sre://{host}/containers/{name}/inspect');
+    expect(entry.metadata).toEqual({ description: 'Inspect', mimeType: 'application/json' });
+    expect(mockServer.server.registerCapabilities).toHaveBeenCalledWith({ resources: { subscribe: true, listChanged: true } });
+  });
+
+  it('should list instances across every available host', async () => {
+    registerResources(mockServer, hosts, [
+      { definition: containers },
+      { definition: info, isAvailable: (host) => host.name === 'tower' },
+    ]);
+
+    const listed = await registered.get('container-inspect').template.listCallback({});
+    expect(listed.resources.map((r: any) => r.uri)).toEqual([
+      'ssh-sre://tower/containers/plex/inspect',
+      'ssh-sre://tower/containers/sonarr/inspect',
+      'ssh-sre://backup/containers/restic/inspect',
+    ]);
+
+    const infoList = await registered.get('system-info').template.listCallback({});
+    expect(infoList.resources).toEqual([{ uri: 'ssh-sre://tower/system/info', name: 'tower/system/info', mimeType: 'text/plain' }]);
+  });
+
+  it('should skip hosts whose listing fails', async () => {
+    hosts.get('backup').executor = vi.fn().mockRejectedValue(new Error('docker not installed'));
+    registerResources(mockServer, hosts, [{ definition: containers }]);
+
+    const listed = await registered.get('container-inspect').template.listCallback({});
+    expect(listed.resources).toHaveLength(2);
+  });
+
+  it('should read from the host named in the URI', async () => {
+    registerResources(mockServer, hosts, [{ definition: containers }]);
+
+    const result = await read('container-inspect', 'ssh-sre://backup/containers/restic/inspect');
+    expect(result.contents).toEqual([
+      { uri: 'ssh-sre://backup/containers/restic/inspect', mimeType: 'application/json', text: 'backup: docker inspect restic' },
+    ]);
+  });
+
+  it('should reject variables that are not plain names', async () => {
+    registerResources(mockServer, hosts, [{ definition: containers }]);
+
+    await expect(read('container-inspect', 'ssh-sre://tower/containers/plex%3Brm%20-rf/inspect')).rejects.toThrow('Invalid name');
+    expect(hosts.get('tower').executor).not.toHaveBeenCalled();
+  });
+
+  it('should validate each variable with its own validator', async () => {
+    const shares = unraidResources.find((d) => d.name === 'unraid-share')!;
+    registerResources(mockServer, hosts, [{ definition: shares }]);
+
+    const result = await read('unraid-share', resourceUri('tower', shares.path, { share: 'Media Files' }));
+    expect(result.contents[0].text).toBe("tower: cat '/boot/config/shares/Media Files.cfg'");
+    await expect(read('unraid-share', 'ssh-sre://tower/unraid/shares/..%2Fdisk')).rejects.toThrow('Invalid share');
+  });
+
+  it('should require a validator for every path variable', () => {
+    const { variables: _, ...unvalidated } = containers;
+    expect(() => registerResources(mockServer, hosts, [{ definition: unvalidated }])).toThrow('declares no validator for {name}');
+  });
+
+  it('should refuse hosts where the resource is unavailable', async () => {
+    registerResources(mockServer, hosts, [{ definition: info, isAvailable: (host) => host.name === 'tower' }]);
+
+    await expect(read('system-info', 'ssh-sre://backup/system/info')).rejects.toThrow('not available on host "backup"');
+  });
+
+  it('should validate subscriptions and notify when polled content changes', async () => {
+    registerResources(mockServer, hosts, [{ definition: info }]);
+    const [subscribe, unsubscribe] = mockServer.server.setRequestHandler.mock.calls.map((c: any[]) => c[1]);
+
+    await expect(subscribe({ params: { uri: 'ssh-sre://tower/nope' } })).rejects.toThrow('Unknown resource');
+    expect(await subscribe({ params: { uri: 'ssh-sre://tower/system/info' } })).toEqual({});
+    expect(await unsubscribe({ params: { uri: 'ssh-sre://tower/system/info' } })).toEqual({});
+  });
+
+  describe('ResourceSubscriptions', () => {
+    it('should notify only for resources whose content changed', async () => {
+      const content: Record<string, string> = { a: '1', b: '1' };
+      const notify = vi.fn().mockResolvedValue(undefined);
+      const subscriptions = new ResourceSubscriptions(async (uri) => content[uri], notify, 60000);
+
+      await subscriptions.subscribe('a');
+      await subscriptions.subscribe('b');
+      await subscriptions.poll();
+      expect(notify).not.toHaveBeenCalled();
+
+      content.b = '2';
+      await subscriptions.poll();
+      expect(notify.mock.calls).toEqual([['b']]);
+
+      subscriptions.unsubscribe('a');
+      subscriptions.unsubscribe('b');
+      expect(subscriptions.size).toBe(0);
+    });
+
+    it('should not treat failed reads as changes', async () => {
+      const read = vi.fn().mockResolvedValueOnce('1').mockRejectedValueOnce(new Error('timeout')).mockResolvedValueOnce('1');
+      const notify = vi.fn().mockResolvedValue(undefined);
+      const subscriptions = new ResourceSubscriptions(read, notify, 60000);
+
+      await subscriptions.subscribe('a');
+      await subscriptions.poll();
+      await subscriptions.poll();
+      expect(notify).not.toHaveBeenCalled();
+      subscriptions.stop();
+    });
+
+    it('should poll on an interval', async () => {
+      vi.useFakeTimers();
+      try {
+        let value = '1';
+        const notify = vi.fn().mockResolvedValue(undefined);
+        const subscriptions = new ResourceSubscriptions(async () => value, notify, 1000);
+        await subscriptions.subscribe('a');
+
+        value = '2';
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(notify).toHaveBeenCalledWith('a');
+        subscriptions.stop();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('definitions', () => {
+    it('should use unique names and relative paths', () => {
+      const all = [...coreResources, ...unraidResources];
+      expect(new Set(all.map((d) => d.name)).size).toBe(all.length);
+      for (const definition of all) expect(definition.path.startsWith('/')).toBe(false);
+    });
+
+    it('should list Unraid shares from their config files', async () => {
+      const shares = unraidResources.find((d) => d.name === 'unraid-share')!;
+      const executor = vi.fn().mockResolvedValue('/boot/config/shares/appdata.cfg\n/boot/config/shares/media.cfg\n');
+
+      expect(await shares.list!(executor)).toEqual([{ share: 'appdata' }, { share: 'media' }]);
+      expect(executor).toHaveBeenCalledWith("find /boot/config/shares -maxdepth 1 -type f -name '*.cfg' 2>/dev/null | sort");
+      await shares.read(executor, { share: 'media' });
+      expect(executor).toHaveBeenLastCalledWith('cat /boot/config/shares/media.cfg');
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { containerName, deviceName, fileName, filePath, hostName, quote, raw, sh, shareName } from '../shell.js';
+import { collectToolCommands } from './helpers/tool-commands.js';
+
+vi.mock('ssh2');
+
+/**
+ * The parts of a command the shell would interpret: single-quoted text and
+ * backslash-escaped characters are dropped
+ */
+function unquotedText(command: string): string {
+  let text = '';
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === "'") {
+      i = command.indexOf("'", i + 1);
+      if (i === -1) return text + command;
+    } else {
+      text += char;
+    }
+  }
+  return text;
+}
+
+/** Source directories whose modules build commands */
+const COMMAND_SOURCES = ['tools', 'platforms', 'resources'];
+
+/** Untagged template literals with interpolations used as commands */
+const UNSAFE_COMMANDS = [
+  /[eE]xecutor\(\s*`[^`]*\$\{/,
+  /applyFilters\(\s*`[^`]*\$\{/,
+  /\b(?:cmd|command)\s*\+?=\s*`[^`]*\$\{/,
+];
+
+function sourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return sourceFiles(file);
+    return entry.name.endsWith('.ts') ? [file] : [];
+  });
+}
+
+describe('Shell', () => {
+  describe('quote', () => {
+    it('should leave plain words and numbers unquoted', () => {
+      expect(quote('plex')).toBe('plex');
+      expect(quote('/mnt/user/appdata')).toBe('/mnt/user/appdata');
+      expect(quote(42)).toBe('42');
+    });
+
+    it('should single-quote everything else', () => {
+      expect(quote('')).toBe("''");
+      expect(quote('a b')).toBe("'a b'");
+      expect(quote("it's")).toBe("'it'\\''s'");
+      expect(quote('$(reboot)')).toBe("'$(reboot)'");
+      expect(quote('*.log')).toBe("'*.log'");
+    });
+
+    it('should reject values that cannot be passed safely', () => {
+      expect(() => quote('a\0b')).toThrow('NUL byte');
+      expect(() => quote(NaN)).toThrow('Invalid numeric');
+    });
+  });
+
+  describe('sh', () => {
+    it('should quote each interpolated value', () => {
+      expect(sh`docker logs --tail ${100} ${'my app'}`).toBe("docker logs --tail 100 'my app'");
+      expect(sh`grep -e ${"a'; reboot; '"} f`).toBe("grep -e 'a'\\''; reboot; '\\''' f");
+    });
+
+    it('should expand arrays and embed raw fragments', () => {
+      expect(sh`ls ${['a', 'b c']}`).toBe("ls a 'b c'");
+      expect(sh`ls ${raw('/boot/config/shares/*.cfg')}`).toBe('ls /boot/config/shares/*.cfg');
+      expect(sh`sh -c ${sh`echo ${'x y'}`}`).toBe(`sh -c 'echo '\\''x y'\\'''`);
+    });
+  });
+
+  describe('validators', () => {
+    it('should accept valid identifiers', () => {
+      expect(containerName('plex_2.0-beta')).toBe('plex_2.0-beta');
+      expect(deviceName('nvme0n1')).toBe('nvme0n1');
+      expect(shareName('Media Files')).toBe('Media Files');
+      expect(fileName('my-template.xml')).toBe('my-template.xml');
+      expect(hostName('fe80::1')).toBe('fe80::1');
+    });
+
+    it('should reject anything else', () => {
+      expect(() => containerName('-rm')).toThrow('Invalid container name "-rm"');
+      expect(() => containerName('a;b', 'network name')).toThrow('Invalid network name');
+      expect(() => deviceName('../sda')).toThrow('Invalid device name');
+      expect(() => shareName('..')).toThrow('Invalid share name');
+      expect(() => shareName('a/b')).toThrow('Invalid share name');
+      expect(() => hostName('-f')).toThrow('Invalid host name');
+    });
+
+    it('should keep paths from being read as options', () => {
+      expect(filePath('-delete')).toBe('./-delete');
+      expect(filePath('/tmp')).toBe('/tmp');
+    });
+  });
+
+  describe('tool modules', () => {
+    it('should build every command with sh', () => {
+      const root = path.resolve(__dirname, '..');
+      const offenders = COMMAND_SOURCES.flatMap((dir) => sourceFiles(path.join(root, dir)))
+        .flatMap((file) =>
+          fs.readFileSync(file, 'utf8').split('\n').flatMap((line, i) =>
+            UNSAFE_COMMANDS.some((pattern) => pattern.test(line)) ? [`${path.relative(root, file)}:${i + 1}`] : []
+          )
+        );
+      expect(offenders).toEqual([]);
+    });
+
+    it('should keep hostile string arguments quoted in every command', async () => {
+      const payloads = ["x'; PWNED; echo '", '$(PWNED)', '`PWNED`', 'a"; PWNED; "b', 'a\nPWNED', 'a b; PWNED'];
+      // Keep the payload past argument checks that run before any command
+      const prefixes: Record<string, string> = { path: '/mnt/user/', url: 'https://example.com/' };
+
+      for (const payload of payloads) {
+        const commands = await collectToolCommands({
+          args: (shape) => {
+            const args: Record<string, unknown> = {};
+            for (const [key, schema] of Object.entries(shape)) {
+              let type = schema;
+              while (type._def.innerType) type = type._def.innerType;
+              if (type._def.typeName === 'ZodString') args[key] = (prefixes[key] ?? '') + payload;
+            }
+            return { ...args, metric: 'cpu', durationSeconds: 2, confirm: true, command: ['cat', payload] };
+          },
+          resourceVariables: { name: payload, share: payload, template: payload },
+        });
+        expect(commands.length).toBeGreaterThan(50);
+
+        const escaped = commands.filter((command) => unquotedText(command).includes('PWNED'));
+        expect(escaped).toEqual([]);
+      }
+    });
+  });
+});
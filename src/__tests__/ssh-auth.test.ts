@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { utils } from 'ssh2';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildAuthOptions, hasCredentials, splitKeyPaths } from '../ssh-auth.js';
+
+vi.mock('ssh2', () => ({
+  utils: { parseKey: vi.fn() },
+}));
+
+vi.mock('fs', () => ({
+  readFileSync: vi.fn(),
+}));
+
+describe('SSH Auth', () => {
+  beforeEach(() => {
+    vi.mocked(fs.readFileSync).mockImplementation(((path: string) => Buffer.from(`key:${path}`)) as any);
+    vi.mocked(utils.parseKey).mockReturnValue({ type: 'ssh-ed25519' });
+  });
+
+  function runAuthHandler(options: Record<string, any>, methodsLeft: string[] | null = null): any[] {
+    const attempts: any[] = [];
+    for (;;) {
+      let next: any;
+      options.authHandler(methodsLeft, null, (method: any) => { next = method; });
+      attempts.push(next);
+      if (next === false) return attempts;
+    }
+  }
+
+  it('should split comma-separated key paths', () => {
+    expect(splitKeyPaths(' ~/.ssh/a , ~/.ssh/b,')).toEqual(['~/.ssh/a', '~/.ssh/b']);
+    expect(splitKeyPaths(undefined)).toEqual([]);
+  });
+
+  it('should accept any single credential', () => {
+    expect(hasCredentials({ privateKeyPath: '/k' })).toBe(true);
+    expect(hasCredentials({ password: 'pw' })).toBe(true);
+    expect(hasCredentials({ agent: '/tmp/agent.sock' })).toBe(true);
+    expect(hasCredentials({ privateKeyPath: ' , ' })).toBe(false);
+  });
+
+  it('should use plain options for a single key with passphrase', () => {
+    const options = buildAuthOptions({ username: 'root', privateKeyPath: '/k', passphrase: 'secret' });
+    expect(options).toEqual({ privateKey: Buffer.from('key:/k'), passphrase: 'secret' });
+  });
+
+  it('should expand ~/ in every key path', () => {
+    const home = (file: string) => path.join(os.homedir(), file);
+    expect(buildAuthOptions({ username: 'root', privateKeyPath: '~/.ssh/id_ed25519' })).toEqual({
+      privateKey: Buffer.from(`key:${home('.ssh/id_ed25519')}`),
+    });
+
+    const attempts = runAuthHandler(buildAuthOptions({ username: 'root', privateKeyPath: '~/.ssh/a, ~/.ssh/b' }));
+    expect(attempts.slice(0, 2).map((a) => a.key.toString())).toEqual([`key:${home('.ssh/a')}`, `key:${home('.ssh/b')}`]);
+  });
+
+  it('should decrypt keys with the passphrase and skip ones that fail', () => {
+    vi.mocked(utils.parseKey).mockImplementation(((key: Buffer) =>
+      key.toString() === 'key:/locked' ? new Error('Encrypted private OpenSSH key detected, but no passphrase given') : { type: 'ssh-ed25519' }
+    ) as any);
+
+    const options = buildAuthOptions({ username: 'root', privateKeyPath: '/locked,/open', passphrase: 'secret' });
+    const attempts = runAuthHandler(options);
+    expect(utils.parseKey).toHaveBeenCalledWith(Buffer.from('key:/locked'), 'secret');
+    expect(attempts.map((a) => a && a.type)).toEqual(['publickey', false]);
+    expect(attempts[0]).toMatchObject({ key: Buffer.from('key:/open'), passphrase: 'secret' });
+  });
+
+  it('should enable keyboard-interactive for password-only hosts', () => {
+    expect(buildAuthOptions({ username: 'root', password: 'pw' })).toEqual({ password: 'pw', tryKeyboard: true });
+  });
+
+  it('should try keys, agent, password and keyboard-interactive in order', () => {
+    const options = buildAuthOptions({
+      username: 'root',
+      privateKeyPath: '/a,/b',
+      agent: '/tmp/agent.sock',
+      password: 'pw',
+    });
+
+    const attempts = runAuthHandler(options);
+    expect(attempts.map((a) => a && a.type)).toEqual([
+      'publickey', 'publickey', 'agent', 'password', 'keyboard-interactive', false,
+    ]);
+    expect(attempts[0].key).toEqual(Buffer.from('key:/a'));
+    expect(attempts[1].key).toEqual(Buffer.from('key:/b'));
+    expect(attempts[2].agent).toBe('/tmp/agent.sock');
+
+    const finish = vi.fn();
+    attempts[4].prompt('', '', '', [{ prompt: 'Password: ' }, { prompt: 'Again: ' }], finish);
+    expect(finish).toHaveBeenCalledWith(['pw', 'pw']);
+  });
+
+  it('should skip unreadable keys and methods the server does not offer', () => {
+    vi.mocked(fs.readFileSync).mockImplementation(((path: string) => {
+      if (path === '/missing') throw new Error('ENOENT');
+      return Buffer.from(`key:${path}`);
+    }) as any);
+
+    const options = buildAuthOptions({ username: 'root', privateKeyPath: '/missing,/b', password: 'pw' });
+    const attempts = runAuthHandler(options, ['publickey', 'keyboard-interactive']);
+    expect(attempts.map((a) => a && a.type)).toEqual(['publickey', 'keyboard-interactive', false]);
+    expect(attempts[0].key).toEqual(Buffer.from('key:/b'));
+  });
+
+  it('should fail when no configured key is usable and nothing else is set', () => {
+    vi.mocked(fs.readFileSync).mockImplementation(() => { throw new Error('ENOENT'); });
+    expect(() => buildAuthOptions({ username: 'root', privateKeyPath: '/a,/b' })).toThrow('No usable SSH credentials');
+  });
+});
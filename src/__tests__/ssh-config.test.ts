@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { connectionFromSshConfig, hostPatternsMatch, lookupSshConfig } from '../ssh-config.js';
+import { connectionConfigFromEnv } from '../ssh-manager.js';
+
+vi.mock('ssh2');
+
+describe('SSH Config', () => {
+  let dir: string;
+  let configFile: string;
+  let originalEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    for (const key of ['SSH_HOST', 'SSH_PORT', 'SSH_USERNAME', 'SSH_PRIVATE_KEY_PATH', 'SSH_PASSWORD', 'SSH_AUTH_SOCK', 'SSH_JUMP_HOSTS']) {
+      delete process.env[key];
+    }
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssh-config-'));
+    configFile = path.join(dir, 'config');
+    fs.mkdirSync(path.join(dir, 'config.d'));
+    fs.writeFileSync(path.join(dir, 'config.d', '10-lab.conf'), [
+      'Host lab-*',
+      '  User labadmin',
+      '  IdentityFile ~/.ssh/lab_key',
+    ].join('\n'));
+    fs.writeFileSync(configFile, [
+      '# Team config',
+      'Include config.d/*.conf',
+      '',
+      'Host tower nas',
+      '  HostName tower.example.com',
+      '  Port=2222',
+      '  User root',
+      '  IdentityFile /keys/%h_ed25519',
+      '  IdentityFile "/keys/with space"',
+      '  ProxyJump bastion',
+      '',
+      'Host bastion',
+      '  HostName bastion.example.com',
+      '  User jump',
+      '  IdentityFile /keys/bastion',
+      '',
+      'Host * !bastion',
+      '  User fallback',
+      '  Port 2200',
+      '',
+      'Match exec "false"',
+      '  User never',
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should match wildcards and negations', () => {
+    expect(hostPatternsMatch(['*', '!bastion'], 'tower')).toBe(true);
+    expect(hostPatternsMatch(['*', '!bastion'], 'bastion')).toBe(false);
+    expect(hostPatternsMatch(['lab-?'], 'lab-1')).toBe(true);
+  });
+
+  it('should resolve an alias with first value winning', () => {
+    const entry = lookupSshConfig('tower', configFile);
+    expect(entry).toEqual({
+      hostName: 'tower.example.com',
+      port: 2222,
+      user: 'root',
+      identityFiles: ['/keys/tower.example.com_ed25519', '/keys/with space'],
+      proxyJump: 'bastion',
+    });
+  });
+
+  it('should apply wildcard blocks and ignore Match blocks', () => {
+    const entry = lookupSshConfig('backup', configFile);
+    expect(entry.hostName).toBe('backup');
+    expect(entry.user).toBe('fallback');
+    expect(entry.port).toBe(2200);
+  });
+
+  it('should follow Include globs relative to the config directory', () => {
+    const entry = lookupSshConfig('lab-1', configFile);
+    expect(entry.user).toBe('labadmin');
+    expect(entry.identityFiles).toEqual([path.join(os.homedir(), '.ssh/lab_key')]);
+  });
+
+  it('should resolve ProxyJump hops through the same config', () => {
+    const connection = connectionFromSshConfig('tower', configFile);
+    expect(connection.jumpHosts).toEqual([
+      { host: 'bastion.example.com', port: undefined, username: 'jump', privateKeyPath: '/keys/bastion' },
+    ]);
+    expect(connection.privateKeyPath).toBe('/keys/tower.example.com_ed25519,/keys/with space');
+  });
+
+  it('should fail clearly when the config file is missing', () => {
+    expect(() => lookupSshConfig('tower', path.join(dir, 'nope'))).toThrow('SSH config:');
+  });
+
+  describe('SSH_CONFIG_HOST', () => {
+    it('should build the connection from the config alias', () => {
+      process.env.SSH_CONFIG_HOST = 'tower';
+      process.env.SSH_CONFIG_FILE = configFile;
+
+      const config = connectionConfigFromEnv();
+      expect(config).toMatchObject({
+        host: 'tower.example.com',
+        port: 2222,
+        username: 'root',
+        privateKeyPath: '/keys/tower.example.com_ed25519,/keys/with space',
+      });
+      expect(config.jumpHosts).toEqual([
+        expect.objectContaining({ host: 'bastion.example.com', port: 22, username: 'jump', privateKeyPath: '/keys/bastion' }),
+      ]);
+    });
+
+    it('should let explicit env vars override individual fields', () => {
+      process.env.SSH_CONFIG_HOST = 'tower';
+      process.env.SSH_CONFIG_FILE = configFile;
+      process.env.SSH_PORT = '22';
+      process.env.SSH_USERNAME = 'mcp';
+      process.env.SSH_JUMP_HOSTS = 'none';
+
+      const config = connectionConfigFromEnv();
+      expect(config).toMatchObject({ host: 'tower.example.com', port: 22, username: 'mcp' });
+      expect(config.jumpHosts).toEqual([]);
+    });
+  });
+});
@@ -27,6 +27,9 @@ describe('SSHConnectionManager', () => {
     process.env.SSH_USERNAME = 'test-user';
     process.env.SSH_PRIVATE_KEY_PATH = '/path/to/key';
     delete process.env.SSH_PASSWORD;
+    delete process.env.SSH_KEY_PASSPHRASE;
+    delete process.env.SSH_AUTH_SOCK;
+    delete process.env.SSH_JUMP_HOSTS;
 
     // Create mock Client instance with ssh2's callback-based interface
     mockClient = {
@@ -100,14 +103,22 @@ describe('SSHConnectionManager', () => {
       }).rejects.toThrow('SSH_USERNAME environment variable is required');
     });
 
-    it('should throw error if neither SSH_PRIVATE_KEY_PATH nor SSH_PASSWORD is provided', async () => {
+    it('should throw error if no credentials are provided', async () => {
       delete process.env.SSH_PRIVATE_KEY_PATH;
       delete process.env.SSH_PASSWORD;
 
       await expect(async () => {
         const { SSHConnectionManager } = await import('../ssh-manager.js');
         new SSHConnectionManager();
-      }).rejects.toThrow('Either SSH_PRIVATE_KEY_PATH or SSH_PASSWORD environment variable is required');
+      }).rejects.toThrow('No SSH credentials configured: set SSH_PRIVATE_KEY_PATH, SSH_PASSWORD or SSH_AUTH_SOCK');
+    });
+
+    it('should accept SSH_AUTH_SOCK as the only credential', async () => {
+      delete process.env.SSH_PRIVATE_KEY_PATH;
+      process.env.SSH_AUTH_SOCK = '/tmp/agent.sock';
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      expect(() => new SSHConnectionManager()).not.toThrow();
     });
 
     it('should accept SSH_PASSWORD instead of SSH_PRIVATE_KEY_PATH', async () => {
@@ -171,6 +182,64 @@ describe('SSHConnectionManager', () => {
       expect(manager.isConnected()).toBe(false);
     });
 
+    it('should refuse a host key that does not match the pinned fingerprint', async () => {
+      process.env.SSH_HOST_FINGERPRINT = 'SHA256:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA';
+      let errorListener: ((err: Error) => void) | undefined;
+      mockClient.once.mockImplementation((event: string, listener: (...args: any[]) => void) => {
+        if (event === 'error') errorListener = listener;
+        return mockClient;
+      });
+      mockClient.connect.mockImplementation((config: any) => {
+        const accepted = config.hostVerifier(Buffer.from('presented-key'));
+        if (!accepted) setImmediate(() => errorListener?.(new Error('Handshake failed: host key verification failed')));
+      });
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      await expect(manager.connect()).rejects.toThrow(/Host key verification failed for test-host: .*pinned fingerprint is SHA256:AAAA/);
+      expect(manager.isConnected()).toBe(false);
+    });
+
+    it('should chain through SSH_JUMP_HOSTS with forwardOut', async () => {
+      process.env.SSH_JUMP_HOSTS = 'admin@bastion:2222';
+      process.env.SSH_JUMP_PASSWORD = 'jump-pw';
+      const tunnel = { tunnel: true };
+      mockClient.forwardOut = vi.fn((_srcIP, _srcPort, _dstIP, _dstPort, callback) => callback(undefined, tunnel));
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      await manager.connect();
+
+      expect(mockClient.connect).toHaveBeenCalledTimes(2);
+      expect(mockClient.connect.mock.calls[0][0]).toMatchObject({
+        host: 'bastion',
+        port: 2222,
+        username: 'admin',
+        // Inherited key plus SSH_JUMP_PASSWORD: tried in sequence
+        authHandler: expect.any(Function),
+      });
+      expect(mockClient.connect.mock.calls[0][0].sock).toBeUndefined();
+      expect(mockClient.forwardOut).toHaveBeenCalledWith('127.0.0.1', 0, 'test-host', 22, expect.any(Function));
+      expect(mockClient.connect.mock.calls[1][0]).toMatchObject({ host: 'test-host', sock: tunnel });
+      expect(manager.isConnected()).toBe(true);
+    });
+
+    it('should name the failing jump host and close the chain', async () => {
+      process.env.SSH_JUMP_HOSTS = 'bastion';
+      mockClient.forwardOut = vi.fn((_srcIP, _srcPort, _dstIP, _dstPort, callback) =>
+        callback(new Error('Connection refused'), undefined)
+      );
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      await expect(manager.connect()).rejects.toThrow(
+        'jump host test-user@bastion:22 (hop 1/1) could not reach test-host:22: Connection refused'
+      );
+      expect(mockClient.end).toHaveBeenCalled();
+    });
+
     it('should use custom port if provided', async () => {
       process.env.SSH_PORT = '2222';
 
@@ -283,6 +352,261 @@ describe('SSHConnectionManager', () => {
     });
   });
 
+  describe('streaming output', () => {
+    function streamChunks(chunks: string[]) {
+      const stream: any = {
+        close: vi.fn(),
+        stdout: {
+          on: vi.fn().mockImplementation((event: string, listener: (chunk: Buffer) => void) => {
+            if (event === 'data') {
+              setImmediate(() => chunks.forEach((c) => listener(Buffer.from(c))));
+            }
+          }),
+        },
+        stderr: { on: vi.fn() },
+        on: vi.fn().mockImplementation((event: string, listener: (code: number | null) => void) => {
+          if (event === 'close') setImmediate(() => setImmediate(() => listener(stream.close.mock.calls.length ? null : 0)));
+        }),
+      };
+      mockClient.exec.mockImplementationOnce(
+        (_cmd: string, callback: (err: Error | undefined, stream: any) => void) => callback(undefined, stream)
+      );
+      return stream;
+    }
+
+    it('should pass partial output to onOutput as it arrives', async () => {
+      streamChunks(['first\n', 'second\n']);
+      const onOutput = vi.fn();
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      const result = await manager.executeCommand('tail -f log', { onOutput });
+
+      expect(onOutput.mock.calls.map((c) => c[0])).toEqual(['first\n', 'second\n']);
+      expect(result.stdout).toBe('first\nsecond\n');
+    });
+
+    it('should stop reading and close the channel at MAX_OUTPUT_BYTES', async () => {
+      process.env.MAX_OUTPUT_BYTES = '10';
+      const stream = streamChunks(['123456', '7890abcdef', 'ignored']);
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      const result = await manager.executeCommand('cat huge.log');
+
+      expect(stream.close).toHaveBeenCalledTimes(1);
+      expect(result.stdout).toMatch(/^1234567890\n\n\[Output truncated: exceeded 10 bytes/);
+      expect(result.exitCode).toBe(0);
+    });
+  });
+
+  describe('timeouts', () => {
+    function hangingStream() {
+      const stream: any = {
+        close: vi.fn(),
+        signal: vi.fn().mockReturnValue(true),
+        stdout: { on: vi.fn() },
+        stderr: { on: vi.fn() },
+        on: vi.fn(),
+      };
+      mockClient.exec.mockImplementationOnce(
+        (_cmd: string, callback: (err: Error | undefined, stream: any) => void) => callback(undefined, stream)
+      );
+      return stream;
+    }
+
+    it('should signal the remote process and close the channel on timeout', async () => {
+      process.env.COMMAND_TIMEOUT_MS = '20';
+      const stream = hangingStream();
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      await expect(manager.executeCommand('sleep 600')).rejects.toThrow('Command timed out after 20ms and was stopped');
+      expect(stream.signal).toHaveBeenCalledWith('TERM');
+      expect(stream.close).toHaveBeenCalled();
+    });
+
+    it('should use a per-call timeout over COMMAND_TIMEOUT_MS', async () => {
+      process.env.COMMAND_TIMEOUT_MS = '60000';
+      const stream = hangingStream();
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      await expect(manager.executeCommand('sleep 600', { timeoutMs: 20 })).rejects.toThrow('timed out after 20ms');
+      expect(stream.close).toHaveBeenCalled();
+    });
+
+    it('should stop the remote command when the call is cancelled', async () => {
+      const stream = hangingStream();
+      const controller = new AbortController();
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      const pending = manager.executeCommand('find /', { signal: controller.signal });
+      await vi.waitFor(() => expect(mockClient.exec).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(pending).rejects.toThrow('Command cancelled by the client');
+      expect(stream.signal).toHaveBeenCalledWith('TERM');
+      expect(stream.close).toHaveBeenCalled();
+      expect(manager.getCircuitStatus().consecutiveFailures).toBe(0);
+    });
+
+    it('should not start a command for an already cancelled call', async () => {
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+
+      await expect(manager.executeCommand('du -sh /mnt/user/*', { signal: AbortSignal.abort() })).rejects.toThrow('cancelled');
+      expect(mockClient.exec).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('concurrent commands', () => {
+    it('should return runBatch results in input order and capture failures', async () => {
+      mockClient.exec.mockImplementation(
+        (cmd: string, callback: (err: Error | undefined, stream: any) => void) => {
+          if (cmd === 'bad') {
+            callback(new Error('channel open failure'), undefined);
+            return;
+          }
+          const stream = {
+            stdout: {
+              on: vi.fn().mockImplementation((event: string, listener: (chunk: Buffer) => void) => {
+                if (event === 'data') setImmediate(() => listener(Buffer.from(`out:${cmd}`)));
+              }),
+            },
+            stderr: { on: vi.fn() },
+            on: vi.fn().mockImplementation((event: string, listener: (code: number | null) => void) => {
+              if (event === 'close') setImmediate(() => listener(0));
+            }),
+          };
+          callback(undefined, stream);
+        }
+      );
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const { createExecutor } = await import('../host-registry.js');
+      const { runBatch } = await import('../batch.js');
+      const manager = new SSHConnectionManager();
+      await manager.connect();
+
+      const results = await runBatch(createExecutor(manager), ['one', 'bad', 'two']);
+
+      expect(results[0]).toEqual({ ok: true, output: 'out:one' });
+      expect(results[1]).toMatchObject({ ok: false, error: expect.stringContaining('channel open failure') });
+      expect(results[2]).toEqual({ ok: true, output: 'out:two' });
+    });
+
+    it('should cap concurrent exec channels at SSH_MAX_CONCURRENCY', async () => {
+      process.env.SSH_MAX_CONCURRENCY = '2';
+      let open = 0;
+      let peak = 0;
+      mockClient.exec.mockImplementation(
+        (_cmd: string, callback: (err: Error | undefined, stream: any) => void) => {
+          open++;
+          peak = Math.max(peak, open);
+          const stream = {
+            stdout: { on: vi.fn() },
+            stderr: { on: vi.fn() },
+            on: vi.fn().mockImplementation((event: string, listener: (code: number | null) => void) => {
+              if (event === 'close') {
+                setTimeout(() => {
+                  open--;
+                  listener(0);
+                }, 5);
+              }
+            }),
+          };
+          callback(undefined, stream);
+        }
+      );
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const { createExecutor } = await import('../host-registry.js');
+      const { runBatch } = await import('../batch.js');
+      const manager = new SSHConnectionManager();
+      await manager.connect();
+
+      const results = await runBatch(createExecutor(manager), ['a', 'b', 'c', 'd', 'e']);
+
+      expect(results.every((r) => r.ok)).toBe(true);
+      expect(mockClient.exec).toHaveBeenCalledTimes(5);
+      expect(peak).toBe(2);
+    });
+
+    it('should open SSH_POOL_SIZE connections', async () => {
+      process.env.SSH_POOL_SIZE = '3';
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      await manager.connect();
+
+      expect(mockClient.connect).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    function failExec() {
+      mockClient.exec.mockImplementation(
+        (_cmd: string, callback: (err: Error | undefined, stream: any) => void) => {
+          callback(new Error('Connection reset'), undefined);
+        }
+      );
+    }
+
+    it('should fail fast with the next retry time once open', async () => {
+      process.env.MAX_CONSECUTIVE_FAILURES = '2';
+      process.env.CIRCUIT_BREAKER_COOLDOWN_MS = '60000';
+      failExec();
+
+      const { SSHConnectionManager } = await import('../ssh-manager.js');
+      const manager = new SSHConnectionManager();
+      await manager.connect();
+
+      await expect(manager.executeCommand('ls')).rejects.toThrow('Connection reset');
+      await expect(manager.executeCommand('ls')).rejects.toThrow('Connection reset');
+      mockClient.exec.mockClear();
+
+      await expect(manager.executeCommand('ls')).rejects.toThrow(/Circuit breaker for test-host is open .*Next reconnect attempt at/);
+      expect(mockClient.exec).not.toHaveBeenCalled();
+      expect(manager.getCircuitStatus().state).toBe('open');
+    });
+
+    it('should reconnect, probe and close after the cool-down', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+      try {
+        process.env.MAX_CONSECUTIVE_FAILURES = '1';
+        process.env.CIRCUIT_BREAKER_COOLDOWN_MS = '5000';
+        const execImpl = mockClient.exec.getMockImplementation();
+        failExec();
+
+        const { SSHConnectionManager } = await import('../ssh-manager.js');
+        const manager = new SSHConnectionManager();
+        await manager.connect();
+        await expect(manager.executeCommand('ls')).rejects.toThrow('Connection reset');
+        expect(manager.getCircuitStatus().state).toBe('open');
+
+        mockClient.exec.mockImplementation(execImpl);
+        mockClient.connect.mockClear();
+        vi.advanceTimersByTime(5000);
+
+        const pending = manager.executeCommand('ls');
+        await vi.advanceTimersByTimeAsync(1000);
+        const result = await pending;
+
+        expect(result.stdout).toBe('test output');
+        expect(mockClient.connect).toHaveBeenCalled();
+        expect(mockClient.exec).toHaveBeenCalledWith('true', expect.any(Function));
+        expect(manager.getCircuitStatus().state).toBe('closed');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   describe('disconnect', () => {
     it('should disconnect successfully', async () => {
       const { SSHConnectionManager } = await import('../ssh-manager.js');
@@ -36,15 +36,26 @@ describe('System Tools', () => {
       mockSSHExecutor.mockResolvedValue('file1.txt\nfile2.txt');
       const tool = registeredTools.get('system');
       const result = await tool.handler({ action: 'list_files', path: '/tmp' });
-      expect(mockSSHExecutor).toHaveBeenCalledWith('ls "/tmp"');
+      expect(mockSSHExecutor).toHaveBeenCalledWith('ls /tmp');
       expect(result.content[0].text).toContain('file1.txt');
+      expect(result.structuredContent).toEqual({ path: '/tmp', files: [{ name: 'file1.txt' }, { name: 'file2.txt' }] });
     });
 
     it('should support long format', async () => {
-      mockSSHExecutor.mockResolvedValue('-rw-r--r-- file1.txt');
+      mockSSHExecutor.mockResolvedValue([
+        'total 12K',
+        'drwxr-xr-x  3 root root 4.0K Oct 19 10:00 .',
+        '-rw-r--r--  1 nobody users 1.2M Oct 18 09:30 my file.txt',
+        'lrwxrwxrwx  1 root root    9 Mar  2  2025 latest -> my file.txt',
+      ].join('\n'));
       const tool = registeredTools.get('system');
-      await tool.handler({ action: 'list_files', path: '/tmp', long: true });
-      expect(mockSSHExecutor).toHaveBeenCalledWith('ls -lah "/tmp"');
+      const result = await tool.handler({ action: 'list_files', path: '/tmp', long: true });
+      expect(mockSSHExecutor).toHaveBeenCalledWith('ls -lah /tmp');
+      expect(result.structuredContent.files).toEqual([
+        { name: '.', permissions: 'drwxr-xr-x', owner: 'root', group: 'root', size: '4.0K', modified: 'Oct 19 10:00' },
+        { name: 'my file.txt', permissions: '-rw-r--r--', owner: 'nobody', group: 'users', size: '1.2M', modified: 'Oct 18 09:30' },
+        { name: 'latest', permissions: 'lrwxrwxrwx', owner: 'root', group: 'root', size: '9', modified: 'Mar  2  2025', linkTarget: 'my file.txt' },
+      ]);
     });
   });
 
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ToolFilter, loadToolFilter } from '../tool-filter.js';
+import { countTools, loadTools } from '../tool-loader.js';
+import { HostRegistry } from '../host-registry.js';
+import { AuditLog } from '../audit-log.js';
+
+vi.mock('ssh2');
+
+describe('Tool Filter', () => {
+  describe('ToolFilter', () => {
+    it('should allow everything by default', () => {
+      const filter = new ToolFilter();
+      expect(filter.allowsTool('docker')).toBe(true);
+      expect(filter.allowsAction('docker', 'env')).toBe(true);
+    });
+
+    it('should deny whole tools and single actions', () => {
+      const filter = new ToolFilter({ deny: ['security', 'docker:env'] });
+      expect(filter.allowsTool('security')).toBe(false);
+      expect(filter.allowsAction('security', 'open_ports')).toBe(false);
+      expect(filter.allowsTool('docker')).toBe(true);
+      expect(filter.allowsAction('docker', 'env')).toBe(false);
+      expect(filter.allowsAction('docker', 'logs')).toBe(true);
+    });
+
+    it('should keep only allowed tools and actions', () => {
+      const filter = new ToolFilter({ allow: ['system', 'docker:logs'], deny: ['system:read_file'] });
+      expect(filter.allowsTool('docker')).toBe(true);
+      expect(filter.allowsAction('docker', 'logs')).toBe(true);
+      expect(filter.allowsAction('docker', 'inspect')).toBe(false);
+      expect(filter.allowsAction('system', 'disk_usage')).toBe(true);
+      expect(filter.allowsAction('system', 'read_file')).toBe(false);
+      expect(filter.allowsTool('security')).toBe(false);
+    });
+
+    it('should reject malformed entries', () => {
+      expect(() => new ToolFilter({ deny: ['docker:'] })).toThrow('invalid entry "docker:"');
+      expect(() => new ToolFilter({ allow: ['Docker'] })).toThrow('invalid entry');
+    });
+
+    it('should report entries that matched nothing', () => {
+      const filter = new ToolFilter({ deny: ['docker:env', 'dokcer'] });
+      filter.allowsTool('docker');
+      filter.allowsAction('docker', 'env');
+      expect(filter.unmatched()).toEqual(['dokcer']);
+    });
+  });
+
+  describe('loadToolFilter', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-filter-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read comma-separated env lists', () => {
+      const filter = loadToolFilter({ TOOLS_DENY: 'security, docker:env' });
+      expect(filter.allowsTool('security')).toBe(false);
+      expect(filter.allowsAction('docker', 'env')).toBe(false);
+    });
+
+    it('should read the config file, with env lists taking precedence', () => {
+      const file = path.join(dir, 'tools.json');
+      fs.writeFileSync(file, JSON.stringify({ allow: ['docker'], deny: ['docker:env'] }));
+
+      const fromFile = loadToolFilter({ TOOLS_CONFIG_FILE: file });
+      expect(fromFile.allowsTool('system')).toBe(false);
+      expect(fromFile.allowsAction('docker', 'env')).toBe(false);
+
+      const overridden = loadToolFilter({ TOOLS_CONFIG_FILE: file, TOOLS_DENY: '' });
+      expect(overridden.allowsAction('docker', 'env')).toBe(true);
+      expect(overridden.allowsTool('system')).toBe(false);
+    });
+
+    it('should reject invalid config files', () => {
+      const file = path.join(dir, 'tools.json');
+      fs.writeFileSync(file, JSON.stringify({ deny: 'security' }));
+      expect(() => loadToolFilter({ TOOLS_CONFIG_FILE: file })).toThrow('"deny"');
+      expect(() => loadToolFilter({ TOOLS_CONFIG_FILE: path.join(dir, 'missing.json') })).toThrow('cannot read');
+    });
+  });
+
+  describe('loadTools', () => {
+    let registered: Map<string, any>;
+    let mockServer: any;
+    let hosts: HostRegistry;
+
+    beforeEach(() => {
+      registered = new Map();
+      mockServer = {
+        registerTool: vi.fn((name, config) => registered.set(name, config)),
+        tool: vi.fn((name, description, schema) => registered.set(name, { description, inputSchema: schema })),
+      };
+      hosts = new HostRegistry({ defaultHost: 'box', hosts: [{ name: 'box', host: 'box.local', port: 22, username: 'root', password: 'pw' }] });
+    });
+
+    it('should register every core tool without a filter', () => {
+      const tools = countTools(loadTools(mockServer, hosts));
+      expect(tools).toMatchObject({ core: 13, platform: 0, total: 13 });
+      expect(registered.size).toBe(13);
+    });
+
+    it('should drop denied tools and actions and report the real counts', () => {
+      const all = countTools(loadTools(mockServer, hosts));
+      registered.clear();
+
+      const loaded = loadTools(mockServer, hosts, new ToolFilter({ deny: ['security', 'file_write', 'docker:env'] }));
+      expect(registered.has('security')).toBe(false);
+      expect(registered.has('file_write')).toBe(false);
+      expect(registered.get('docker').inputSchema.action.options).not.toContain('env');
+      expect(registered.get('docker').description).not.toContain(' env,');
+      expect(loaded.find((tool) => tool.name === 'docker')!.actions).not.toContain('env');
+
+      const filtered = countTools(loaded);
+      expect(filtered.total).toBe(all.total - 2);
+      expect(filtered.actions).toBe(all.actions - 4 - 7 - 1);
+    });
+
+    it('should apply action entries to the audit and connection tools', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-filter-'));
+      try {
+        const audited = new HostRegistry(
+          { defaultHost: 'box', hosts: [{ name: 'box', host: 'box.local', port: 22, username: 'root', password: 'pw' }] },
+          { auditLog: new AuditLog(path.join(dir, 'audit.log')) }
+        );
+        const all = countTools(loadTools(mockServer, audited));
+        registered.clear();
+
+        const loaded = loadTools(mockServer, audited, new ToolFilter({ deny: ['audit:verify', 'connection:status'] }));
+        expect(registered.get('audit').inputSchema.action.options).toEqual(['recent']);
+        expect(registered.get('audit').description).not.toContain('verify');
+        expect(loaded.find((tool) => tool.name === 'audit')!.actions).toEqual(['recent']);
+        expect(registered.has('connection')).toBe(false);
+        expect(countTools(loaded)).toMatchObject({ total: all.total - 1, actions: all.actions - 2 });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { wrapToolServer } from '../tool-registrar.js';
+import { HostRegistry, createExecutor } from '../host-registry.js';
+import { defineActions } from '../tool-metadata.js';
+import { structuredResult } from '../output.js';
+import { Redactor } from '../redaction.js';
+import { z } from 'zod';
+
+vi.mock('ssh2');
+
+const inventory = {
+  defaultHost: 'tower',
+  hosts: [
+    { name: 'tower', host: 'tower.local', port: 22, username: 'root', password: 'pw' },
+    { name: 'backup', host: 'backup.local', port: 22, username: 'root', password: 'pw' },
+  ],
+};
+
+describe('Tool Registrar', () => {
+  let mockServer: any;
+  let registeredTools: Map<string, any>;
+  let hosts: HostRegistry;
+
+  beforeEach(() => {
+    registeredTools = new Map();
+    mockServer = {
+      registerTool: vi.fn((name, config, handler) => {
+        registeredTools.set(name, {
+          name,
+          description: config.description,
+          schema: config.inputSchema,
+          outputSchema: config.outputSchema,
+          annotations: config.annotations,
+          handler,
+        });
+      }),
+    };
+    hosts = new HostRegistry(inventory);
+    hosts.get('tower').executor = vi.fn().mockResolvedValue('from tower');
+    hosts.get('backup').executor = vi.fn().mockResolvedValue('from backup');
+  });
+
+  function registerEchoTool(server: any) {
+    const executor = hosts.routingExecutor();
+    server.tool('echo', 'Echo', {}, async () => {
+      const output = await executor('hostname');
+      return { content: [{ type: 'text', text: output }] };
+    });
+  }
+
+  it('should add a host parameter when there are multiple hosts', () => {
+    registerEchoTool(wrapToolServer(mockServer, hosts));
+    const tool = registeredTools.get('echo');
+    expect(tool.schema.host).toBeDefined();
+    expect(tool.schema.host.safeParse('backup').success).toBe(true);
+    expect(tool.schema.host.safeParse('nope').success).toBe(false);
+  });
+
+  it('should not add a host parameter for a single host', () => {
+    const single = new HostRegistry({ defaultHost: 'tower', hosts: [inventory.hosts[0]] });
+    registerEchoTool(wrapToolServer(mockServer, single));
+    expect(registeredTools.get('echo').schema.host).toBeUndefined();
+  });
+
+  it('should route commands to the default host', async () => {
+    registerEchoTool(wrapToolServer(mockServer, hosts));
+    const result = await registeredTools.get('echo').handler({});
+    expect(result.content[0].text).toBe('from tower');
+  });
+
+  it('should route commands to the requested host', async () => {
+    registerEchoTool(wrapToolServer(mockServer, hosts));
+    const result = await registeredTools.get('echo').handler({ host: 'backup' });
+    expect(result.content[0].text).toBe('from backup');
+    expect(hosts.get('tower').executor).not.toHaveBeenCalled();
+  });
+
+  it('should strip the host parameter before calling the handler', async () => {
+    const handler = vi.fn().mockResolvedValue({ content: [] });
+    wrapToolServer(mockServer, hosts).tool('t', 'd', {}, handler);
+    await registeredTools.get('t').handler({ host: 'backup', action: 'x' });
+    expect(handler).toHaveBeenCalledWith({ action: 'x' }, undefined);
+  });
+
+  it('should reject tools unavailable on the target host', async () => {
+    registerEchoTool(wrapToolServer(mockServer, hosts, { isAvailable: (h) => h.name === 'tower' }));
+    const result = await registeredTools.get('echo').handler({ host: 'backup' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('not available on host "backup"');
+  });
+
+  it('should stream command output as progress notifications when a progressToken is sent', async () => {
+    const tower = hosts.get('tower');
+    tower.manager.executeCommand = vi.fn(async (_command: string, options?: any) => {
+      options?.onOutput?.('partial output\n');
+      return { stdout: 'done', stderr: '', exitCode: 0 };
+    }) as any;
+    tower.executor = createExecutor(tower.manager);
+    registerEchoTool(wrapToolServer(mockServer, hosts));
+
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const result = await registeredTools.get('echo').handler({}, { _meta: { progressToken: 7 }, sendNotification });
+
+    expect(result.content[0].text).toBe('done');
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 7, progress: 15, message: 'partial output\n' },
+    });
+  });
+
+  it('should mask secrets in progress notifications', async () => {
+    const tower = hosts.get('tower');
+    tower.manager.executeCommand = vi.fn(async (_command: string, options?: any) => {
+      options?.onOutput?.('API_TOKEN=hunter2\n');
+      return { stdout: 'done', stderr: '', exitCode: 0 };
+    }) as any;
+    tower.executor = createExecutor(tower.manager);
+    registerEchoTool(wrapToolServer(mockServer, hosts, { redactor: new Redactor() }));
+
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    await registeredTools.get('echo').handler({}, { _meta: { progressToken: 7 }, sendNotification });
+
+    expect(sendNotification.mock.calls[0][0].params.message).toBe('API_TOKEN=[REDACTED]\n');
+  });
+
+  it('should stream progress unmasked when the call opts out of redaction', async () => {
+    const tower = hosts.get('tower');
+    tower.manager.executeCommand = vi.fn(async (_command: string, options?: any) => {
+      options?.onOutput?.('API_TOKEN=hunter2\n');
+      return { stdout: 'done', stderr: '', exitCode: 0 };
+    }) as any;
+    tower.executor = createExecutor(tower.manager);
+    registerEchoTool(wrapToolServer(mockServer, hosts, { redactor: new Redactor({ allowOptOut: true }) }));
+
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    await registeredTools.get('echo').handler({ redact: false }, { _meta: { progressToken: 7 }, sendNotification });
+
+    expect(sendNotification.mock.calls[0][0].params.message).toBe('API_TOKEN=hunter2\n');
+  });
+
+  it('should not stream output without a progressToken', async () => {
+    const tower = hosts.get('tower');
+    tower.manager.executeCommand = vi.fn().mockResolvedValue({ stdout: 'done', stderr: '', exitCode: 0 }) as any;
+    tower.executor = createExecutor(tower.manager);
+    registerEchoTool(wrapToolServer(mockServer, hosts));
+
+    await registeredTools.get('echo').handler({}, {});
+    expect(tower.manager.executeCommand).toHaveBeenCalledWith('hostname', { onOutput: undefined });
+  });
+
+  it('should add an optional timeoutMs parameter capped by MAX_COMMAND_TIMEOUT_MS', () => {
+    process.env.MAX_COMMAND_TIMEOUT_MS = '60000';
+    try {
+      registerEchoTool(wrapToolServer(mockServer, hosts));
+    } finally {
+      delete process.env.MAX_COMMAND_TIMEOUT_MS;
+    }
+
+    const timeoutMs = registeredTools.get('echo').schema.timeoutMs;
+    expect(timeoutMs.safeParse(undefined).success).toBe(true);
+    expect(timeoutMs.safeParse(30000).success).toBe(true);
+    expect(timeoutMs.safeParse(120000).success).toBe(false);
+    expect(timeoutMs.safeParse(0).success).toBe(false);
+  });
+
+  it('should pass a per-call timeoutMs to the command and strip it from the args', async () => {
+    const tower = hosts.get('tower');
+    tower.manager.executeCommand = vi.fn().mockResolvedValue({ stdout: 'done', stderr: '', exitCode: 0 }) as any;
+    tower.executor = createExecutor(tower.manager);
+    const executor = hosts.routingExecutor();
+    const handler = vi.fn(async () => {
+      await executor('hostname');
+      return { content: [{ type: 'text' as const, text: 'ok' }] };
+    });
+    wrapToolServer(mockServer, hosts).tool('t', 'd', {}, handler as any);
+
+    await registeredTools.get('t').handler({ action: 'x', timeoutMs: 90000 });
+    expect(handler).toHaveBeenCalledWith({ action: 'x' }, undefined);
+    expect(tower.manager.executeCommand).toHaveBeenCalledWith('hostname', { onOutput: undefined, timeoutMs: 90000 });
+  });
+
+  it("should pass the request's abort signal to commands", async () => {
+    const tower = hosts.get('tower');
+    tower.manager.executeCommand = vi.fn().mockResolvedValue({ stdout: 'done', stderr: '', exitCode: 0 }) as any;
+    tower.executor = createExecutor(tower.manager);
+    registerEchoTool(wrapToolServer(mockServer, hosts));
+
+    const { signal } = new AbortController();
+    await registeredTools.get('echo').handler({}, { signal });
+    expect(vi.mocked(tower.manager.executeCommand).mock.calls[0][1]?.signal).toBe(signal);
+  });
+
+  it("should fall back to the action's declared default timeout", async () => {
+    defineActions('slow', {
+      fixed: { timeoutMs: 45000 },
+      scaled: { timeoutMs: (args) => ((args.seconds as number) + 10) * 1000 },
+    });
+    const tower = hosts.get('tower');
+    tower.manager.executeCommand = vi.fn().mockResolvedValue({ stdout: 'done', stderr: '', exitCode: 0 }) as any;
+    tower.executor = createExecutor(tower.manager);
+    const executor = hosts.routingExecutor();
+    wrapToolServer(mockServer, hosts).tool('slow', 'd', {}, async () => {
+      await executor('hostname');
+      return { content: [{ type: 'text', text: 'ok' }] };
+    });
+    const call = (args: Record<string, unknown>) => registeredTools.get('slow').handler(args);
+
+    await call({ action: 'fixed' });
+    await call({ action: 'scaled', seconds: 50 });
+    await call({ action: 'other' });
+    await call({ action: 'fixed', timeoutMs: 5000 });
+
+    expect(vi.mocked(tower.manager.executeCommand).mock.calls.map((c) => c[1]?.timeoutMs)).toEqual([
+      45000,
+      60000,
+      undefined,
+      5000,
+    ]);
+  });
+
+  it('should return text-only results as structured content', async () => {
+    registerEchoTool(wrapToolServer(mockServer, hosts));
+    const result = await registeredTools.get('echo').handler({ host: 'backup' });
+    expect(result.content[0].text).toBe('from backup');
+    expect(result.structuredContent).toEqual({ host: 'backup', data: { output: 'from backup' } });
+    expect(registeredTools.get('echo').outputSchema.safeParse(result.structuredContent).success).toBe(true);
+  });
+
+  it('should render results in the requested outputFormat', async () => {
+    registerEchoTool(wrapToolServer(mockServer, hosts));
+    const call = (outputFormat: string) => registeredTools.get('echo').handler({ outputFormat });
+
+    expect(JSON.parse((await call('json')).content[0].text)).toEqual({ host: 'tower', data: { output: 'from tower' } });
+    expect((await call('markdown')).content[0].text).toBe('```\nfrom tower\n```');
+    expect(registeredTools.get('echo').schema.outputFormat.safeParse('xml').success).toBe(false);
+  });
+
+  it('should declare action result schemas and render typed results', async () => {
+    defineActions('typed', { count: { output: z.object({ count: z.number() }) } });
+    wrapToolServer(mockServer, hosts).tool('typed', 'd', {}, async () =>
+      structuredResult({ count: 3 }, (data, format) => (format === 'markdown' ? `**${data.count}**` : `Count: ${data.count}`))
+    );
+    const { handler, outputSchema } = registeredTools.get('typed');
+
+    const text = await handler({ action: 'count' });
+    expect(text.content[0].text).toBe('Count: 3');
+    expect(text.structuredContent).toEqual({ host: 'tower', action: 'count', data: { count: 3 } });
+    expect(outputSchema.safeParse(text.structuredContent).success).toBe(true);
+    expect(outputSchema.safeParse({ host: 'tower', data: { count: 'x' } }).success).toBe(false);
+
+    expect((await handler({ action: 'count', outputFormat: 'markdown' })).content[0].text).toBe('**3**');
+  });
+
+  it('should leave error results unstructured', async () => {
+    wrapToolServer(mockServer, hosts).tool('fails', 'd', {}, async () => ({ content: [{ type: 'text', text: 'Error: boom' }], isError: true }));
+    const result = await registeredTools.get('fails').handler({ outputFormat: 'json' });
+    expect(result).toEqual({ content: [{ type: 'text', text: 'Error: boom' }], isError: true });
+  });
+
+  describe('annotations and READ_ONLY', () => {
+    const ops = ['list', 'prune', 'write', 'fetch'] as const;
+
+    beforeEach(() => {
+      defineActions('ops', {
+        prune: { destructive: true },
+        write: { mutating: true },
+        fetch: { mutating: true, openWorld: true },
+      });
+      defineActions('writer', { put: { mutating: true } });
+    });
+
+    function registerOps(server: any) {
+      server.tool('ops', 'Ops. Actions: list (show all), prune (delete unused), write, fetch.', { action: z.enum(ops).describe('Action') }, vi.fn());
+      server.tool('writer', 'Writer. Actions: put.', { action: z.enum(['put']) }, vi.fn());
+      server.tool('reader', 'Reader. Actions: get.', { action: z.enum(['get']) }, vi.fn());
+    }
+
+    it("should derive annotations from the actions' metadata", () => {
+      registerOps(wrapToolServer(mockServer, hosts));
+      expect(registeredTools.get('ops').annotations).toEqual({ readOnlyHint: false, destructiveHint: true, openWorldHint: true });
+      expect(registeredTools.get('writer').annotations).toEqual({ readOnlyHint: false, destructiveHint: false, openWorldHint: false });
+      expect(registeredTools.get('reader').annotations).toEqual({ readOnlyHint: true, destructiveHint: false, openWorldHint: false });
+    });
+
+    it('should remove mutating actions and skip fully mutating tools in READ_ONLY mode', () => {
+      process.env.READ_ONLY = 'true';
+      try {
+        registerOps(wrapToolServer(mockServer, hosts));
+      } finally {
+        delete process.env.READ_ONLY;
+      }
+
+      const tool = registeredTools.get('ops');
+      expect(tool.schema.action.options).toEqual(['list']);
+      expect(tool.schema.action.description).toBe('Action');
+      expect(tool.description).toBe('Ops. Actions: list (show all).');
+      expect(tool.annotations.readOnlyHint).toBe(true);
+      expect(registeredTools.has('writer')).toBe(false);
+      expect(registeredTools.has('reader')).toBe(true);
+    });
+  });
+
+  it('should refuse tools that define their own host parameter', () => {
+    const server = wrapToolServer(mockServer, hosts);
+    expect(() => server.tool('bad', 'd', { host: {} as any }, vi.fn() as any)).toThrow('already defines a "host" parameter');
+  });
+});
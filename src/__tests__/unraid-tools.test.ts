@@ -80,11 +80,19 @@ describe('Unraid Tools', () => {
 
   describe('action=shares', () => {
     it('should list shares', async () => {
-      mockSSHExecutor.mockResolvedValue('appdata\nmedia\nisos');
+      mockSSHExecutor.mockResolvedValue(
+        'total 0\n' +
+        'drwxrwxrwx  1 nobody users  46 Jan  1 10:00 .\n' +
+        'drwxr-xr-x 12 root   root  240 Jan  1 10:00 ..\n' +
+        'drwxrwxrwx  1 nobody users 112 Jan  2 11:30 appdata\n' +
+        'drwxrwxrwx  1 nobody users  20 Jan  3 12:45 media\n'
+      );
       const tool = registeredTools.get('unraid');
       const result = await tool.handler({ action: 'shares' });
       expect(mockSSHExecutor).toHaveBeenCalledWith('ls -la /mnt/user/');
       expect(result.content[0].text).toContain('Shares');
+      expect(result.structuredContent.shares.map((s: any) => s.name)).toEqual(['appdata', 'media']);
+      expect(result.structuredContent.shares[0]).toMatchObject({ owner: 'nobody', group: 'users', permissions: 'drwxrwxrwx' });
     });
   });
 
@@ -111,6 +119,20 @@ describe('Unraid Tools', () => {
       const result = await tool.handler({ action: 'parity_status' });
       expect(result.content[0].text).toContain('Parity Status');
     });
+
+    it('should report resync progress as structured data', async () => {
+      mockSSHExecutor.mockImplementation(async (cmd: string) => cmd === 'cat /proc/mdcmd'
+        ? 'mdState=STARTED\nmdResync=1\nmdResyncPos=250\nmdResyncSize=1000\nmdResyncAction=check P'
+        : '');
+      const tool = registeredTools.get('unraid');
+      const result = await tool.handler({ action: 'parity_status' });
+      expect(result.structuredContent).toEqual({
+        state: 'STARTED',
+        resync: { running: true, action: 'check P', progressPercent: 25 },
+        recentLog: [],
+      });
+      expect(result.content[0].text).toContain('In progress (check P, 25.00%)');
+    });
   });
 
   describe('action=mover_status', () => {
@@ -119,6 +141,7 @@ describe('Unraid Tools', () => {
       const tool = registeredTools.get('unraid');
       const result = await tool.handler({ action: 'mover_status' });
       expect(result.content[0].text).toContain('Not running');
+      expect(result.structuredContent).toMatchObject({ running: false, processes: [] });
     });
   });
 
@@ -26,11 +26,15 @@ describe('VM Tools', () => {
 
   describe('action=list', () => {
     it('should list all VMs', async () => {
-      mockSSHExecutor.mockResolvedValue(` Id   Name            State\n 1    Ubuntu-VM       running`);
+      mockSSHExecutor.mockResolvedValue(` Id   Name            State\n--------------------------------\n 1    Ubuntu-VM       running\n -    Windows 10      shut off\n`);
       const tool = registeredTools.get('vm');
       const result = await tool.handler({ action: 'list' });
       expect(mockSSHExecutor).toHaveBeenCalledWith('virsh list --all');
       expect(result.content[0].text).toContain('VMs');
+      expect(result.structuredContent.vms).toEqual([
+        { id: 1, name: 'Ubuntu-VM', state: 'running' },
+        { name: 'Windows 10', state: 'shut off' },
+      ]);
     });
 
     it('should handle errors', async () => {
@@ -0,0 +1,194 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { logger } from "./logger.js";
+import { Redactor } from "./redaction.js";
+
+/**
+ * One executed (or rejected) command, stored as a JSON line
+ */
+export interface AuditRecord {
+  timestamp: string;
+  /** Inventory host the command ran on */
+  host: string;
+  /** Tool call that issued the command; absent for platform detection and resource reads */
+  tool?: string;
+  action?: string;
+  args?: Record<string, unknown>;
+  /** Authenticated HTTP client, when known */
+  clientId?: string;
+  command: string;
+  /** null when the command never ran (policy rejection, connection failure) */
+  exitCode: number | null;
+  durationMs: number;
+  /** Bytes of stdout plus stderr */
+  outputBytes: number;
+  error?: string;
+  /** Hash of the previous record (hash chain mode) */
+  prevHash?: string;
+  /** sha256 over this record with prevHash (hash chain mode) */
+  hash?: string;
+}
+
+export type AuditEntry = Omit<AuditRecord, "timestamp" | "prevHash" | "hash">;
+
+export interface AuditQuery {
+  /** Most recent entries to return (default: 50) */
+  limit?: number;
+  tool?: string;
+  host?: string;
+  /** Only entries at or after this time */
+  since?: Date;
+}
+
+/** prevHash of the first record in a chain */
+const GENESIS_HASH = "0".repeat(64);
+
+/** String arguments longer than this are shortened (file contents, scripts) */
+const MAX_ARG_LENGTH = 256;
+
+/** Commands longer than this are cut (file_write embeds the whole file in its command) */
+const MAX_COMMAND_LENGTH = 256;
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Shorten long string arguments so records stay small
+ */
+export function summarizeArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    summary[key] = typeof value === "string" && value.length > MAX_ARG_LENGTH
+      ? `${value.substring(0, 64)}... (${value.length} chars)`
+      : value;
+  }
+  return summary;
+}
+
+/**
+ * Cut a long command, keeping its length and hash so it can still be matched
+ */
+function summarizeCommand(command: string): string {
+  if (command.length <= MAX_COMMAND_LENGTH) return command;
+  return `${command.substring(0, MAX_COMMAND_LENGTH)}... (${command.length} chars, sha256:${sha256(command).substring(0, 16)})`;
+}
+
+/**
+ * Append-only JSON-lines log of remote commands
+ *
+ * Writes are queued so records land in execution order and a failed write
+ * never fails the command. With hashChain, each record carries the hash of the
+ * one before it, so edits and deletions show up in verify(). Commands, args
+ * and errors have secrets masked before they are written, and long commands
+ * are cut.
+ */
+export class AuditLog {
+  private pending: Promise<void> = Promise.resolve();
+  /** Hash of the last record written; undefined until read from the file */
+  private lastHash: string | undefined;
+
+  constructor(readonly file: string, readonly hashChain = false, private redactor: Redactor = new Redactor()) {}
+
+  /**
+   * Queue a record; resolves once it is written (or the write failed and was logged)
+   */
+  record(entry: AuditEntry): Promise<void> {
+    const record: AuditRecord = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      command: summarizeCommand(this.redactor.redactText(entry.command)),
+      ...(entry.args ? { args: this.redactor.redactValue(entry.args) } : {}),
+      ...(entry.error ? { error: this.redactor.redactText(entry.error) } : {}),
+    };
+    this.pending = this.pending
+      .then(() => this.append(record))
+      .catch((error) => logger.error(`Audit log write to ${this.file} failed: ${error instanceof Error ? error.message : String(error)}`));
+    return this.pending;
+  }
+
+  /**
+   * Wait for queued records to be written
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  /**
+   * Most recent records matching the query, oldest first
+   */
+  async query(query: AuditQuery = {}): Promise<AuditRecord[]> {
+    await this.flush();
+    const matching = (await this.readRecords()).filter(
+      (record) =>
+        (!query.tool || record.tool === query.tool) &&
+        (!query.host || record.host === query.host) &&
+        (!query.since || new Date(record.timestamp) >= query.since)
+    );
+    return matching.slice(-(query.limit ?? 50));
+  }
+
+  /**
+   * Check the hash chain from the first record
+   * @returns The number of records checked, and the 1-based line of the first broken link
+   */
+  async verify(): Promise<{ records: number; brokenAt?: number; reason?: string }> {
+    await this.flush();
+    const records = await this.readRecords();
+    let prevHash = GENESIS_HASH;
+    for (let i = 0; i < records.length; i++) {
+      const { hash, ...rest } = records[i];
+      if (!hash) return { records: records.length, brokenAt: i + 1, reason: "record has no hash (written without AUDIT_LOG_HASH_CHAIN)" };
+      if (rest.prevHash !== prevHash) return { records: records.length, brokenAt: i + 1, reason: "prevHash does not match the previous record" };
+      if (sha256(JSON.stringify(rest)) !== hash) return { records: records.length, brokenAt: i + 1, reason: "record contents do not match its hash" };
+      prevHash = hash;
+    }
+    return { records: records.length };
+  }
+
+  private async append(record: AuditRecord): Promise<void> {
+    if (this.hashChain) {
+      if (this.lastHash === undefined) this.lastHash = await this.readLastHash();
+      record.prevHash = this.lastHash;
+      record.hash = sha256(JSON.stringify(record));
+    }
+    await fs.promises.appendFile(this.file, JSON.stringify(record) + "\n", { mode: 0o600 });
+    if (record.hash) this.lastHash = record.hash;
+  }
+
+  private async readRecords(): Promise<AuditRecord[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    return content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line, i) => {
+        try {
+          return JSON.parse(line) as AuditRecord;
+        } catch {
+          throw new Error(`Audit log ${this.file}: line ${i + 1} is not valid JSON`);
+        }
+      });
+  }
+
+  /** Resume the chain from the file's last record */
+  private async readLastHash(): Promise<string> {
+    const records = await this.readRecords();
+    return records[records.length - 1]?.hash ?? GENESIS_HASH;
+  }
+}
+
+/**
+ * Load the audit log configured by AUDIT_LOG_FILE, or null when auditing is off
+ *
+ * Records are masked with the server's redactor (REDACT_ALLOW_OPT_OUT does not apply).
+ */
+export function loadAuditLog(env: NodeJS.ProcessEnv = process.env, redactor: Redactor = new Redactor()): AuditLog | null {
+  if (!env.AUDIT_LOG_FILE) return null;
+  return new AuditLog(env.AUDIT_LOG_FILE, env.AUDIT_LOG_HASH_CHAIN === "true", redactor);
+}
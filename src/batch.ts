@@ -0,0 +1,29 @@
+import type { SSHExecutor } from "./platforms/types.js";
+
+/**
+ * Outcome of one command in a batch
+ */
+export type BatchResult = { ok: true; output: string } | { ok: false; error: string };
+
+/**
+ * Run several commands at once and collect every outcome in input order
+ *
+ * Commands are submitted together so the connection manager can multiplex them
+ * over its pooled exec channels (bounded by SSH_MAX_CONCURRENCY). A failing
+ * command yields `{ ok: false }` instead of rejecting the whole batch, which
+ * matches the per-item try/catch the sequential loops used to do.
+ *
+ * @example
+ * ```ts
+ * const results = await runBatch(sshExecutor, devices.map(d => sh`smartctl -A ${d}`));
+ * results.forEach((r, i) => { if (r.ok) parse(devices[i], r.output); });
+ * ```
+ */
+export async function runBatch(executor: SSHExecutor, commands: string[]): Promise<BatchResult[]> {
+  const settled = await Promise.allSettled(commands.map((command) => executor(command)));
+  return settled.map((outcome): BatchResult =>
+    outcome.status === "fulfilled"
+      ? { ok: true, output: outcome.value }
+      : { ok: false, error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) }
+  );
+}
@@ -0,0 +1,44 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { OutputFormat } from "./output.js";
+
+/**
+ * Per-call state for a tool invocation
+ *
+ * Tool modules only receive a plain SSHExecutor, so anything the executor
+ * needs to know about the current call (which host to target, etc.) travels
+ * through this context instead of through every handler.
+ */
+export interface CallContext {
+  /** Inventory name of the host the call targets; unset for tools that span every host */
+  host?: string;
+  /** Receives partial command output when the client asked for progress */
+  onOutput?: (chunk: string) => void;
+  /** Per-command timeout for this call (default: COMMAND_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  /** How the caller wants the result rendered (default: text) */
+  outputFormat?: OutputFormat;
+  /** Tool, action and arguments of the call, for the audit log */
+  tool?: string;
+  action?: string;
+  args?: Record<string, unknown>;
+  /** Authenticated HTTP client that made the call */
+  clientId?: string;
+}
+
+const storage = new AsyncLocalStorage<CallContext>();
+
+/**
+ * Run a function with the given call context
+ */
+export function runWithCallContext<T>(context: CallContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the tool call currently executing, if any
+ */
+export function getCallContext(): CallContext | undefined {
+  return storage.getStore();
+}
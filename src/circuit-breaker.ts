@@ -0,0 +1,116 @@
+/**
+ * Circuit breaker states
+ *
+ * - closed: commands run normally; consecutive failures are counted
+ * - open: commands fail fast until the cool-down elapses
+ * - half_open: one probe is in flight; everything else still fails fast
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Point-in-time view of a breaker, used by the connection diagnostics tool
+ */
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  cooldownMs: number;
+  /** When the breaker last opened (ms since epoch) */
+  openedAt: number | null;
+  /** Earliest time a probe will be attempted while open (ms since epoch) */
+  nextRetryAt: number | null;
+  /** Message of the failure that last opened (or re-opened) the breaker */
+  lastError: string | null;
+}
+
+/**
+ * What the caller should do with a command, according to the breaker
+ */
+export type CircuitDecision = "allow" | "probe" | "reject";
+
+/**
+ * Closed/open/half-open circuit breaker
+ *
+ * The breaker only tracks state; the connection manager decides what a probe
+ * is (reconnect + a cheap command) and reports the outcome back.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private nextRetryAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Decide whether a command may run. Returns "probe" at most once per
+   * cool-down: the caller that receives it owns the half-open trial.
+   */
+  check(): CircuitDecision {
+    if (this.state === "closed") return "allow";
+    if (this.state === "half_open") return "reject";
+    if (this.nextRetryAt !== null && this.now() < this.nextRetryAt) return "reject";
+
+    this.state = "half_open";
+    return "probe";
+  }
+
+  /**
+   * Record a successful command or probe; closes the breaker
+   */
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.nextRetryAt = null;
+  }
+
+  /**
+   * Record a failed command. Opens the breaker once the threshold is reached.
+   * @returns true if this failure opened the breaker
+   */
+  recordFailure(error: string): boolean {
+    this.consecutiveFailures++;
+    if (this.state === "closed" && this.consecutiveFailures >= this.failureThreshold) {
+      this.trip(error);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record a failed half-open probe; re-opens the breaker for another cool-down
+   */
+  recordProbeFailure(error: string): void {
+    this.trip(error);
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      cooldownMs: this.cooldownMs,
+      openedAt: this.openedAt,
+      nextRetryAt: this.nextRetryAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private trip(error: string): void {
+    const now = this.now();
+    this.state = "open";
+    this.openedAt = now;
+    this.nextRetryAt = now + this.cooldownMs;
+    this.lastError = error;
+  }
+}
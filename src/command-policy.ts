@@ -0,0 +1,306 @@
+import * as fs from "fs";
+import { logger } from "./logger.js";
+
+/**
+ * Declarative command policy (the shape of COMMAND_POLICY_FILE)
+ *
+ * Lists in the file are added to the built-in defaults.
+ */
+export interface CommandPolicyConfig {
+  /** enforce rejects violating commands; audit only logs them (default: enforce) */
+  mode?: "enforce" | "audit";
+  /** Regexes matched against the whole command line */
+  denyPatterns?: Array<{ name: string; pattern: string }>;
+  /** Executables that may not run anywhere in a command; a trailing `*` matches a prefix */
+  restrictedBinaries?: string[];
+  /** Most commands allowed in one `a | b | c` pipeline (default: 8) */
+  maxPipelineLength?: number;
+  /** Only allow executables the built-in tools use, plus allowedBinaries */
+  strict?: boolean;
+  /** Extra executables accepted in strict mode */
+  allowedBinaries?: string[];
+}
+
+export interface PolicyViolation {
+  rule: string;
+  message: string;
+}
+
+const DEFAULT_DENY_PATTERNS: Array<{ name: string; pattern: string }> = [
+  {
+    name: "recursive-force-rm",
+    pattern: String.raw`\brm\b(?=[^|;&\n]*\s(?:-[a-zA-Z]*[rR]|--recursive))(?=[^|;&\n]*\s(?:-[a-zA-Z]*f|--force))`,
+  },
+  { name: "dd-to-device", pattern: String.raw`\bdd\b[^|;&\n]*\bof=/dev/` },
+  { name: "write-to-block-device", pattern: String.raw`>\s*/dev/(?:sd|hd|vd|xvd|nvme|md|mmcblk|dm-|mapper/|disk/)` },
+  { name: "recursive-chmod-root", pattern: String.raw`\bch(?:mod|own)\s+(?:-\S+\s+)*-[a-zA-Z]*R[a-zA-Z]*\s+(?:\S+\s+)?/(?:\s|$)` },
+  { name: "fork-bomb", pattern: String.raw`:\(\)\s*\{[^}]*:\s*\|\s*:` },
+];
+
+const DEFAULT_RESTRICTED_BINARIES = [
+  "mkfs*", "mkswap", "wipefs", "fdisk", "sfdisk", "parted", "shred",
+  "shutdown", "reboot", "halt", "poweroff",
+];
+
+/**
+ * Executables the built-in tools run; the strict mode allowlist
+ *
+ * Keep in sync when a tool starts using a new binary (the command-policy
+ * test runs every tool action through strict mode).
+ */
+export const TOOL_BINARIES = [
+  // text and file utilities
+  "awk", "base64", "basename", "cat", "command", "cut", "date", "dirname", "du", "echo", "find", "grep",
+  "head", "ls", "mkdir", "mktemp", "printf", "python3", "rm", "sed", "seq", "sleep", "sort", "tail",
+  "tar", "tee", "timeout", "uniq", "wc", "xargs", "zcat",
+  // system inspection
+  "df", "free", "hdparm", "iostat", "journalctl", "last", "netstat", "openssl", "ps", "pstree", "sensors",
+  "smartctl", "ss", "top", "uname", "uptime", "w", "who",
+  // network tests
+  "dig", "nslookup", "ping", "tracepath", "traceroute",
+  // services
+  "curl", "docker", "mdcmd", "nsenter", "virsh",
+];
+
+const SHELL_KEYWORDS = new Set(["if", "then", "else", "elif", "fi", "do", "done", "while", "until", "!", "{", "}", "[[", "]]"]);
+/** Builtins that run no other program; always allowed in strict mode */
+const SHELL_BUILTINS = new Set(["exit", "return", "break", "continue", "read", "local", "export", "set", "shift", "wait", "cd", "true", "false", "test"]);
+const COMPOUND_KEYWORDS = new Set(["for", "case", "in", "esac", "select", "function"]);
+/** Binaries that run another command given as their arguments */
+const WRAPPERS = new Set(["sudo", "nohup", "nice", "ionice", "env", "exec", "time", "timeout", "xargs", "stdbuf", "watch", "nsenter"]);
+const SHELLS = new Set(["sh", "bash", "dash", "ash", "zsh"]);
+
+/**
+ * Split a command line into its simple commands
+ *
+ * Quote-aware: separators inside quotes don't split, and `$(...)` starts a new
+ * command even inside double quotes. Also measures the longest pipeline.
+ */
+export function splitCommandLine(command: string): { commands: string[]; longestPipeline: number } {
+  const commands: string[] = [];
+  const nesting: Array<"'" | '"' | null> = [];
+  let current = "";
+  let quote: "'" | '"' | null = null;
+  let pipeline = 1;
+  let longestPipeline = 1;
+
+  const flush = () => {
+    if (current.trim()) commands.push(current.trim());
+    current = "";
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const c = command[i];
+    const next = command[i + 1];
+
+    if (quote === "'") {
+      if (c === "'") quote = null;
+      current += c;
+    } else if (c === "\\") {
+      current += c + (next ?? "");
+      i++;
+    } else if (c === "$" && next === "(") {
+      flush();
+      nesting.push(quote);
+      quote = null;
+      i++;
+    } else if (quote === '"') {
+      if (c === '"') quote = null;
+      current += c;
+    } else if (c === "'" || c === '"') {
+      quote = c;
+      current += c;
+    } else if (c === "|" && next !== "|") {
+      flush();
+      pipeline++;
+      longestPipeline = Math.max(longestPipeline, pipeline);
+    } else if (c === "&" && (command[i - 1] === ">" || command[i - 1] === "<" || next === ">")) {
+      current += c;
+    } else if ("|&;\n()`".includes(c)) {
+      flush();
+      if (c === "(") nesting.push(null);
+      if (c === ")") quote = nesting.pop() ?? null;
+      if ((c === "|" || c === "&") && next === c) i++;
+      pipeline = 1;
+    } else {
+      current += c;
+    }
+  }
+  flush();
+
+  return { commands, longestPipeline };
+}
+
+/**
+ * Executables a simple command runs: its command word, plus the command of
+ * wrappers like `sudo` and `timeout`
+ */
+function binariesOf(command: string): string[] {
+  const words = command.split(/\s+/).filter(Boolean);
+  const binaries: string[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    if (COMPOUND_KEYWORDS.has(word)) break;
+    // Keywords, VAR=value assignments and leading redirections
+    if (SHELL_KEYWORDS.has(word) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(word) || /^\d*[<>]/.test(word)) continue;
+
+    const binary = word.replace(/^["'\\]+|["']+$/g, "").split("/").pop() ?? "";
+    if (!/^[A-Za-z0-9_][A-Za-z0-9_.+-]*$/.test(binary)) break;
+    binaries.push(binary);
+    if (!WRAPPERS.has(binary)) break;
+
+    // Skip the wrapper's options and numeric values (`timeout 5`, `xargs -n 1`) to reach the wrapped command
+    while (
+      i + 1 < words.length &&
+      (words[i + 1].startsWith("-") || /^\d/.test(words[i + 1]) || (binary === "env" && words[i + 1].includes("=")))
+    ) {
+      i++;
+    }
+  }
+  return binaries;
+}
+
+/**
+ * Every executable a command line runs, including `sh -c` scripts
+ */
+export function commandBinaries(command: string): string[] {
+  return splitCommandLine(command).commands.flatMap((simple) => {
+    const script = inlineScript(simple);
+    return [...binariesOf(simple), ...(script !== null ? commandBinaries(script) : [])];
+  });
+}
+
+/**
+ * The `sh -c '...'` script of a simple command, if it runs one
+ */
+function inlineScript(command: string): string | null {
+  const match = command.match(/^(?:\S*\/)?(?:sh|bash|dash|ash|zsh)\s+(?:-\S+\s+)*-c\s+(['"])([\s\S]*)\1\s*$/);
+  return match ? match[2] : null;
+}
+
+function globMatch(pattern: string, value: string): boolean {
+  return pattern.endsWith("*") ? value.startsWith(pattern.slice(0, -1)) : pattern === value;
+}
+
+/**
+ * Vets shell commands before they reach the SSH channel
+ *
+ * This is a guard rail against mistakes and injected commands built by tools,
+ * not a sandbox: it parses shell syntax heuristically, and deny patterns match
+ * the raw command line, quoted arguments included.
+ */
+export class CommandPolicy {
+  readonly mode: "enforce" | "audit";
+  private denyPatterns: Array<{ name: string; regex: RegExp }>;
+  private restrictedBinaries: string[];
+  private maxPipelineLength: number;
+  private allowedBinaries: Set<string> | null;
+
+  constructor(config: CommandPolicyConfig = {}) {
+    this.mode = config.mode ?? "enforce";
+    if (this.mode !== "enforce" && this.mode !== "audit") {
+      throw new Error(`Command policy: mode must be "enforce" or "audit" (got "${this.mode}")`);
+    }
+    if (config.maxPipelineLength !== undefined && !(Number.isInteger(config.maxPipelineLength) && config.maxPipelineLength > 0)) {
+      throw new Error("Command policy: maxPipelineLength must be a positive integer");
+    }
+    this.denyPatterns = [...DEFAULT_DENY_PATTERNS, ...(config.denyPatterns ?? [])].map(({ name, pattern }) => {
+      try {
+        return { name, regex: new RegExp(pattern) };
+      } catch (error) {
+        throw new Error(`Command policy: invalid pattern for "${name}" - ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+    this.restrictedBinaries = [...DEFAULT_RESTRICTED_BINARIES, ...(config.restrictedBinaries ?? [])];
+    this.maxPipelineLength = config.maxPipelineLength ?? 8;
+    this.allowedBinaries = config.strict ? new Set([...TOOL_BINARIES, ...(config.allowedBinaries ?? [])]) : null;
+  }
+
+  /**
+   * Check a command against the policy
+   * @returns The first rule the command violates, or null if it is allowed
+   */
+  check(command: string): PolicyViolation | null {
+    for (const { name, regex } of this.denyPatterns) {
+      if (regex.test(command)) return { rule: name, message: `matches deny pattern "${name}"` };
+    }
+
+    const { commands, longestPipeline } = splitCommandLine(command);
+    if (longestPipeline > this.maxPipelineLength) {
+      return {
+        rule: "max-pipeline-length",
+        message: `pipeline of ${longestPipeline} commands exceeds the limit of ${this.maxPipelineLength}`,
+      };
+    }
+
+    for (const simple of commands) {
+      for (const binary of binariesOf(simple)) {
+        if (this.restrictedBinaries.some((pattern) => globMatch(pattern, binary))) {
+          return { rule: "restricted-binary", message: `runs restricted binary "${binary}"` };
+        }
+        if (this.allowedBinaries && !SHELLS.has(binary) && !SHELL_BUILTINS.has(binary) && !this.allowedBinaries.has(binary)) {
+          return { rule: "strict-allowlist", message: `"${binary}" is not used by any built-in tool` };
+        }
+        if (this.allowedBinaries && SHELLS.has(binary) && inlineScript(simple) === null) {
+          return { rule: "strict-allowlist", message: `"${binary}" is only allowed with an inline -c script` };
+        }
+      }
+      const script = inlineScript(simple);
+      if (script !== null) {
+        const violation = this.check(script);
+        if (violation) return violation;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check a command, logging violations
+   * @throws Error in enforce mode if the command violates the policy
+   */
+  enforce(command: string, host: string): void {
+    const violation = this.check(command);
+    if (!violation) return;
+
+    const preview = command.length > 100 ? command.substring(0, 100) + "..." : command;
+    if (this.mode === "audit") {
+      logger.warn(`[${host}] Command policy (audit): ${violation.message}: ${preview}`);
+      return;
+    }
+    logger.warn(`[${host}] Command policy rejected: ${violation.message}: ${preview}`);
+    throw new Error(`Command rejected by policy (${violation.rule}): ${violation.message}`);
+  }
+}
+
+/**
+ * Load the command policy
+ *
+ * COMMAND_POLICY selects the mode (enforce, audit or off; default: enforce),
+ * COMMAND_POLICY_FILE adds rules, and COMMAND_POLICY_STRICT=true turns on the
+ * strict allowlist.
+ *
+ * @returns The policy, or null when COMMAND_POLICY=off
+ */
+export function loadCommandPolicy(env: NodeJS.ProcessEnv = process.env): CommandPolicy | null {
+  const mode = env.COMMAND_POLICY ?? "enforce";
+  if (mode === "off") return null;
+  if (mode !== "enforce" && mode !== "audit") {
+    throw new Error(`COMMAND_POLICY must be "enforce", "audit" or "off" (got "${mode}")`);
+  }
+
+  let config: CommandPolicyConfig = {};
+  if (env.COMMAND_POLICY_FILE) {
+    try {
+      config = JSON.parse(fs.readFileSync(env.COMMAND_POLICY_FILE, "utf8"));
+    } catch (error) {
+      throw new Error(`Command policy: cannot read ${env.COMMAND_POLICY_FILE} - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return new CommandPolicy({
+    ...config,
+    mode: env.COMMAND_POLICY !== undefined ? mode : config.mode,
+    strict: env.COMMAND_POLICY_STRICT !== undefined ? env.COMMAND_POLICY_STRICT === "true" : config.strict,
+  });
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { raw, sh } from "./shell.js";
 
 /**
  * Comprehensive output filtering options for command results
@@ -71,7 +72,7 @@ export const outputFiltersSchema = z.object({
  *   tail: 50,
  *   sort: true
  * });
- * // Returns: "docker logs mycontainer | grep -i 'error' | sort | tail -n 50"
+ * // Returns: "docker logs mycontainer | grep -i -e error | sort | tail -n 50"
  * ```
  */
 export function applyFilters(command: string, filters: OutputFilters): string {
@@ -84,9 +85,8 @@ export function applyFilters(command: string, filters: OutputFilters): string {
 
   // 1. Apply grep filter
   if (filters.grep) {
-    const escapedPattern = filters.grep.replace(/'/g, "'\\''");
-    const grepFlags = filters.grepCaseSensitive ? "" : "-i";
-    result += ` | grep ${grepFlags} '${escapedPattern}'`.trim();
+    const grepFlags = raw(filters.grepCaseSensitive ? "" : " -i");
+    result += sh` | grep${grepFlags} -e ${filters.grep}`;
   }
 
   // 2. Apply sort
@@ -102,9 +102,9 @@ export function applyFilters(command: string, filters: OutputFilters): string {
 
   // 4. Apply head OR tail
   if (filters.head !== undefined) {
-    result += ` | head -n ${filters.head}`;
+    result += sh` | head -n ${filters.head}`;
   } else if (filters.tail !== undefined) {
-    result += ` | tail -n ${filters.tail}`;
+    result += sh` | tail -n ${filters.tail}`;
   }
 
   // 5. Apply wc (word count)
@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import { SSHConnectionConfig, connectionConfigFromEnv } from "./ssh-manager.js";
+import { parseHostKeyChecking } from "./host-keys.js";
+import { hasCredentials } from "./ssh-auth.js";
+import { JumpHostInput, resolveJumpHosts } from "./jump-hosts.js";
+
+/**
+ * A named SSH target from the host inventory
+ */
+export interface HostEntry extends SSHConnectionConfig {
+  /** Inventory name used by the `host` tool parameter */
+  name: string;
+  /** Platform ID override (e.g. 'unraid'); skips auto-detection when set */
+  platform?: string;
+}
+
+/**
+ * Parsed host inventory
+ */
+export interface HostInventory {
+  hosts: HostEntry[];
+  /** Name of the host used when a tool call doesn't specify one */
+  defaultHost: string;
+}
+
+/**
+ * Shape of the SSH_HOSTS_FILE JSON document
+ *
+ * @example
+ * ```json
+ * {
+ *   "defaultHost": "tower",
+ *   "defaults": { "username": "root", "privateKeyPath": "~/.ssh/id_ed25519" },
+ *   "hosts": {
+ *     "tower": { "host": "tower.local", "platform": "unraid", "hostFingerprint": "SHA256:..." },
+ *     "backup": { "host": "10.0.0.12", "port": 2222, "username": "admin" },
+ *     "nas": { "host": "nas.internal", "jumpHosts": ["admin@bastion.example.com"] }
+ *   }
+ * }
+ * ```
+ */
+interface HostInventoryFile {
+  defaultHost?: string;
+  defaults?: RawHostEntry;
+  hosts: Record<string, RawHostEntry>;
+}
+
+/**
+ * An inventory entry as written; `jumpHosts` takes ProxyJump text or per-hop objects
+ */
+type RawHostEntry = Partial<Omit<HostEntry, "name" | "jumpHosts">> & {
+  jumpHosts?: string | JumpHostInput[];
+};
+
+const HOST_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+/**
+ * Validate and normalize a single inventory entry
+ */
+function toHostEntry(name: string, raw: RawHostEntry): HostEntry {
+  if (!HOST_NAME_PATTERN.test(name)) {
+    throw new Error(`Host inventory: invalid host name "${name}" (use letters, digits, '.', '_' or '-')`);
+  }
+  if (!raw.host) throw new Error(`Host inventory: "${name}" is missing "host"`);
+  if (!raw.username) throw new Error(`Host inventory: "${name}" is missing "username"`);
+  // The local ssh-agent is offered to every host unless an entry names its own socket
+  const agent = raw.agent ?? process.env.SSH_AUTH_SOCK;
+  if (!hasCredentials({ privateKeyPath: raw.privateKeyPath, password: raw.password, agent })) {
+    throw new Error(`Host inventory: "${name}" needs "privateKeyPath", "password" or "agent" (or SSH_AUTH_SOCK)`);
+  }
+
+  const port = raw.port ?? 22;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Host inventory: "${name}" has invalid port ${raw.port}`);
+  }
+
+  const entry: HostEntry = {
+    name,
+    host: raw.host,
+    port,
+    username: raw.username,
+    privateKeyPath: raw.privateKeyPath,
+    passphrase: raw.passphrase,
+    agent,
+    password: raw.password,
+    // Host key policy falls back to the global env settings; fingerprints are per-host only
+    knownHostsFile: raw.knownHostsFile ?? process.env.SSH_KNOWN_HOSTS_FILE,
+    hostFingerprint: raw.hostFingerprint,
+    hostKeyChecking: raw.hostKeyChecking
+      ? parseHostKeyChecking(raw.hostKeyChecking, `Host inventory: "${name}" hostKeyChecking`)
+      : parseHostKeyChecking(process.env.SSH_HOST_KEY_CHECKING, "SSH_HOST_KEY_CHECKING"),
+    platform: raw.platform,
+  };
+
+  if (raw.jumpHosts) {
+    const hops = typeof raw.jumpHosts === "string" ? [raw.jumpHosts] : raw.jumpHosts;
+    try {
+      entry.jumpHosts = resolveJumpHosts(hops, entry);
+    } catch (error) {
+      throw new Error(`Host inventory: "${name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Parse a host inventory document (the contents of SSH_HOSTS_FILE)
+ */
+export function parseHostInventory(json: string): HostInventory {
+  let doc: HostInventoryFile;
+  try {
+    doc = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Host inventory: invalid JSON - ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!doc || typeof doc.hosts !== "object" || doc.hosts === null || Array.isArray(doc.hosts)) {
+    throw new Error('Host inventory: expected a "hosts" object keyed by host name');
+  }
+
+  const hosts = Object.entries(doc.hosts).map(([name, raw]) =>
+    toHostEntry(name, { ...doc.defaults, ...raw })
+  );
+  if (hosts.length === 0) throw new Error("Host inventory: no hosts defined");
+
+  const defaultHost = doc.defaultHost ?? hosts[0].name;
+  if (!hosts.some((h) => h.name === defaultHost)) {
+    throw new Error(`Host inventory: defaultHost "${defaultHost}" is not defined in "hosts"`);
+  }
+
+  return { hosts, defaultHost };
+}
+
+/**
+ * Load the host inventory
+ *
+ * Reads SSH_HOSTS_FILE when set. Otherwise builds a single-host inventory from
+ * the SSH_* environment variables, named by SSH_HOST_NAME (default: "default").
+ */
+export function loadHostInventory(): HostInventory {
+  const file = process.env.SSH_HOSTS_FILE;
+  if (file) {
+    return parseHostInventory(fs.readFileSync(file, "utf8"));
+  }
+
+  const name = process.env.SSH_HOST_NAME ?? "default";
+  const entry: HostEntry = { name, ...connectionConfigFromEnv(), platform: process.env.SSH_PLATFORM };
+  return { hosts: [entry], defaultHost: name };
+}
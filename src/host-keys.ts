@@ -0,0 +1,225 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "./logger.js";
+import { expandHome } from "./ssh-config.js";
+
+/**
+ * Host key checking policy
+ *
+ * - strict: the key must match SSH_HOST_FINGERPRINT or a known_hosts entry
+ * - accept-new: unknown hosts are trusted on first use and recorded in known_hosts;
+ *   a changed key is still refused
+ * - off: no verification (not recommended)
+ */
+export type HostKeyChecking = "strict" | "accept-new" | "off";
+
+export const HOST_KEY_CHECKING_MODES: readonly HostKeyChecking[] = ["strict", "accept-new", "off"];
+
+/**
+ * Settings that control how a host's key is verified
+ */
+export interface HostKeyPolicy {
+  /** Inventory host name or address, as written to known_hosts */
+  host: string;
+  port: number;
+  /** Path to the known_hosts file (default: ~/.ssh/known_hosts) */
+  knownHostsFile?: string;
+  /** Pinned fingerprint, e.g. "SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8" */
+  hostFingerprint?: string;
+  hostKeyChecking?: HostKeyChecking;
+}
+
+export type HostKeyVerdict = { ok: true } | { ok: false; reason: string };
+
+/**
+ * One parsed known_hosts line
+ */
+export interface KnownHostEntry {
+  marker: "@revoked" | "@cert-authority" | null;
+  /** Comma-separated host patterns, or a hashed `|1|salt|hash` entry */
+  patterns: string;
+  keyType: string;
+  /** Raw public key blob */
+  key: Buffer;
+}
+
+/**
+ * Validate a HostKeyChecking setting
+ * @throws Error naming the valid modes
+ */
+export function parseHostKeyChecking(value: string | undefined, source: string): HostKeyChecking | undefined {
+  if (value === undefined || value === "") return undefined;
+  if ((HOST_KEY_CHECKING_MODES as readonly string[]).includes(value)) return value as HostKeyChecking;
+  throw new Error(`${source} must be one of ${HOST_KEY_CHECKING_MODES.join(", ")} (got "${value}")`);
+}
+
+/**
+ * OpenSSH-style SHA256 fingerprint of a public key blob
+ */
+export function fingerprint(key: Buffer): string {
+  return "SHA256:" + crypto.createHash("sha256").update(key).digest("base64").replace(/=+$/, "");
+}
+
+/**
+ * Read the key type (e.g. "ssh-ed25519") embedded at the start of a key blob
+ */
+export function keyTypeOf(key: Buffer): string {
+  if (key.length < 4) return "unknown";
+  const length = key.readUInt32BE(0);
+  if (length === 0 || 4 + length > key.length) return "unknown";
+  return key.subarray(4, 4 + length).toString("ascii");
+}
+
+function normalizeFingerprint(value: string): string {
+  const trimmed = value.trim();
+  const body = trimmed.startsWith("SHA256:") ? trimmed.slice(7) : trimmed;
+  return "SHA256:" + body.replace(/=+$/, "");
+}
+
+/**
+ * Name a host is looked up under in known_hosts: `host` on port 22, `[host]:port` otherwise
+ */
+export function knownHostsName(host: string, port: number): string {
+  return port === 22 ? host : `[${host}]:${port}`;
+}
+
+/**
+ * Parse known_hosts content, skipping comments and malformed lines
+ */
+export function parseKnownHosts(content: string): KnownHostEntry[] {
+  const entries: KnownHostEntry[] = [];
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const fields = line.split(/\s+/);
+    let marker: KnownHostEntry["marker"] = null;
+    if (fields[0] === "@revoked" || fields[0] === "@cert-authority") {
+      marker = fields.shift() as KnownHostEntry["marker"];
+    }
+    if (fields.length < 3) continue;
+
+    const [patterns, keyType, keyData] = fields;
+    const key = Buffer.from(keyData, "base64");
+    if (key.length === 0) continue;
+    entries.push({ marker, patterns, keyType, key });
+  }
+  return entries;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Whether a known_hosts host field matches a lookup name
+ *
+ * Supports hashed entries (`|1|salt|hash`), wildcards and `!` negation.
+ */
+export function hostMatches(patterns: string, name: string): boolean {
+  if (patterns.startsWith("|1|")) {
+    const [, , salt, hash] = patterns.split("|");
+    if (!salt || !hash) return false;
+    const digest = crypto.createHmac("sha1", Buffer.from(salt, "base64")).update(name).digest("base64");
+    return digest === hash;
+  }
+
+  let matched = false;
+  for (const pattern of patterns.split(",")) {
+    if (pattern.startsWith("!")) {
+      if (globToRegExp(pattern.slice(1)).test(name)) return false;
+    } else if (globToRegExp(pattern).test(name)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+function readKnownHosts(file: string): KnownHostEntry[] {
+  try {
+    return parseKnownHosts(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+function recordKnownHost(file: string, name: string, key: Buffer): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  let prefix = "";
+  try {
+    const existing = fs.readFileSync(file, "utf8");
+    if (existing.length > 0 && !existing.endsWith("\n")) prefix = "\n";
+  } catch {
+    // New file
+  }
+  fs.appendFileSync(file, `${prefix}${name} ${keyTypeOf(key)} ${key.toString("base64")}\n`, { mode: 0o600 });
+}
+
+/**
+ * Verify a server's host key against the policy
+ *
+ * A pinned fingerprint takes precedence over known_hosts. Only known_hosts
+ * entries of the presented key's type are compared, as a host has one key per
+ * type. In accept-new mode a key of a type not yet known is recorded in
+ * known_hosts; a changed key is always refused.
+ */
+export function verifyHostKey(key: Buffer, policy: HostKeyPolicy): HostKeyVerdict {
+  const mode = policy.hostKeyChecking ?? "accept-new";
+  if (mode === "off") return { ok: true };
+
+  const name = knownHostsName(policy.host, policy.port);
+  const actual = fingerprint(key);
+
+  if (policy.hostFingerprint) {
+    const expected = normalizeFingerprint(policy.hostFingerprint);
+    if (actual === expected) return { ok: true };
+    return {
+      ok: false,
+      reason:
+        `Host key verification failed for ${name}: server presented ${keyTypeOf(key)} key ${actual}, ` +
+        `but the pinned fingerprint is ${expected}. Refusing to connect.`,
+    };
+  }
+
+  const file = expandHome(policy.knownHostsFile ?? "~/.ssh/known_hosts");
+  const entries = readKnownHosts(file).filter((e) => e.marker !== "@cert-authority" && hostMatches(e.patterns, name));
+
+  if (entries.some((e) => e.marker === "@revoked" && e.key.equals(key))) {
+    return { ok: false, reason: `Host key verification failed for ${name}: key ${actual} is marked @revoked in ${file}.` };
+  }
+
+  const keyType = keyTypeOf(key);
+  const known = entries.filter((e) => e.marker === null && e.keyType === keyType);
+  if (known.some((e) => e.key.equals(key))) return { ok: true };
+
+  if (known.length > 0) {
+    const expected = known.map((e) => `${e.keyType} ${fingerprint(e.key)}`).join(", ");
+    return {
+      ok: false,
+      reason:
+        `Host key verification failed for ${name}: HOST KEY HAS CHANGED. Server presented ${keyTypeOf(key)} key ${actual}, ` +
+        `but ${file} has ${expected}. This could be a man-in-the-middle attack or a reinstalled host; ` +
+        `remove the old entry from ${file} if the change is expected.`,
+    };
+  }
+
+  if (mode === "strict") {
+    return {
+      ok: false,
+      reason:
+        `Host key verification failed for ${name}: no entry in ${file} and SSH_HOST_KEY_CHECKING is strict. ` +
+        `Server presented ${keyTypeOf(key)} key ${actual}; add it to known_hosts or set SSH_HOST_FINGERPRINT.`,
+    };
+  }
+
+  try {
+    recordKnownHost(file, name, key);
+    logger.warn(`Permanently added ${name} (${keyTypeOf(key)} ${actual}) to ${file}`);
+  } catch (error) {
+    logger.warn(`Trusting ${name} (${actual}) but could not record it in ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return { ok: true };
+}
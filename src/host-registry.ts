@@ -0,0 +1,192 @@
+import { SSHConnectionManager } from "./ssh-manager.js";
+import { HostEntry, HostInventory } from "./host-inventory.js";
+import { Platform, SSHExecutor, platformRegistry } from "./platforms/index.js";
+import { getCallContext } from "./call-context.js";
+import { logger } from "./logger.js";
+import { CommandPolicy } from "./command-policy.js";
+import { AuditEntry, AuditLog, summarizeArgs } from "./audit-log.js";
+
+/**
+ * A host from the inventory together with its live connection state
+ */
+export interface ManagedHost {
+  name: string;
+  config: HostEntry;
+  manager: SSHConnectionManager;
+  /** Executor bound to this host's connection */
+  executor: SSHExecutor;
+  /** Platform detected (or configured) for this host; null until detectPlatforms() runs */
+  platform: Platform | null;
+}
+
+/**
+ * Options applied to every command a host's executor runs
+ */
+export interface ExecutorOptions {
+  /** Inventory name of the host, for policy messages and audit records */
+  host?: string;
+  /** Vets every command before it reaches the SSH channel */
+  policy?: CommandPolicy | null;
+  /** Records every command, including rejected and failed ones */
+  auditLog?: AuditLog | null;
+}
+
+/**
+ * Create an SSH executor adapter for a connection manager
+ * Converts SSHConnectionManager's full response to simple stdout string
+ */
+export function createExecutor(manager: SSHConnectionManager, options: ExecutorOptions = {}): SSHExecutor {
+  const host = options.host ?? "ssh";
+  return async (command: string): Promise<string> => {
+    const context = getCallContext();
+    const started = Date.now();
+    const audit = (outcome: Pick<AuditEntry, "exitCode" | "outputBytes" | "error">): void => {
+      void options.auditLog?.record({
+        host,
+        tool: context?.tool,
+        action: context?.action,
+        args: context?.args && summarizeArgs(context.args),
+        clientId: context?.clientId,
+        command,
+        durationMs: Date.now() - started,
+        ...outcome,
+      });
+    };
+
+    let result;
+    try {
+      options.policy?.enforce(command, host);
+      result = await manager.executeCommand(command, {
+        onOutput: context?.onOutput,
+        timeoutMs: context?.timeoutMs,
+        signal: context?.signal,
+      });
+    } catch (error) {
+      audit({ exitCode: null, outputBytes: 0, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+    audit({ exitCode: result.exitCode, outputBytes: Buffer.byteLength(result.stdout) + Buffer.byteLength(result.stderr) });
+
+    if (result.exitCode !== 0 && result.stderr) {
+      const cmdPreview = command.length > 100 ? command.substring(0, 100) + "..." : command;
+      throw new Error(`Command failed (exit ${result.exitCode}): ${cmdPreview}\n${result.stderr}`);
+    }
+    return result.stdout;
+  };
+}
+
+/**
+ * Host Registry
+ * Owns one connection manager (and therefore one circuit breaker) per inventory host
+ */
+export class HostRegistry {
+  private hosts: Map<string, ManagedHost> = new Map();
+  readonly defaultHost: string;
+  /** Audit log shared by every host's executor, or null when auditing is off */
+  readonly auditLog: AuditLog | null;
+
+  /**
+   * @param options Command policy and audit log applied to every host's executor (default: none)
+   */
+  constructor(inventory: HostInventory, options: Omit<ExecutorOptions, "host"> = {}) {
+    for (const config of inventory.hosts) {
+      const manager = new SSHConnectionManager(config);
+      this.hosts.set(config.name, {
+        name: config.name,
+        config,
+        manager,
+        executor: createExecutor(manager, { ...options, host: config.name }),
+        platform: null,
+      });
+    }
+    this.defaultHost = inventory.defaultHost;
+    this.auditLog = options.auditLog ?? null;
+  }
+
+  /**
+   * Get a host by name, falling back to the default host
+   * @throws Error if the name is not in the inventory
+   */
+  get(name?: string): ManagedHost {
+    const host = this.hosts.get(name ?? this.defaultHost);
+    if (!host) {
+      throw new Error(`Unknown host "${name}". Configured hosts: ${this.names().join(", ")}`);
+    }
+    return host;
+  }
+
+  /**
+   * List all hosts
+   */
+  list(): ManagedHost[] {
+    return Array.from(this.hosts.values());
+  }
+
+  /**
+   * Get host names
+   */
+  names(): string[] {
+    return Array.from(this.hosts.keys());
+  }
+
+  /**
+   * Executor that runs each command on the host selected for the current tool call
+   */
+  routingExecutor(): SSHExecutor {
+    return (command: string) => this.get(getCallContext()?.host).executor(command);
+  }
+
+  /**
+   * Establish initial connections; failures are logged and retried lazily on first command
+   */
+  async connectAll(): Promise<void> {
+    await Promise.all(
+      this.list().map(async (host) => {
+        try {
+          logger.info(`[${host.name}] Connecting to ${host.config.host}...`);
+          await host.manager.connect();
+        } catch (error) {
+          logger.warn(`[${host.name}] Could not establish initial SSH connection: ${error instanceof Error ? error.message : String(error)}`);
+          logger.warn(`[${host.name}] Will attempt to connect when first command is executed`);
+        }
+      })
+    );
+  }
+
+  /**
+   * Resolve the platform of every host, honoring per-host platform overrides
+   */
+  async detectPlatforms(): Promise<void> {
+    for (const host of this.list()) {
+      host.platform = await this.resolvePlatform(host);
+      logger.info(`[${host.name}] Platform: ${host.platform.displayName} (${host.platform.id})`);
+    }
+  }
+
+  private async resolvePlatform(host: ManagedHost): Promise<Platform> {
+    if (host.config.platform) {
+      const configured = platformRegistry.get(host.config.platform);
+      if (configured) return configured;
+      logger.warn(`[${host.name}] Unknown platform "${host.config.platform}", falling back to detection`);
+    }
+
+    try {
+      return await platformRegistry.detect(host.executor);
+    } catch (error) {
+      logger.warn(`[${host.name}] Platform detection failed: ${error instanceof Error ? error.message : String(error)}`);
+      logger.warn(`[${host.name}] Falling back to generic Linux platform`);
+      const fallback = platformRegistry.get("linux");
+      if (!fallback) {
+        throw new Error("Platform detection failed and no fallback platform available");
+      }
+      return fallback;
+    }
+  }
+
+  /**
+   * Disconnect every host
+   */
+  async disconnectAll(): Promise<void> {
+    await Promise.all(this.list().map((host) => host.manager.disconnect()));
+  }
+}
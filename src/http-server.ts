@@ -0,0 +1,333 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import type { TLSSocket } from "tls";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { HostRegistry } from "./host-registry.js";
+import { logger } from "./logger.js";
+
+/**
+ * Settings for the HTTP transport
+ */
+export interface HttpServerConfig {
+  port: number;
+  /** Interface to bind (default: 0.0.0.0, so the server is reachable from a container) */
+  bindAddress: string;
+  /** Shared secret clients send as `Authorization: Bearer <token>` */
+  authToken?: string;
+  /** Serve HTTPS; with `ca` set, clients must present a certificate signed by it (mTLS) */
+  tls?: { cert: Buffer; key: Buffer; ca?: Buffer };
+  /** Close sessions that have seen no requests for this long */
+  sessionIdleMs: number;
+}
+
+/**
+ * One connected client: its transport and the McpServer instance serving it
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  lastSeen: number;
+  /** Identity that opened the session; only it may use the session id */
+  clientId: string;
+}
+
+/**
+ * A running HTTP transport
+ */
+export interface HttpServerHandle {
+  /** Port actually bound (useful when configured as 0, e.g. in tests) */
+  port: number;
+  /** Close every session and stop listening */
+  close(): Promise<void>;
+}
+
+/** How often idle sessions are swept */
+const SESSION_SWEEP_INTERVAL_MS = 60000;
+
+function parsePositiveInt(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+function readTlsFile(file: string, name: string): Buffer {
+  try {
+    return fs.readFileSync(file);
+  } catch (error) {
+    throw new Error(`${name}: cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Read the HTTP transport settings from the environment
+ *
+ * Authentication is required: set MCP_AUTH_TOKEN, MCP_TLS_CA (client
+ * certificates) or both. MCP_ALLOW_UNAUTHENTICATED=true opts out, for a
+ * server bound to a trusted network only.
+ *
+ * @throws Error when TLS files are missing or no authentication is configured
+ */
+export function httpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): HttpServerConfig {
+  const port = parsePositiveInt(env.MCP_HTTP_PORT, "MCP_HTTP_PORT", 3000);
+  if (port > 65535) throw new Error(`MCP_HTTP_PORT must be at most 65535 (got ${port})`);
+
+  let tls: HttpServerConfig["tls"];
+  if (env.MCP_TLS_CERT || env.MCP_TLS_KEY) {
+    if (!env.MCP_TLS_CERT || !env.MCP_TLS_KEY) {
+      throw new Error("MCP_TLS_CERT and MCP_TLS_KEY must be set together");
+    }
+    tls = {
+      cert: readTlsFile(env.MCP_TLS_CERT, "MCP_TLS_CERT"),
+      key: readTlsFile(env.MCP_TLS_KEY, "MCP_TLS_KEY"),
+      ca: env.MCP_TLS_CA ? readTlsFile(env.MCP_TLS_CA, "MCP_TLS_CA") : undefined,
+    };
+  } else if (env.MCP_TLS_CA) {
+    throw new Error("MCP_TLS_CA requires MCP_TLS_CERT and MCP_TLS_KEY");
+  }
+
+  const authToken = env.MCP_AUTH_TOKEN || undefined;
+  if (!authToken && !tls?.ca && env.MCP_ALLOW_UNAUTHENTICATED !== "true") {
+    throw new Error(
+      "HTTP transport requires authentication: set MCP_AUTH_TOKEN, or MCP_TLS_CERT/MCP_TLS_KEY/MCP_TLS_CA " +
+      "for client certificates (MCP_ALLOW_UNAUTHENTICATED=true disables this check on trusted networks)"
+    );
+  }
+
+  return {
+    port,
+    bindAddress: env.MCP_HTTP_HOST || "0.0.0.0",
+    authToken,
+    tls,
+    sessionIdleMs: parsePositiveInt(env.MCP_SESSION_IDLE_MS, "MCP_SESSION_IDLE_MS", 1800000),
+  };
+}
+
+/**
+ * Constant-time comparison of a presented bearer token against the configured one
+ */
+function tokenMatches(presented: string, expected: string): boolean {
+  // Hash first so the comparison doesn't leak the token length
+  const a = crypto.createHash("sha256").update(presented).digest();
+  const b = crypto.createHash("sha256").update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Check a request's credentials; returns the caller's identity or an error message
+ *
+ * When both a token and a client CA are configured, both are required.
+ */
+function authenticate(req: http.IncomingMessage, config: HttpServerConfig): AuthInfo | string {
+  let clientId = "anonymous";
+
+  if (config.tls?.ca) {
+    const socket = req.socket as TLSSocket;
+    if (!socket.authorized) return "client certificate required";
+    const subject = socket.getPeerCertificate().subject;
+    clientId = (subject?.CN as string | undefined) ?? "client-certificate";
+  }
+
+  let token = "";
+  if (config.authToken) {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+    if (!match) return "missing bearer token";
+    if (!tokenMatches(match[1].trim(), config.authToken)) return "invalid bearer token";
+    token = match[1].trim();
+    if (clientId === "anonymous") clientId = "bearer";
+  }
+
+  return { token, clientId, scopes: [] };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string, headers?: http.OutgoingHttpHeaders): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null }, headers);
+}
+
+/**
+ * Session count and per-host connection state, for authenticated callers
+ */
+function healthReport(hosts: HostRegistry, sessions: Map<string, Session>): Record<string, unknown> {
+  return {
+    status: "ok",
+    sessions: sessions.size,
+    hosts: hosts.list().map((host) => ({
+      name: host.name,
+      connected: host.manager.isConnected(),
+      platform: host.platform?.id ?? null,
+      circuit: host.manager.getCircuitStatus().state,
+    })),
+  };
+}
+
+/**
+ * Serve MCP over HTTP
+ *
+ * - `POST/GET/DELETE /mcp`: Streamable HTTP, sessions keyed by `mcp-session-id`
+ * - `GET /sse` + `POST /messages?sessionId=`: legacy HTTP+SSE transport
+ * - `GET /health`: liveness for anyone; authenticated callers also get sessions and per-host state
+ *
+ * Each session gets its own McpServer from `createServer`, since an McpServer
+ * serves a single transport; all sessions share the hosts' SSH connections.
+ */
+export async function startHttpServer(
+  createServer: () => McpServer,
+  hosts: HostRegistry,
+  config: HttpServerConfig
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  const openSession = async (transport: Session["transport"]): Promise<McpServer> => {
+    const server = createServer();
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.debug(`MCP session ${transport.sessionId} closed`);
+      }
+    };
+    await server.connect(transport);
+    return server;
+  };
+
+  /** A session, if it exists and was opened by the same identity (others get "not found", not a hint it exists) */
+  const findSession = (id: string, auth: AuthInfo): Session | undefined => {
+    const session = sessions.get(id);
+    if (session && session.clientId !== auth.clientId) {
+      logger.warn(`Rejected use of MCP session ${id} by ${auth.clientId} (opened by ${session.clientId})`);
+      return undefined;
+    }
+    return session;
+  };
+
+  const handleMcp = async (req: http.IncomingMessage, res: http.ServerResponse, auth: AuthInfo): Promise<void> => {
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = findSession(sessionId, auth);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        return sendJsonRpcError(res, 404, -32001, "Session not found");
+      }
+      session.lastSeen = Date.now();
+      return session.transport.handleRequest(Object.assign(req, { auth }), res);
+    }
+
+    if (req.method !== "POST") {
+      return sendJsonRpcError(res, 400, -32000, "Bad Request: missing mcp-session-id header");
+    }
+
+    // New session; the transport rejects anything but an initialize request
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastSeen: Date.now(), clientId: auth.clientId });
+        logger.info(`MCP session ${id} opened (${auth.clientId})`);
+      },
+    });
+    const server = await openSession(transport);
+    await transport.handleRequest(Object.assign(req, { auth }), res);
+    if (!transport.sessionId) await server.close();
+  };
+
+  const handleSse = async (res: http.ServerResponse, auth: AuthInfo): Promise<void> => {
+    const transport = new SSEServerTransport("/messages", res);
+    const server = await openSession(transport);
+    sessions.set(transport.sessionId, { transport, server, lastSeen: Date.now(), clientId: auth.clientId });
+    logger.info(`MCP SSE session ${transport.sessionId} opened (${auth.clientId})`);
+  };
+
+  const handleMessages = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL, auth: AuthInfo): Promise<void> => {
+    const session = findSession(url.searchParams.get("sessionId") ?? "", auth);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      return sendJsonRpcError(res, 404, -32001, "Session not found");
+    }
+    session.lastSeen = Date.now();
+    await session.transport.handlePostMessage(Object.assign(req, { auth }), res);
+  };
+
+  const handler = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    const auth = authenticate(req, config);
+
+    if (url.pathname === "/health" && req.method === "GET") {
+      return sendJson(res, 200, typeof auth === "string" ? { status: "ok" } : healthReport(hosts, sessions));
+    }
+
+    if (typeof auth === "string") {
+      logger.warn(`Rejected ${req.method} ${url.pathname} from ${req.socket.remoteAddress}: ${auth}`);
+      return sendJsonRpcError(res, 401, -32001, `Unauthorized: ${auth}`, { "WWW-Authenticate": 'Bearer realm="mcp-ssh-sre"' });
+    }
+
+    if (url.pathname === "/mcp") return handleMcp(req, res, auth);
+    if (url.pathname === "/sse" && req.method === "GET") return handleSse(res, auth);
+    if (url.pathname === "/messages" && req.method === "POST") return handleMessages(req, res, url, auth);
+    return sendJsonRpcError(res, 404, -32601, `Not found: ${req.method} ${url.pathname}`);
+  };
+
+  const listener = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    handler(req, res).catch((error) => {
+      logger.error(`HTTP ${req.method} ${req.url} failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (!res.headersSent) sendJsonRpcError(res, 500, -32603, "Internal server error");
+      else res.end();
+    });
+  };
+
+  const httpServer = config.tls
+    ? https.createServer(
+        { cert: config.tls.cert, key: config.tls.key, ca: config.tls.ca, requestCert: !!config.tls.ca, rejectUnauthorized: !!config.tls.ca },
+        listener
+      )
+    : http.createServer(listener);
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - config.sessionIdleMs;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        logger.info(`Closing idle MCP session ${id}`);
+        void session.server.close();
+      }
+    }
+  }, SESSION_SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.port, config.bindAddress, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === "object" && address ? address.port : config.port;
+  const scheme = config.tls ? "https" : "http";
+  const authModes = [config.authToken && "bearer token", config.tls?.ca && "client certificate"].filter(Boolean);
+  logger.info(`MCP HTTP transport listening on ${scheme}://${config.bindAddress}:${port}/mcp (legacy SSE: /sse)`);
+  if (authModes.length === 0) {
+    logger.warn("MCP HTTP transport is running WITHOUT authentication (MCP_ALLOW_UNAUTHENTICATED=true)");
+  } else {
+    logger.info(`MCP HTTP authentication: ${authModes.join(" + ")}`);
+  }
+
+  return {
+    port,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all(Array.from(sessions.values()).map((session) => session.server.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import type { SSHExecutor } from "./platforms/types.js";
+import { sh } from "./shell.js";
+
+/**
+ * Image registry lookups, run from the remote host with curl
+ *
+ * Uses the registry v2 API: a HEAD request for the tag's manifest returns its
+ * digest in `Docker-Content-Digest`. That is the digest `docker pull` records
+ * in an image's RepoDigests, so the two can be compared directly. Registries
+ * that require a token (Docker Hub, ghcr.io, ...) get an anonymous pull token
+ * from the realm named in their `WWW-Authenticate` challenge.
+ */
+
+export interface ImageReference {
+  registry: string;
+  repository: string;
+  tag?: string;
+  digest?: string;
+}
+
+const DOCKER_HUB = "registry-1.docker.io";
+
+/** Manifest types to accept, multi-platform indexes first (what `docker pull` records) */
+const MANIFEST_TYPES = [
+  "application/vnd.oci.image.index.v1+json",
+  "application/vnd.docker.distribution.manifest.list.v2+json",
+  "application/vnd.docker.distribution.manifest.v2+json",
+  "application/vnd.oci.image.manifest.v1+json",
+].join(", ");
+
+const REPOSITORY = /^[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*(?:\/[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*)*$/;
+const TAG = /^\w[\w.-]{0,127}$/;
+const REGISTRY = /^[A-Za-z0-9.-]+(?::\d+)?$/;
+
+/**
+ * Split an image reference the way docker does
+ *
+ * `nginx` is `registry-1.docker.io/library/nginx:latest`; the first path
+ * component is a registry only if it contains `.` or `:` or is `localhost`.
+ *
+ * @throws Error if the reference isn't valid
+ */
+export function parseImageReference(reference: string): ImageReference {
+  let rest = reference;
+  let digest: string | undefined;
+  const at = rest.indexOf("@");
+  if (at >= 0) {
+    digest = rest.substring(at + 1);
+    rest = rest.substring(0, at);
+  }
+  let tag: string | undefined;
+  const colon = rest.lastIndexOf(":");
+  if (colon > rest.lastIndexOf("/")) {
+    tag = rest.substring(colon + 1);
+    rest = rest.substring(0, colon);
+  }
+
+  let registry = DOCKER_HUB;
+  let repository = rest;
+  const first = rest.split("/")[0];
+  if (rest.includes("/") && (first.includes(".") || first.includes(":") || first === "localhost")) {
+    registry = first === "docker.io" || first === "index.docker.io" ? DOCKER_HUB : first;
+    repository = rest.substring(first.length + 1);
+  }
+  if (registry === DOCKER_HUB && !repository.includes("/")) repository = `library/${repository}`;
+
+  if (!REGISTRY.test(registry) || !REPOSITORY.test(repository) || (tag !== undefined && !TAG.test(tag))) {
+    throw new Error(`Invalid image reference "${reference}"`);
+  }
+  return { registry, repository, tag: tag ?? (digest ? undefined : "latest"), ...(digest ? { digest } : {}) };
+}
+
+/**
+ * Whether to talk plain HTTP to a registry: localhost and 127.0.0.0/8 (as docker
+ * does by default) plus the configured insecure registries
+ */
+export function isInsecureRegistry(registry: string, insecureRegistries: readonly string[] = []): boolean {
+  const host = registry.replace(/:\d+$/, "");
+  return host === "localhost" || /^127\.\d+\.\d+\.\d+$/.test(host) || insecureRegistries.includes(registry);
+}
+
+/**
+ * Parse `curl -I` output into the final response's status and (lower-cased) headers
+ */
+function parseHeaders(output: string): { status: number; headers: Map<string, string> } {
+  let status = 0;
+  let headers = new Map<string, string>();
+  for (const line of output.split(/\r?\n/)) {
+    const statusLine = /^HTTP\/\S+\s+(\d{3})/.exec(line);
+    if (statusLine) {
+      status = Number(statusLine[1]);
+      headers = new Map();
+      continue;
+    }
+    const separator = line.indexOf(":");
+    if (separator > 0) headers.set(line.substring(0, separator).trim().toLowerCase(), line.substring(separator + 1).trim());
+  }
+  return { status, headers };
+}
+
+/**
+ * Token endpoint URL from a `WWW-Authenticate: Bearer realm="...",service="...",scope="..."` challenge
+ */
+function tokenUrl(challenge: string): string | undefined {
+  if (!/^Bearer\s/i.test(challenge)) return undefined;
+  const params = new Map<string, string>();
+  for (const match of challenge.matchAll(/(\w+)="([^"]*)"/g)) params.set(match[1], match[2]);
+  const realm = params.get("realm");
+  if (!realm || !/^https?:\/\//.test(realm)) return undefined;
+  const query = new URLSearchParams();
+  for (const key of ["service", "scope"]) {
+    const value = params.get(key);
+    if (value) query.set(key, value);
+  }
+  return `${realm}${realm.includes("?") ? "&" : "?"}${query}`;
+}
+
+/**
+ * Digest the registry currently serves for an image's tag
+ * @throws Error if the registry can't be reached or doesn't have the tag
+ */
+export async function fetchRemoteDigest(
+  executor: SSHExecutor,
+  reference: ImageReference,
+  insecureRegistries: readonly string[] = []
+): Promise<string> {
+  if (!reference.tag) throw new Error("Image is pinned by digest");
+  const scheme = isInsecureRegistry(reference.registry, insecureRegistries) ? "http" : "https";
+  const url = `${scheme}://${reference.registry}/v2/${reference.repository}/manifests/${reference.tag}`;
+
+  let response = parseHeaders(await executor(sh`curl -sSI --max-time 20 -H ${`Accept: ${MANIFEST_TYPES}`} ${url}`));
+  const challenge = response.headers.get("www-authenticate");
+  if (response.status === 401 && challenge) {
+    const token = tokenUrl(challenge);
+    if (!token) throw new Error(`Unsupported registry authentication: ${challenge}`);
+    // Fetch and use the token in one command so it never appears in a command line
+    response = parseHeaders(await executor(
+      sh`token=$(curl -sS --max-time 20 ${token} | sed -n ${'s/.*"token" *: *"\\([^"]*\\)".*/\\1/p'}) && curl -sSI --max-time 20 -H ${`Accept: ${MANIFEST_TYPES}`} -H "Authorization: Bearer $token" ${url}`
+    ));
+  }
+
+  const digest = response.headers.get("docker-content-digest");
+  if (response.status === 200 && digest) return digest;
+  if (response.status === 404) throw new Error(`Tag "${reference.tag}" not found in ${reference.registry}`);
+  if (response.status === 401) throw new Error(`Registry ${reference.registry} requires credentials`);
+  throw new Error(`Registry ${reference.registry} returned ${response.status || "no response"}${response.status === 200 ? " without a digest" : ""}`);
+}
@@ -1,9 +1,19 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { SSHConnectionManager } from "./ssh-manager.js";
-import { initializePlatforms, platformRegistry, Platform } from "./platforms/index.js";
-import { loadTools } from "./tool-loader.js";
+import { initializePlatforms } from "./platforms/index.js";
+import { loadHostInventory } from "./host-inventory.js";
+import { HostRegistry } from "./host-registry.js";
+import { countTools, loadTools } from "./tool-loader.js";
+import { loadToolFilter } from "./tool-filter.js";
+import { loadCommandPolicy } from "./command-policy.js";
+import { loadAuditLog } from "./audit-log.js";
+import { loadRedactor } from "./redaction.js";
+import { isReadOnlyMode } from "./tool-registrar.js";
+import { loadResources } from "./resource-loader.js";
+import { loadPrompts } from "./prompt-loader.js";
 import { logger } from "./logger.js";
+import { httpConfigFromEnv, startHttpServer, HttpServerHandle } from "./http-server.js";
 
 // Re-export for backward compatibility
 export { SSHConnectionManager };
@@ -12,82 +22,87 @@ export { SSHConnectionManager };
  * Main server function
  */
 async function main() {
-  // Initialize SSH connection manager
-  const sshManager = new SSHConnectionManager();
-
-  try {
-    // Establish initial connection
-    logger.info("Connecting to SSH server...");
-    await sshManager.connect();
-    logger.info("SSH connection established");
-  } catch (error) {
-    logger.warn(`Could not establish initial SSH connection: ${error instanceof Error ? error.message : String(error)}`);
-    logger.warn("Server will attempt to connect when first command is executed");
+  // Validate transport settings before connecting to any host
+  const transportMode = process.env.MCP_TRANSPORT ?? "stdio";
+  if (transportMode !== "stdio" && transportMode !== "http") {
+    throw new Error(`MCP_TRANSPORT must be "stdio" or "http" (got "${transportMode}")`);
+  }
+  const httpConfig = transportMode === "http" ? httpConfigFromEnv() : null;
+  const toolFilter = loadToolFilter();
+  const commandPolicy = loadCommandPolicy();
+  const redactor = loadRedactor();
+  if (redactor.allowOptOut) {
+    logger.info("Secret redaction can be turned off per call (REDACT_ALLOW_OPT_OUT)");
+  }
+  const auditLog = loadAuditLog(process.env, redactor);
+  if (auditLog) {
+    logger.info(`Audit log: ${auditLog.file}${auditLog.hashChain ? " (hash chain)" : ""}`);
   }
 
+  // Load host inventory and create one connection manager per host
+  const inventory = loadHostInventory();
+  const hosts = new HostRegistry(inventory, { policy: commandPolicy, auditLog });
+  logger.info(`Host inventory: ${hosts.names().join(", ")} (default: ${hosts.defaultHost})`);
+
+  // Establish initial connections
+  await hosts.connectAll();
+
   // Initialize platform registry
   logger.debug("Initializing platform registry...");
   initializePlatforms();
 
-  // Create SSH executor adapter for tool modules
-  // Converts SSHConnectionManager's full response to simple stdout string
-  const sshExecutor = async (command: string): Promise<string> => {
-    const result = await sshManager.executeCommand(command);
-    if (result.exitCode !== 0 && result.stderr) {
-      const cmdPreview = command.length > 100 ? command.substring(0, 100) + "..." : command;
-      throw new Error(`Command failed (exit ${result.exitCode}): ${cmdPreview}\n${result.stderr}`);
-    }
-    return result.stdout;
-  };
+  // Detect platform of each host
+  logger.debug("Detecting platforms...");
+  await hosts.detectPlatforms();
 
-  // Detect platform
-  logger.debug("Detecting platform...");
-  let detectedPlatform: Platform;
-  try {
-    detectedPlatform = await platformRegistry.detect(sshExecutor);
-    logger.info(`Detected platform: ${detectedPlatform.displayName} (${detectedPlatform.id})`);
-  } catch (error) {
-    logger.warn(`Platform detection failed: ${error instanceof Error ? error.message : String(error)}`);
-    logger.warn("Falling back to generic Linux platform");
-    const fallback = platformRegistry.get("linux");
-    if (!fallback) {
-      throw new Error("Platform detection failed and no fallback platform available");
+  // Create an MCP server with tools, resources and prompts for the detected platforms
+  // (the HTTP transport creates one per client session)
+  let checkedToolFilter = false;
+  const createServer = () => {
+    const server = new McpServer({
+      name: "mcp-ssh-sre",
+      version: "2.1.2",
+      description: "SSH-based server monitoring and management tools with platform auto-detection (Unraid, Linux). Provides Docker, system, network, storage, and hardware monitoring capabilities. Includes file write support with base64 binary upload.",
+    });
+    const tools = countTools(loadTools(server, hosts, toolFilter, redactor));
+    logger.debug(`Registered ${tools.total} tools (${tools.core} core, ${tools.platform} platform) with ${tools.actions} actions`);
+    if (!checkedToolFilter) {
+      checkedToolFilter = true;
+      for (const entry of toolFilter.unmatched()) {
+        logger.warn(`Tool filter entry "${entry}" matches no registered tool or action`);
+      }
     }
-    detectedPlatform = fallback;
-  }
-
-  // Create MCP server
-  logger.debug("Initializing MCP server...");
-  const server = new McpServer({
-    name: "mcp-ssh-sre",
-    version: "2.1.2",
-    description: "SSH-based server monitoring and management tools with platform auto-detection (Unraid, Linux). Provides Docker, system, network, storage, and hardware monitoring capabilities. Includes file write support with base64 binary upload.",
-  });
+    loadResources(server, hosts, redactor);
+    loadPrompts(server, hosts);
+    return server;
+  };
 
-  // Load tools for detected platform
-  logger.debug("Loading tools for platform...");
-  loadTools(server, sshExecutor, detectedPlatform);
-  logger.debug("All MCP tools registered");
+  let httpServer: HttpServerHandle | null = null;
 
   // Handle graceful shutdown
-  process.on("SIGINT", async () => {
-    logger.info("Received SIGINT, shutting down gracefully...");
-    await sshManager.disconnect();
-    process.exit(0);
-  });
-
-  process.on("SIGTERM", async () => {
-    logger.info("Received SIGTERM, shutting down gracefully...");
-    await sshManager.disconnect();
+  const shutdown = async (signal: string) => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    await httpServer?.close();
+    await hosts.disconnectAll();
+    await auditLog?.flush();
     process.exit(0);
-  });
+  };
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
 
-  // Connect to stdio transport
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  if (httpConfig) {
+    httpServer = await startHttpServer(createServer, hosts, httpConfig);
+  } else {
+    logger.debug("Initializing MCP server...");
+    const server = createServer();
+    await server.connect(new StdioServerTransport());
+  }
 
-  logger.info(`MCP SSH SRE Server (stdio) ready`);
-  logger.info(`Platform: ${detectedPlatform.displayName} (${detectedPlatform.id})`);
+  logger.info(`MCP SSH SRE Server (${transportMode}) ready`);
+  if (isReadOnlyMode()) logger.info("READ_ONLY mode: mutating tools and actions are not registered");
+  for (const host of hosts.list()) {
+    logger.info(`[${host.name}] ${host.config.host}: ${host.platform?.displayName ?? "unknown platform"}`);
+  }
 }
 
 // Start the server only if not in test environment
@@ -0,0 +1,111 @@
+import type { SSHConnectionConfig } from "./ssh-manager.js";
+
+/**
+ * A hop as written in ProxyJump syntax: `[user@]host[:port]`
+ */
+export interface JumpHostSpec {
+  host: string;
+  port?: number;
+  username?: string;
+}
+
+/**
+ * A hop in a host inventory: ProxyJump text or an object with its own credentials
+ */
+export type JumpHostInput = string | Partial<Omit<SSHConnectionConfig, "jumpHosts">>;
+
+function parsePort(value: string, hop: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port in jump host "${hop}"`);
+  }
+  return port;
+}
+
+function parseHop(hop: string): JumpHostSpec {
+  let rest = hop.replace(/^ssh:\/\//, "");
+  let username: string | undefined;
+
+  const at = rest.lastIndexOf("@");
+  if (at !== -1) {
+    username = rest.slice(0, at);
+    rest = rest.slice(at + 1);
+  }
+
+  let host = rest;
+  let port: number | undefined;
+  const bracketed = rest.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) {
+    host = bracketed[1];
+    if (bracketed[2]) port = parsePort(bracketed[2], hop);
+  } else if (rest.split(":").length === 2) {
+    const [h, p] = rest.split(":");
+    host = h;
+    port = parsePort(p, hop);
+  }
+
+  if (!host) throw new Error(`Invalid jump host "${hop}"`);
+  return { host, port, username: username || undefined };
+}
+
+/**
+ * Parse an OpenSSH ProxyJump value, e.g. `admin@bastion:2222,jump2`
+ * `none` disables jumping and yields an empty list.
+ */
+export function parseProxyJump(value: string): JumpHostSpec[] {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === "none") return [];
+  return trimmed.split(",").map((hop) => parseHop(hop.trim()));
+}
+
+/**
+ * Turn configured hops into full connection configs, in dial order
+ *
+ * Hops inherit the target's username, key, passphrase, agent and host key
+ * policy unless they set their own. The target's password and pinned
+ * fingerprint are never inherited: they belong to the target host only, and a
+ * bastion shouldn't be handed the NAS credential.
+ *
+ * @throws Error if a hop has no host, an invalid port or no credentials
+ */
+export function resolveJumpHosts(hops: JumpHostInput[], target: SSHConnectionConfig): SSHConnectionConfig[] {
+  const specs = hops.flatMap((hop): Array<Partial<SSHConnectionConfig>> =>
+    typeof hop === "string" ? parseProxyJump(hop) : [hop]
+  );
+
+  return specs.map((hop, index) => {
+    if (!hop.host) throw new Error(`Jump host ${index + 1} is missing "host"`);
+    const port = hop.port ?? 22;
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Jump host ${hop.host} has invalid port ${hop.port}`);
+    }
+
+    const privateKeyPath = hop.privateKeyPath ?? target.privateKeyPath;
+    const agent = hop.agent ?? target.agent;
+    if (!privateKeyPath && !agent && !hop.password) {
+      throw new Error(
+        `Jump host ${hop.host} has no credentials: give it a password of its own (the target's password is not sent to jump hosts), a private key or an agent`
+      );
+    }
+
+    return {
+      host: hop.host,
+      port,
+      username: hop.username ?? target.username,
+      privateKeyPath,
+      passphrase: hop.passphrase ?? target.passphrase,
+      agent,
+      password: hop.password,
+      knownHostsFile: hop.knownHostsFile ?? target.knownHostsFile,
+      hostFingerprint: hop.hostFingerprint,
+      hostKeyChecking: hop.hostKeyChecking ?? target.hostKeyChecking,
+    };
+  });
+}
+
+/**
+ * Human-readable route, e.g. `admin@bastion:22 -> root@tower:22`
+ */
+export function describeRoute(config: SSHConnectionConfig): string {
+  return [...(config.jumpHosts ?? []), config].map((hop) => `${hop.username}@${hop.host}:${hop.port}`).join(" -> ");
+}
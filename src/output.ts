@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { getCallContext } from "./call-context.js";
+import { OutputFilters, applyFiltersToText } from "./filters.js";
+
+/** Values of the `outputFormat` argument every tool accepts */
+export const OUTPUT_FORMATS = ["text", "json", "markdown"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type ToolResult = {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+/** Structured result of actions that only produce text */
+export const textOutputSchema = z.object({
+  output: z.string().describe("The action's text output"),
+});
+
+/**
+ * Return a typed action result
+ *
+ * The data becomes the call's `structuredContent`; `render` turns it into the
+ * text or markdown shown in `content`, depending on the requested outputFormat.
+ */
+export function structuredResult<T extends Record<string, unknown>>(
+  data: T,
+  render: (data: T, format: "text" | "markdown") => string
+): ToolResult {
+  const format = getCallContext()?.outputFormat === "markdown" ? "markdown" : "text";
+  return { content: [{ type: "text", text: render(data, format) }], structuredContent: data };
+}
+
+/**
+ * Render rows as a markdown table
+ *
+ * The output filters (grep, head, sort, ...) apply to the rows as they do to
+ * the text rendering's lines; the header row is always kept, and with `wc`
+ * only the count is returned.
+ */
+export function markdownTable(columns: string[], rows: string[][], filters: OutputFilters = {}): string {
+  const body = applyFiltersToText(rows.map((cells) => `| ${cells.join(" | ")} |`).join("\n"), filters);
+  if (filters.wc) return body;
+  return `| ${columns.join(" | ")} |\n|${columns.map(() => "---").join("|")}|\n${body}`;
+}
+
+/**
+ * Build a tool's MCP outputSchema from the result schemas its actions declare
+ *
+ * Every call returns `{ host, action, data }`; `data` is one of the declared
+ * action results, or `{ output }` for actions that only produce text. Tools
+ * that span every host (`perHost: false`) leave out `host`.
+ */
+export function toolOutputSchema(actionSchemas: Record<string, z.ZodTypeAny>, perHost = true) {
+  const results = Object.entries(actionSchemas).map(([action, schema]) => schema.describe(`Result of action "${action}"`));
+  const [first, ...rest] = results;
+  const data = first ? z.union([textOutputSchema, first, ...rest]) : textOutputSchema;
+  return z.object({
+    ...(perHost ? { host: z.string().describe("Host the call ran on") } : {}),
+    action: z.string().optional(),
+    data,
+  });
+}
+
+/**
+ * Wrap a handler's result in the structured envelope and render it in the requested format
+ *
+ * - text: the handler's own content
+ * - json: the envelope itself, pretty-printed
+ * - markdown: the action's markdown rendering, or its text in a code block
+ *
+ * Error results are returned unchanged.
+ */
+export function formatToolResult(
+  result: ToolResult,
+  envelope: { host?: string; action?: string },
+  format: OutputFormat = "text"
+): ToolResult {
+  if (result.isError) return result;
+
+  const text = result.content.map((item) => item.text).join("\n");
+  const structuredContent = {
+    ...(envelope.host !== undefined ? { host: envelope.host } : {}),
+    ...(envelope.action !== undefined ? { action: envelope.action } : {}),
+    data: result.structuredContent ?? { output: text },
+  };
+
+  if (format === "json") {
+    return { content: [{ type: "text", text: JSON.stringify(structuredContent, null, 2) }], structuredContent };
+  }
+  if (format === "markdown" && !result.structuredContent) {
+    return { content: [{ type: "text", text: "```\n" + text + "\n```" }], structuredContent };
+  }
+  return { ...result, structuredContent };
+}
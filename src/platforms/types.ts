@@ -47,6 +47,27 @@ export interface PlatformToolModule {
   priority?: number;
 }
 
+/**
+ * Read-only host data served as an MCP resource at `ssh-sre://{host}/{path}`
+ */
+export interface ResourceDefinition {
+  /** Registration name, unique across all resources */
+  name: string;
+  /** Path after the host; `{variable}` segments make it a template, e.g. "containers/{name}/inspect" */
+  path: string;
+  /**
+   * Validator for each `{variable}` in the path, from shell.ts (e.g. `containerName`);
+   * it throws on values that are not a valid name of that kind
+   */
+  variables?: Record<string, (value: string) => string>;
+  description: string;
+  mimeType: string;
+  /** Read the resource; variables come from the URI and are already validated */
+  read: (executor: SSHExecutor, variables: Record<string, string>) => Promise<string>;
+  /** Enumerate the variable values of a templated path on a host, for resources/list */
+  list?: (executor: SSHExecutor) => Promise<Array<Record<string, string>>>;
+}
+
 /**
  * Platform definition interface
  */
@@ -75,4 +96,9 @@ export interface Platform {
    * @returns Array of tool modules
    */
   getToolModules(): PlatformToolModule[];
+
+  /**
+   * Get platform-specific resources (optional)
+   */
+  getResources?(): ResourceDefinition[];
 }
@@ -2,6 +2,11 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
 import { SSHExecutor } from "../types.js";
+import { runBatch } from "../../batch.js";
+import { defineActions } from "../../tool-metadata.js";
+import { markdownTable, structuredResult } from "../../output.js";
+import { deviceName, sh, shareName } from "../../shell.js";
+import { parseLs } from "../../tools/core/system-tools.js";
 
 const unraidActions = [
   "array_status", "smart", "temps", "shares", "share_usage",
@@ -9,10 +14,116 @@ const unraidActions = [
   "unclean_check", "mover_status", "mover_log", "cache_usage", "split_level"
 ] as const;
 
+const resyncOutput = z.object({
+  running: z.boolean(),
+  action: z.string().optional(),
+  progressPercent: z.number().optional(),
+});
+
+const arrayStatusOutput = z.object({
+  state: z.string().optional(),
+  disks: z.object({
+    total: z.number().optional(),
+    disabled: z.number().optional(),
+    invalid: z.number().optional(),
+    missing: z.number().optional(),
+  }),
+  resync: resyncOutput,
+  fields: z.record(z.string()).describe("Every key=value pair mdcmd reported"),
+});
+
+const shareListOutput = z.object({
+  shares: z.array(z.object({
+    name: z.string(),
+    owner: z.string().optional(),
+    group: z.string().optional(),
+    permissions: z.string().optional(),
+    modified: z.string().optional(),
+  })),
+});
+
+const parityStatusOutput = z.object({
+  state: z.string().optional(),
+  resync: resyncOutput.optional().describe("Unset if /proc/mdcmd could not be read"),
+  recentLog: z.array(z.string()),
+});
+
+const syncStatusOutput = z.object({
+  resync: resyncOutput,
+  fields: z.record(z.string()),
+  mdstat: z.string().optional(),
+});
+
+const spinStatusOutput = z.object({
+  drives: z.array(z.object({
+    drive: z.string(),
+    state: z.string().describe('hdparm state (e.g. "active/idle", "standby"), "active" for NVMe, or "unknown"'),
+  })),
+});
+
+const moverStatusOutput = z.object({
+  running: z.boolean().optional().describe("Unset if the process list could not be read"),
+  processes: z.array(z.string()),
+  recentActivity: z.array(z.string()),
+});
+
+type Resync = z.infer<typeof resyncOutput>;
+
+/**
+ * Parse `/proc/mdcmd` (or `mdcmd status`) key=value lines
+ */
+function parseMdcmd(output: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of output.split("\n")) {
+    const i = line.indexOf("=");
+    if (i > 0) fields[line.substring(0, i).trim()] = line.substring(i + 1).trim();
+  }
+  return fields;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/** Parity check / rebuild progress from mdcmd fields; `mdResync=0` means none is running */
+function resyncStatus(fields: Record<string, string>): Resync {
+  if (fields.mdResync === undefined || fields.mdResync === "0") return { running: false };
+  const pos = optionalNumber(fields.mdResyncPos);
+  const size = optionalNumber(fields.mdResyncSize);
+  return {
+    running: true,
+    ...(fields.mdResyncAction ? { action: fields.mdResyncAction } : {}),
+    ...(pos !== undefined && size ? { progressPercent: Math.round((pos / size) * 10000) / 100 } : {}),
+  };
+}
+
+function describeResync(resync: Resync): string {
+  if (!resync.running) return "Not running";
+  const progress = resync.progressPercent !== undefined ? `, ${resync.progressPercent.toFixed(2)}%` : "";
+  return `In progress (${resync.action || "Parity Check"}${progress})`;
+}
+
+function nonEmptyLines(output: string): string[] {
+  return output.split("\n").filter(line => line.trim());
+}
+
 export function registerUnraidArrayTools(
   server: McpServer,
   sshExecutor: SSHExecutor
 ): void {
+  defineActions("unraid", {
+    array_status: { output: arrayStatusOutput },
+    shares: { output: shareListOutput },
+    parity_status: { output: parityStatusOutput },
+    sync_status: { output: syncStatusOutput },
+    spin_status: { output: spinStatusOutput },
+    mover_status: { output: moverStatusOutput },
+    smart: { timeoutMs: 60000 },
+    share_usage: { timeoutMs: 300000 },
+    cache_usage: { timeoutMs: 300000 },
+  });
+
   server.tool(
     "unraid",
     "Unraid array/storage ops. Actions: array_status (state), smart (drive diag), temps (all temps), shares (list), share_usage (disk usage), parity_status/parity_history (parity info), sync_status (rebuild), spin_status (spin state), unclean_check (shutdown), mover_status/mover_log (mover), cache_usage, split_level (share cfg).",
@@ -30,22 +141,42 @@ export function registerUnraidArrayTools(
           case "array_status": {
             let output: string;
             try {
-              let cmd = applyFilters("cat /proc/mdcmd", args);
-              output = await sshExecutor(cmd);
+              output = await sshExecutor("cat /proc/mdcmd");
             } catch {
-              let cmd = applyFilters("mdcmd status", args);
-              output = await sshExecutor(cmd);
+              output = await sshExecutor("mdcmd status");
             }
-            return { content: [{ type: "text", text: `Array Status:\n\n${output}` }] };
+            const fields = parseMdcmd(output);
+            const status = {
+              ...(fields.mdState ? { state: fields.mdState } : {}),
+              disks: {
+                total: optionalNumber(fields.mdNumDisks),
+                disabled: optionalNumber(fields.mdNumDisabled),
+                invalid: optionalNumber(fields.mdNumInvalid),
+                missing: optionalNumber(fields.mdNumMissing),
+              },
+              resync: resyncStatus(fields),
+              fields,
+            };
+            return structuredResult(status, (data, format) => {
+              const { total, disabled, invalid, missing } = data.disks;
+              const summary = [
+                `State: ${data.state ?? "Unknown"}`,
+                `Disks: ${total ?? "?"} (disabled ${disabled ?? "?"}, invalid ${invalid ?? "?"}, missing ${missing ?? "?"})`,
+                `Resync: ${describeResync(data.resync)}`,
+              ];
+              if (format === "markdown") return applyFiltersToText(summary.map(line => `- ${line}`).join("\n"), args);
+              const raw = Object.entries(data.fields).map(([key, value]) => `${key}=${value}`).join("\n");
+              return `Array Status:\n\n${summary.join("\n")}\n\n${applyFiltersToText(raw, args)}`;
+            });
           }
 
           case "smart": {
             if (!args.device) return { content: [{ type: "text", text: "Error: device required" }], isError: true };
             const isNvme = args.device.startsWith("nvme");
-            const devicePath = `/dev/${args.device}`;
+            const devicePath = `/dev/${deviceName(args.device)}`;
             let cmd = isNvme
-              ? `smartctl -a -d nvme ${devicePath}`
-              : `smartctl -a -d ata ${devicePath} || smartctl -a ${devicePath}`;
+              ? sh`smartctl -a -d nvme ${devicePath}`
+              : sh`smartctl -a -d ata ${devicePath} || smartctl -a ${devicePath}`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `SMART - ${args.device}:\n\n${output}` }] };
@@ -63,33 +194,43 @@ export function registerUnraidArrayTools(
               const deviceList = devices.trim().split("\n").filter(d => d.trim());
               if (deviceList.length > 0) {
                 output += "=== Drive Temps ===\n\n";
-                for (const devicePath of deviceList) {
-                  const deviceName = devicePath.replace("/dev/", "");
-                  try {
-                    const isNvme = deviceName.startsWith("nvme");
-                    const smartCmd = isNvme
-                      ? `smartctl -A -d nvme ${devicePath} | grep -i temperature || smartctl -A ${devicePath} | grep -i temperature`
-                      : `smartctl -A -d ata ${devicePath} | grep -i temperature || smartctl -A ${devicePath} | grep -i temperature`;
-                    const temp = await sshExecutor(smartCmd);
-                    output += `${deviceName}:\n${temp}\n\n`;
-                  } catch { output += `${deviceName}: Unable to read\n\n`; }
-                }
+                const temps = await runBatch(sshExecutor, deviceList.map(devicePath => {
+                  const isNvme = devicePath.replace("/dev/", "").startsWith("nvme");
+                  return isNvme
+                    ? sh`smartctl -A -d nvme ${devicePath} | grep -i temperature || smartctl -A ${devicePath} | grep -i temperature`
+                    : sh`smartctl -A -d ata ${devicePath} | grep -i temperature || smartctl -A ${devicePath} | grep -i temperature`;
+                }));
+                temps.forEach((temp, i) => {
+                  const drive = deviceList[i].replace("/dev/", "");
+                  output += temp.ok ? `${drive}:\n${temp.output}\n\n` : `${drive}: Unable to read\n\n`;
+                });
               }
             } catch { output += "Could not get drive temps\n"; }
             return { content: [{ type: "text", text: applyFiltersToText(output, args) }] };
           }
 
           case "shares": {
-            let cmd = applyFilters("ls -la /mnt/user/", args);
-            const output = await sshExecutor(cmd);
-            return { content: [{ type: "text", text: `Shares:\n\n${output}` }] };
+            const output = await sshExecutor("ls -la /mnt/user/");
+            const shares = parseLs(output, true)
+              .filter(f => f.permissions?.startsWith("d") && f.name !== "." && f.name !== "..")
+              .map(({ name, owner, group, permissions, modified }) => ({ name, owner, group, permissions, modified }));
+            return structuredResult({ shares }, (data, format) => {
+              if (data.shares.length === 0) return "Shares:\n\nNo shares.";
+              if (format === "markdown") {
+                return markdownTable(["Share", "Owner", "Permissions", "Modified"],
+                  data.shares.map(s => [s.name, `${s.owner}:${s.group}`, s.permissions ?? "", s.modified ?? ""]), args);
+              }
+              const formatted = data.shares.map(s => `${s.name} (${s.owner}:${s.group} ${s.permissions}, modified ${s.modified})`).join("\n");
+              return `Shares:\n\n${applyFiltersToText(formatted, args)}`;
+            });
           }
 
           case "share_usage": {
             let cmd: string, title: string;
             if (args.share) {
-              await sshExecutor(`test -d /mnt/user/${args.share}`);
-              cmd = `du -sh /mnt/user/${args.share}`;
+              const sharePath = `/mnt/user/${shareName(args.share)}`;
+              await sshExecutor(sh`test -d ${sharePath}`);
+              cmd = sh`du -sh ${sharePath}`;
               title = `Share Usage - ${args.share}`;
             } else {
               cmd = "du -sh /mnt/user/*";
@@ -101,37 +242,32 @@ export function registerUnraidArrayTools(
           }
 
           case "parity_status": {
-            let output = "=== Parity Status ===\n\n";
+            let status: z.infer<typeof parityStatusOutput> = { recentLog: [] };
             try {
-              const mdcmd = await sshExecutor("cat /proc/mdcmd");
-              const lines = mdcmd.split("\n");
-              const mdState = lines.find(l => l.startsWith("mdState="))?.split("=")[1];
-              const mdResync = lines.find(l => l.startsWith("mdResync="))?.split("=")[1];
-              const mdResyncPos = lines.find(l => l.startsWith("mdResyncPos="))?.split("=")[1];
-              const mdResyncSize = lines.find(l => l.startsWith("mdResyncSize="))?.split("=")[1];
-              const mdResyncAction = lines.find(l => l.startsWith("mdResyncAction="))?.split("=")[1];
-              output += `State: ${mdState || "Unknown"}\n`;
-              output += `Resync: ${mdResync === "0" ? "Not running" : "In progress"}\n`;
-              if (mdResync !== "0" && mdResyncPos && mdResyncSize) {
-                const pos = parseInt(mdResyncPos), size = parseInt(mdResyncSize);
-                if (size > 0) {
-                  output += `Action: ${mdResyncAction || "Parity Check"}\n`;
-                  output += `Progress: ${((pos / size) * 100).toFixed(2)}%\n`;
-                }
-              }
-            } catch { output += "Could not read /proc/mdcmd\n"; }
+              const fields = parseMdcmd(await sshExecutor("cat /proc/mdcmd"));
+              status = { ...(fields.mdState ? { state: fields.mdState } : {}), resync: resyncStatus(fields), recentLog: [] };
+            } catch {}
             try {
-              const syslog = await sshExecutor("grep -i 'parity' /var/log/syslog | tail -n 20 || echo 'No entries'");
-              output += "\n=== Recent Parity Logs ===\n\n" + syslog;
+              status.recentLog = nonEmptyLines(await sshExecutor("grep -i 'parity' /var/log/syslog | tail -n 20 || true"));
             } catch {}
-            return { content: [{ type: "text", text: applyFiltersToText(output, args) }] };
+            return structuredResult(status, (data) => {
+              let output = "=== Parity Status ===\n\n";
+              if (data.resync) {
+                output += `State: ${data.state || "Unknown"}\n`;
+                output += `Resync: ${describeResync(data.resync)}\n`;
+              } else {
+                output += "Could not read /proc/mdcmd\n";
+              }
+              output += "\n=== Recent Parity Logs ===\n\n" + (data.recentLog.join("\n") || "No entries");
+              return applyFiltersToText(output, args);
+            });
           }
 
           case "parity_history": {
             const limit = args.limit ?? 5;
             let output = `=== Parity History (Last ${limit}) ===\n\n`;
             try {
-              let cmd = applyFilters(`(cat /var/log/syslog; zcat /var/log/syslog.*.gz 2>/dev/null) | grep -i 'parity.*\\(finish\\|complete\\|done\\|error\\)' | tail -n ${limit * 3}`, args);
+              let cmd = applyFilters(sh`(cat /var/log/syslog; zcat /var/log/syslog.*.gz 2>/dev/null) | grep -i 'parity.*\\(finish\\|complete\\|done\\|error\\)' | tail -n ${limit * 3}`, args);
               const logs = await sshExecutor(cmd);
               output += logs.trim() ? logs : "No history found.\n";
             } catch { output += "Could not retrieve history.\n"; }
@@ -139,46 +275,45 @@ export function registerUnraidArrayTools(
           }
 
           case "sync_status": {
-            let output = "=== Sync/Rebuild Status ===\n\n";
-            let cmd = applyFilters("cat /proc/mdcmd | grep -E '(mdState|mdResyncPos|mdResync|mdResyncAction|mdResyncSize)'", args);
-            const mdcmd = await sshExecutor(cmd);
-            output += mdcmd.trim() ? `${mdcmd}\n\n` : "No sync info.\n\n";
-            const mdResync = mdcmd.split("\n").find(l => l.startsWith("mdResync="))?.split("=")[1];
-            output += mdResync === "0" ? "No sync in progress.\n" : "Sync in progress!\n";
+            const fields = parseMdcmd(await sshExecutor("cat /proc/mdcmd | grep -E '(mdState|mdResyncPos|mdResync|mdResyncAction|mdResyncSize)'"));
+            let mdstat: string | undefined;
             try {
-              const mdstat = await sshExecutor("cat /proc/mdstat");
-              output += "\n=== MD Status ===\n\n" + mdstat;
+              mdstat = await sshExecutor("cat /proc/mdstat");
             } catch {}
-            return { content: [{ type: "text", text: output }] };
+            return structuredResult({ resync: resyncStatus(fields), fields, ...(mdstat !== undefined ? { mdstat } : {}) }, (data) => {
+              let output = "=== Sync/Rebuild Status ===\n\n";
+              const raw = Object.entries(data.fields).map(([key, value]) => `${key}=${value}`).join("\n");
+              output += raw ? `${raw}\n\n` : "No sync info.\n\n";
+              output += data.resync.running ? `Sync in progress! ${describeResync(data.resync)}\n` : "No sync in progress.\n";
+              if (data.mdstat !== undefined) output += "\n=== MD Status ===\n\n" + data.mdstat;
+              return applyFiltersToText(output, args);
+            });
           }
 
           case "spin_status": {
-            let output = "=== Spin Status ===\n\n";
+            const drives: z.infer<typeof spinStatusOutput>["drives"] = [];
             const devices = await sshExecutor("ls -1 /dev/sd? 2>/dev/null || echo ''");
             const deviceList = devices.trim().split("\n").filter(d => d.trim() && d.startsWith("/dev/"));
-            if (deviceList.length === 0) { output += "No SATA drives.\n"; }
-            else {
-              for (const device of deviceList) {
-                const deviceName = device.replace("/dev/", "");
-                try {
-                  const status = await sshExecutor(`hdparm -C ${device} 2>/dev/null`);
-                  const statusLine = status.split("\n").find(l => l.includes("drive state"));
-                  output += `${deviceName}: ${statusLine ? statusLine.trim() : status.trim()}\n`;
-                } catch { output += `${deviceName}: Unable to check\n`; }
-              }
-            }
+            const states = await runBatch(sshExecutor, deviceList.map(device => sh`hdparm -C ${device} 2>/dev/null`));
+            states.forEach((state, i) => {
+              const drive = deviceList[i].replace("/dev/", "");
+              // hdparm prints " drive state is:  active/idle"
+              const match = state.ok ? /drive state is:\s*(.+)/.exec(state.output) : null;
+              drives.push({ drive, state: match ? match[1].trim() : "unknown" });
+            });
             try {
               const nvme = await sshExecutor("ls -1 /dev/nvme?n? 2>/dev/null || echo ''");
-              const nvmeList = nvme.trim().split("\n").filter(d => d.trim() && d.startsWith("/dev/"));
-              if (nvmeList.length > 0) {
-                output += "\n=== NVMe Power ===\n\n";
-                for (const device of nvmeList) {
-                  const deviceName = device.replace("/dev/", "");
-                  output += `${deviceName}: Active\n`;
-                }
+              for (const device of nvme.trim().split("\n").filter(d => d.trim() && d.startsWith("/dev/"))) {
+                drives.push({ drive: device.replace("/dev/", ""), state: "active" });
               }
             } catch {}
-            return { content: [{ type: "text", text: applyFiltersToText(output, args) }] };
+            return structuredResult({ drives }, (data, format) => {
+              if (data.drives.length === 0) return "No drives.";
+              if (format === "markdown") {
+                return markdownTable(["Drive", "State"], data.drives.map(d => [d.drive, d.state]), args);
+              }
+              return applyFiltersToText(`=== Spin Status ===\n\n${data.drives.map(d => `${d.drive}: ${d.state}`).join("\n")}`, args);
+            });
           }
 
           case "unclean_check": {
@@ -194,21 +329,26 @@ export function registerUnraidArrayTools(
           }
 
           case "mover_status": {
-            let output = "=== Mover Status ===\n\n";
+            const status: z.infer<typeof moverStatusOutput> = { processes: [], recentActivity: [] };
             try {
-              const proc = await sshExecutor("ps aux | grep -v grep | grep mover || echo ''");
-              output += proc.trim() ? `Status: RUNNING\n\n${proc}\n` : "Status: Not running\n\n";
-            } catch { output += "Could not check process\n\n"; }
+              status.processes = nonEmptyLines(await sshExecutor("ps aux | grep -v grep | grep mover || echo ''"));
+              status.running = status.processes.length > 0;
+            } catch {}
             try {
-              const logs = await sshExecutor("grep -i 'mover' /var/log/syslog | tail -n 10 || echo 'No activity'");
-              output += "=== Recent Activity ===\n\n" + logs;
+              status.recentActivity = nonEmptyLines(await sshExecutor("grep -i 'mover' /var/log/syslog | tail -n 10 || true"));
             } catch {}
-            return { content: [{ type: "text", text: applyFiltersToText(output, args) }] };
+            return structuredResult(status, (data) => {
+              let output = "=== Mover Status ===\n\n";
+              if (data.running === undefined) output += "Could not check process\n\n";
+              else output += data.running ? `Status: RUNNING\n\n${data.processes.join("\n")}\n\n` : "Status: Not running\n\n";
+              output += "=== Recent Activity ===\n\n" + (data.recentActivity.join("\n") || "No activity");
+              return applyFiltersToText(output, args);
+            });
           }
 
           case "mover_log": {
             const lines = args.lines ?? 100;
-            let cmd = applyFilters(`grep -i 'mover' /var/log/syslog | tail -n ${lines}`, args);
+            let cmd = applyFilters(sh`grep -i 'mover' /var/log/syslog | tail -n ${lines}`, args);
             const logs = await sshExecutor(cmd);
             const output = logs.trim() ? logs : "No mover log entries.\n";
             return { content: [{ type: "text", text: `Mover Log (${lines} lines):\n\n${output}` }] };
@@ -229,9 +369,10 @@ export function registerUnraidArrayTools(
           case "split_level": {
             let output = "";
             if (args.share) {
+              const cfgPath = `/boot/config/shares/${shareName(args.share)}.cfg`;
               output = `=== Split Level - ${args.share} ===\n\n`;
               try {
-                const cfg = await sshExecutor(`cat /boot/config/shares/${args.share}.cfg 2>/dev/null || echo 'Not found'`);
+                const cfg = await sshExecutor(sh`cat ${cfgPath} 2>/dev/null || echo 'Not found'`);
                 output += cfg + "\n";
               } catch { output += "Could not read config\n"; }
             } else {
@@ -239,16 +380,17 @@ export function registerUnraidArrayTools(
               try {
                 const cfgs = await sshExecutor("ls -1 /boot/config/shares/*.cfg 2>/dev/null || echo 'No configs'");
                 const files = cfgs.trim().split("\n").filter(f => f.endsWith(".cfg"));
-                for (const file of files) {
+                const cfgResults = await runBatch(sshExecutor, files.map(file => sh`cat ${file}`));
+                files.forEach((file, i) => {
                   const name = file.split("/").pop()?.replace(".cfg", "") || "unknown";
                   output += `--- ${name} ---\n`;
-                  try {
-                    const cfg = await sshExecutor(`cat "${file}"`);
-                    const splitLevel = cfg.split("\n").find(l => l.includes("splitLevel"));
+                  const cfg = cfgResults[i];
+                  if (cfg.ok) {
+                    const splitLevel = cfg.output.split("\n").find(l => l.includes("splitLevel"));
                     output += splitLevel ? `  ${splitLevel}\n` : "  splitLevel: not set\n";
-                  } catch { output += "  Could not read\n"; }
+                  } else { output += "  Could not read\n"; }
                   output += "\n";
-                }
+                });
               } catch { output += "Could not list configs\n"; }
             }
             return { content: [{ type: "text", text: applyFiltersToText(output, args) }] };
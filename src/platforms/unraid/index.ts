@@ -1,6 +1,7 @@
-import { Platform, PlatformToolModule, SSHExecutor } from "../types.js";
+import { Platform, PlatformToolModule, ResourceDefinition, SSHExecutor } from "../types.js";
 import { registerUnraidArrayTools } from "./array-tools.js";
 import { registerUnraidPluginTools } from "./plugin-tools.js";
+import { unraidResources } from "./resources.js";
 
 /**
  * Unraid Platform
@@ -86,4 +87,11 @@ export const UnraidPlatform: Platform = {
       },
     ];
   },
+
+  /**
+   * Get Unraid configuration resources
+   */
+  getResources(): ResourceDefinition[] {
+    return unraidResources;
+  },
 };
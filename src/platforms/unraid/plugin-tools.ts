@@ -1,11 +1,35 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { applyFilters, outputFiltersSchema } from "../../filters.js";
+import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
 import { SSHExecutor } from "../types.js";
+import { defineActions } from "../../tool-metadata.js";
+import { markdownTable, structuredResult } from "../../output.js";
+import { fileName, filePath, raw, sh, shareName } from "../../shell.js";
+
+/** Docker templates saved by the Unraid Docker manager */
+export const DOCKER_TEMPLATE_DIR = "/boot/config/plugins/dockerMan/templates-user";
+
+/** Per-share settings, one <share>.cfg per share */
+export const SHARE_CONFIG_DIR = "/boot/config/shares";
+
+/** Array/cache disk IDs and flash GUID from disk.cfg */
+export const DISK_ASSIGNMENTS_COMMAND = `disk_cfg="/boot/config/disk.cfg"; if [ ! -f "$disk_cfg" ]; then echo "disk.cfg not found"; exit 1; fi; echo "=== Disk Assignments ==="; cat "$disk_cfg" | grep -E "^(diskId|cacheId|flashGUID)"`;
 
 const pluginActions = ["list", "updates", "template", "scripts", "share_config", "disk_assignments", "recent_changes"] as const;
 
+const pluginListOutput = z.object({
+  plugins: z.array(z.object({
+    name: z.string(),
+    version: z.string().optional().describe("Unset if the plugin directory has no .plg file"),
+    path: z.string().describe(".plg file, or the plugin directory if there is none"),
+  })),
+});
+
 export function registerUnraidPluginTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  defineActions("plugin", {
+    list: { output: pluginListOutput },
+  });
+
   server.tool(
     "plugin",
     "Plugin/config ops. Actions: list (installed plugins), updates (available updates), template (docker templates), scripts (user scripts), share_config (share settings), disk_assignments (disk IDs), recent_changes (modified config files).",
@@ -22,15 +46,19 @@ export function registerUnraidPluginTools(server: McpServer, sshExecutor: SSHExe
         switch (args.action) {
           case "list": {
             let cmd = `for dir in /boot/config/plugins/*/; do if [ -d "$dir" ]; then plugin_name=$(basename "$dir"); plg_file=$(find "$dir" -maxdepth 1 -name "*.plg" -type f | head -n 1); if [ -n "$plg_file" ]; then version=$(grep -oP '(?<=version=")[^"]*' "$plg_file" 2>/dev/null | head -n 1); [ -z "$version" ] && version=$(grep -oP '(?<=<version>)[^<]*' "$plg_file" 2>/dev/null | head -n 1); [ -z "$version" ] && version="unknown"; echo "$plugin_name|$version|$plg_file"; else echo "$plugin_name|no-plg|$dir"; fi; fi; done`;
-            cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
-            if (!output?.trim()) return { content: [{ type: "text", text: "No plugins found." }] };
-            let formatted = "Plugins:\n\n";
-            for (const line of output.trim().split("\n")) {
+            const plugins = output.trim().split("\n").filter(line => line.includes("|")).map(line => {
               const [name, version, path] = line.split("|");
-              formatted += `${name}: ${version}\n  ${path}\n\n`;
-            }
-            return { content: [{ type: "text", text: formatted }] };
+              return { name, ...(version !== "no-plg" ? { version } : {}), path };
+            });
+            return structuredResult({ plugins }, (data, format) => {
+              if (data.plugins.length === 0) return "No plugins found.";
+              if (format === "markdown") {
+                return markdownTable(["Plugin", "Version", "Path"], data.plugins.map(p => [p.name, p.version ?? "no .plg", p.path]), args);
+              }
+              const formatted = data.plugins.map(p => `${p.name}: ${p.version ?? "no-plg"}\n  ${p.path}`).join("\n\n");
+              return `Plugins:\n\n${applyFiltersToText(formatted, args)}`;
+            });
           }
 
           case "updates": {
@@ -48,9 +76,9 @@ export function registerUnraidPluginTools(server: McpServer, sshExecutor: SSHExe
 
           case "template": {
             if (!args.template) return { content: [{ type: "text", text: "Error: template required" }], isError: true };
-            const templateName = args.template.endsWith(".xml") ? args.template : `${args.template}.xml`;
-            const templatePath = `/boot/config/plugins/dockerMan/templates-user/${templateName}`;
-            let cmd = `if [ -f "${templatePath}" ]; then cat "${templatePath}"; else echo "Not found. Available:"; ls -1 /boot/config/plugins/dockerMan/templates-user/*.xml 2>/dev/null | xargs -n 1 basename 2>/dev/null || echo "None"; fi`;
+            const templateName = fileName(args.template.endsWith(".xml") ? args.template : `${args.template}.xml`, "template name");
+            const templatePath = `${DOCKER_TEMPLATE_DIR}/${templateName}`;
+            let cmd = sh`if [ -f ${templatePath} ]; then cat ${templatePath}; else echo "Not found. Available:"; ls -1 ${DOCKER_TEMPLATE_DIR}/*.xml 2>/dev/null | xargs -n 1 basename 2>/dev/null || echo "None"; fi`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: output }] };
@@ -70,8 +98,8 @@ export function registerUnraidPluginTools(server: McpServer, sshExecutor: SSHExe
           }
 
           case "share_config": {
-            const sharePattern = args.share ? `/boot/config/shares/${args.share}.cfg` : "/boot/config/shares/*.cfg";
-            let cmd = `for cfg_file in ${sharePattern}; do if [ ! -f "$cfg_file" ]; then echo "No configs"; exit 0; fi; share_name=$(basename "$cfg_file" .cfg); echo "=== $share_name ==="; cat "$cfg_file"; echo "---"; done`;
+            const sharePattern = args.share ? `${SHARE_CONFIG_DIR}/${shareName(args.share)}.cfg` : raw(`${SHARE_CONFIG_DIR}/*.cfg`);
+            let cmd = sh`for cfg_file in ${sharePattern}; do if [ ! -f "$cfg_file" ]; then echo "No configs"; exit 0; fi; share_name=$(basename "$cfg_file" .cfg); echo "=== $share_name ==="; cat "$cfg_file"; echo "---"; done`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             if (output.includes("No configs")) return { content: [{ type: "text", text: args.share ? `Share not found: ${args.share}` : "No share configs" }] };
@@ -79,17 +107,16 @@ export function registerUnraidPluginTools(server: McpServer, sshExecutor: SSHExe
           }
 
           case "disk_assignments": {
-            let cmd = `disk_cfg="/boot/config/disk.cfg"; if [ ! -f "$disk_cfg" ]; then echo "disk.cfg not found"; exit 1; fi; echo "=== Disk Assignments ==="; cat "$disk_cfg" | grep -E "^(diskId|cacheId|flashGUID)"`;
-            cmd = applyFilters(cmd, args);
+            const cmd = applyFilters(DISK_ASSIGNMENTS_COMMAND, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: output }] };
           }
 
           case "recent_changes": {
-            const path = args.path ?? "/boot/config";
+            const path = filePath(args.path ?? "/boot/config");
             const hours = args.hours ?? 24;
             const days = hours / 24;
-            let cmd = `if [ ! -d "${path}" ]; then echo "Path not found: ${path}"; exit 1; fi; echo "=== Files modified in last ${hours}h ==="; find "${path}" -type f -mtime -${days} -exec ls -lh {} \\; 2>/dev/null | sort -k6,7; echo ""; count=$(find "${path}" -type f -mtime -${days} 2>/dev/null | wc -l); echo "Total: $count"`;
+            let cmd = sh`if [ ! -d ${path} ]; then echo ${`Path not found: ${path}`}; exit 1; fi; echo "=== Files modified in last ${hours}h ==="; find ${path} -type f -mtime -${days} -exec ls -lh {} \\; 2>/dev/null | sort -k6,7; echo ""; count=$(find ${path} -type f -mtime -${days} 2>/dev/null | wc -l); echo "Total: $count"`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: output }] };
@@ -0,0 +1,47 @@
+import { ResourceDefinition, SSHExecutor } from "../types.js";
+import { DISK_ASSIGNMENTS_COMMAND, DOCKER_TEMPLATE_DIR, SHARE_CONFIG_DIR } from "./plugin-tools.js";
+import { fileName, sh, shareName } from "../../shell.js";
+
+/**
+ * List the base names of files with an extension in a directory
+ */
+async function listFiles(executor: SSHExecutor, dir: string, extension: string): Promise<string[]> {
+  // find matches the pattern itself, so the directory is quoted like any other argument
+  const output = await executor(sh`find ${dir} -maxdepth 1 -type f -name ${`*${extension}`} 2>/dev/null | sort`);
+  return output
+    .trim()
+    .split("\n")
+    .filter(Boolean)
+    .map((file) => file.slice(file.lastIndexOf("/") + 1, -extension.length));
+}
+
+/**
+ * Unraid configuration exposed as resources
+ */
+export const unraidResources: ResourceDefinition[] = [
+  {
+    name: "unraid-share",
+    path: "unraid/shares/{share}",
+    variables: { share: shareName },
+    description: "Unraid share settings (<share>.cfg)",
+    mimeType: "text/plain",
+    read: async (executor, { share }) => executor(sh`cat ${`${SHARE_CONFIG_DIR}/${shareName(share)}.cfg`}`),
+    list: async (executor) => (await listFiles(executor, SHARE_CONFIG_DIR, ".cfg")).map((share) => ({ share })),
+  },
+  {
+    name: "unraid-disk-assignments",
+    path: "unraid/disk-assignments",
+    description: "Unraid array and cache disk IDs",
+    mimeType: "text/plain",
+    read: (executor) => executor(DISK_ASSIGNMENTS_COMMAND),
+  },
+  {
+    name: "unraid-docker-template",
+    path: "unraid/templates/{template}",
+    variables: { template: (value) => fileName(value, "template name") },
+    description: "Unraid Docker manager template for a container",
+    mimeType: "application/xml",
+    read: async (executor, { template }) => executor(sh`cat ${`${DOCKER_TEMPLATE_DIR}/${fileName(template, "template name")}.xml`}`),
+    list: async (executor) => (await listFiles(executor, DOCKER_TEMPLATE_DIR, ".xml")).map((template) => ({ template })),
+  },
+];
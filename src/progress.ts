@@ -0,0 +1,77 @@
+/**
+ * Minimal view of the SDK's RequestHandlerExtra used for progress reporting
+ */
+export interface ProgressExtra {
+  _meta?: { progressToken?: string | number };
+  sendNotification?: (notification: {
+    method: "notifications/progress";
+    params: { progressToken: string | number; progress: number; message?: string };
+  }) => Promise<void>;
+}
+
+/** Minimum gap between progress notifications for one call */
+const PROGRESS_INTERVAL_MS = 500;
+
+/** How much of the most recent output each notification carries */
+const PROGRESS_TAIL_CHARS = 1000;
+
+/**
+ * Streams command output for one tool call
+ */
+export interface ProgressReporter {
+  onOutput: (chunk: string) => void;
+  /** Drop any pending notification; nothing is sent once the call has returned */
+  finish: () => void;
+}
+
+/**
+ * Build a reporter that forwards partial command output to the client as MCP
+ * progress notifications, at most one per PROGRESS_INTERVAL_MS
+ *
+ * Returns undefined when the client didn't ask for progress (no progressToken),
+ * so commands skip streaming entirely. `progress` is the running byte count,
+ * which only ever increases as the spec requires; `message` is the tail of the
+ * output received since the previous notification, passed through `redact`
+ * when one is given.
+ */
+export function createProgressReporter(
+  extra: unknown,
+  redact?: (text: string) => string
+): ProgressReporter | undefined {
+  const { _meta, sendNotification } = (extra ?? {}) as ProgressExtra;
+  const progressToken = _meta?.progressToken;
+  if (progressToken === undefined || !sendNotification) return undefined;
+
+  let received = 0;
+  let pending = "";
+  let lastSent = 0;
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    timer = null;
+    lastSent = Date.now();
+    const message = redact ? redact(pending) : pending;
+    pending = "";
+    sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress: received, message },
+    }).catch(() => {
+      // The client may have gone away; progress is best-effort
+    });
+  };
+
+  return {
+    onOutput: (chunk: string) => {
+      received += Buffer.byteLength(chunk);
+      pending = (pending + chunk).slice(-PROGRESS_TAIL_CHARS);
+      if (timer) return;
+      const wait = PROGRESS_INTERVAL_MS - (Date.now() - lastSent);
+      if (wait <= 0) flush();
+      else timer = setTimeout(flush, wait);
+    },
+    finish: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { HostRegistry } from "./host-registry.js";
+import { investigationPrompts, PromptDefinition } from "./prompts/investigations.js";
+import { logger } from "./logger.js";
+
+/**
+ * The `server.prompt(name, description, argsSchema, callback)` overload, narrowed
+ * like ToolRegistration in tool-registrar so tsc doesn't expand the SDK overloads
+ */
+type PromptRegistration = (
+  name: string,
+  description: string,
+  argsSchema: Record<string, z.ZodType<string | undefined>>,
+  callback: (args: Record<string, string | undefined>) => Promise<{
+    messages: Array<{ role: "user"; content: { type: "text"; text: string } }>;
+  }>
+) => unknown;
+
+/**
+ * Register investigation prompts for the hosts in the registry
+ *
+ * A prompt restricted to certain platforms is only registered when some host
+ * runs one of them. In multi-host mode each prompt gets a `host` argument, and
+ * the steps are tailored to that host's detected platform.
+ */
+export function loadPrompts(server: McpServer, hosts: HostRegistry, prompts: PromptDefinition[] = investigationPrompts): void {
+  const register = server.prompt.bind(server) as unknown as PromptRegistration;
+  const multiHost = hosts.names().length > 1;
+  const platformIds = new Set(hosts.list().map((host) => host.platform?.id));
+
+  for (const prompt of prompts) {
+    if (prompt.platforms && !prompt.platforms.some((id) => platformIds.has(id))) {
+      logger.debug(`Skipping prompt ${prompt.name}: no host runs ${prompt.platforms.join("/")}`);
+      continue;
+    }
+
+    const argsSchema = multiHost
+      ? { ...prompt.args, host: z.string().optional().describe(`Target host (default: ${hosts.defaultHost})`) }
+      : prompt.args;
+
+    register(prompt.name, prompt.description, argsSchema, async (args) => {
+      const { host: hostName, ...promptArgs } = args;
+      const host = hosts.get(hostName || undefined);
+      if (prompt.platforms && !prompt.platforms.includes(host.platform?.id ?? "")) {
+        const platform = host.platform ? host.platform.displayName : "unknown platform";
+        throw new Error(`Prompt "${prompt.name}" does not apply to host "${host.name}" (${platform})`);
+      }
+
+      const text = prompt.build(promptArgs, { host: multiHost ? host.name : undefined, platform: host.platform });
+      return { messages: [{ role: "user", content: { type: "text", text } }] };
+    });
+  }
+}
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { Platform } from "../platforms/types.js";
+
+/**
+ * What a prompt knows about the host it targets
+ */
+export interface PromptContext {
+  /** Inventory name, or undefined when there is only one host */
+  host?: string;
+  /** Detected platform of the host, null when detection failed */
+  platform: Platform | null;
+}
+
+/**
+ * A parameterized investigation the client can run as an MCP prompt
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  /** Prompt arguments; MCP prompt arguments are always strings */
+  args: Record<string, z.ZodType<string | undefined>>;
+  /** Platform IDs the prompt applies to (default: all) */
+  platforms?: string[];
+  /** Build the instructions for the assistant */
+  build: (args: Record<string, string | undefined>, context: PromptContext) => string;
+}
+
+/**
+ * Render one tool call, adding the `host` argument in multi-host mode
+ */
+function step(context: PromptContext, tool: string, args: Record<string, unknown>, why: string): string {
+  const callArgs = context.host ? { ...args, host: context.host } : args;
+  return `\`${tool}\` ${JSON.stringify(callArgs)} - ${why}`;
+}
+
+function numbered(steps: string[]): string {
+  return steps.map((s, i) => `${i + 1}. ${s}`).join("\n");
+}
+
+function target(context: PromptContext): string {
+  const where = context.host ? `host "${context.host}"` : "the host";
+  return context.platform ? `${where} (${context.platform.displayName})` : where;
+}
+
+function isUnraid(context: PromptContext): boolean {
+  return context.platform?.id === "unraid";
+}
+
+const ANALYSIS =
+  "Run the steps in order, skipping any that clearly don't apply. Then summarize the likely root cause, " +
+  "the evidence for it, and a concrete fix. Don't change anything on the host without asking first.";
+
+/**
+ * Built-in SRE investigation prompts
+ */
+export const investigationPrompts: PromptDefinition[] = [
+  {
+    name: "container_restarting",
+    description: "Investigate why a Docker container keeps restarting or exiting",
+    args: {
+      container: z.string().describe("Container name"),
+    },
+    build: ({ container }, context) => {
+      const steps = [
+        step(context, "docker", { action: "inspect", container }, "check State (ExitCode, OOMKilled, Error), RestartCount and the restart policy"),
+        step(context, "log", { action: "restart_history", hours: 24 }, "restart counts and errors across containers in the last 24h"),
+        step(context, "docker", { action: "logs", container, dockerTail: 200 }, "the output right before the last exit"),
+        step(context, "docker", { action: "health" }, "failing healthchecks"),
+        step(context, "log", { action: "grep_all", pattern: "oom|killed process", extendedRegex: true }, "kernel OOM kills"),
+        step(context, "resource", { action: "hogs", sortBy: "memory" }, "memory pressure from other processes"),
+        step(context, "container_topology", { action: "dependency_graph" }, "dependencies that may be down"),
+      ];
+      if (isUnraid(context)) {
+        steps.push(
+          step(context, "plugin", { action: "template", template: container }, "the Unraid template's ports, paths and variables"),
+          step(context, "unraid", { action: "array_status" }, "a stopped array takes /mnt/user appdata away from containers")
+        );
+      }
+      return `Container "${container}" on ${target(context)} keeps restarting. Find out why.\n\n${numbered(steps)}\n\n${ANALYSIS}`;
+    },
+  },
+  {
+    name: "disk_filling",
+    description: "Find what is filling up a disk and what can safely be cleaned up",
+    args: {
+      path: z.string().optional().describe("Path to analyze (default: the platform's data directory)"),
+    },
+    build: ({ path }, context) => {
+      const dir = path || context.platform?.paths.dataDir || "/";
+      const steps = [
+        step(context, "system", { action: "disk_usage", path: dir }, "how full the filesystem is"),
+        step(context, "resource", { action: "disk_analyzer", path: dir, depth: 2, minSize: "1G" }, "the largest directories and files"),
+        step(context, "resource", { action: "docker_df" }, "space used by images, containers, volumes and build cache"),
+        step(context, "resource", { action: "dangling" }, "unused images, volumes and networks that can be pruned"),
+        step(context, "docker", { action: "logs_aggregate", pattern: "no space left" }, "containers already failing for lack of space"),
+      ];
+      if (isUnraid(context)) {
+        steps.push(
+          step(context, "unraid", { action: "share_usage" }, "usage per share"),
+          step(context, "unraid", { action: "cache_usage" }, "cache pool usage; a full cache forces writes to the array"),
+          step(context, "unraid", { action: "mover_status" }, "whether the mover is running or stuck"),
+          step(context, "unraid", { action: "mover_log", lines: 50 }, "recent mover activity and errors")
+        );
+      }
+      return `The disk holding ${dir} on ${target(context)} is filling up. Find out what is using the space and how fast it is growing.\n\n${numbered(steps)}\n\n${ANALYSIS} List cleanup candidates with their size, most reclaimable first.`;
+    },
+  },
+  {
+    name: "parity_errors",
+    description: "Investigate Unraid parity check errors and the drives behind them",
+    args: {},
+    platforms: ["unraid"],
+    build: (_args, context) => {
+      const steps = [
+        step(context, "unraid", { action: "parity_status" }, "the current or last check and its error count"),
+        step(context, "unraid", { action: "parity_history", limit: 10 }, "whether errors are new, recurring or growing"),
+        step(context, "unraid", { action: "array_status" }, "disabled or emulated disks"),
+        step(context, "unraid", { action: "smart" }, "reallocated, pending and CRC error counts per drive"),
+        step(context, "unraid", { action: "temps" }, "overheating drives"),
+        step(context, "unraid", { action: "unclean_check" }, "an unclean shutdown causes sync errors on the next check"),
+        step(context, "log", { action: "grep_all", pattern: "md: |parity|I/O error|ata[0-9]", extendedRegex: true }, "disk and controller errors in the syslog"),
+      ];
+      return `The Unraid array on ${target(context)} reports parity check errors. Work out whether they come from an unclean shutdown, a failing drive, or cabling/controller problems.\n\n${numbered(steps)}\n\n${ANALYSIS} Say whether the next check should be correcting or non-correcting.`;
+    },
+  },
+  {
+    name: "host_slow",
+    description: "Diagnose why a host is slow or unresponsive",
+    args: {},
+    build: (_args, context) => {
+      const steps = [
+        step(context, "performance", { action: "bottleneck" }, "whether CPU, I/O wait, memory or network is the constraint"),
+        step(context, "resource", { action: "hogs", sortBy: "cpu" }, "top CPU consumers"),
+        step(context, "resource", { action: "hogs", sortBy: "memory" }, "top memory consumers and swap pressure"),
+        step(context, "resource", { action: "zombies" }, "zombie and D-state processes stuck on I/O"),
+        step(context, "resource", { action: "io_profile", duration: 10 }, "which containers are doing the I/O"),
+        step(context, "docker", { action: "stats" }, "per-container CPU and memory"),
+        step(context, "log", { action: "error_aggregator", hours: 6 }, "errors that line up with the slowdown"),
+      ];
+      if (isUnraid(context)) {
+        steps.push(
+          step(context, "unraid", { action: "parity_status" }, "a running parity check saturates every array disk"),
+          step(context, "unraid", { action: "mover_status" }, "the mover competes for array I/O"),
+          step(context, "unraid", { action: "spin_status" }, "disks spinning up cause multi-second stalls")
+        );
+      }
+      return `${target(context).replace(/^./, (c) => c.toUpperCase())} is slow. Find the bottleneck and what is causing it.\n\n${numbered(steps)}\n\n${ANALYSIS}`;
+    },
+  },
+];
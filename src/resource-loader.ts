@@ -0,0 +1,31 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { HostRegistry } from "./host-registry.js";
+import { registerResources, ResourceRegistration } from "./resource-registrar.js";
+import { coreResources } from "./resources/core-resources.js";
+import { Redactor } from "./redaction.js";
+import { logger } from "./logger.js";
+
+/**
+ * Load resources for the hosts in the registry
+ *
+ * Core resources are available on every host; platform resources only on
+ * hosts running a platform that declares them.
+ */
+export function loadResources(server: McpServer, hosts: HostRegistry, redactor: Redactor = new Redactor()): void {
+  const registrations: ResourceRegistration[] = coreResources.map((definition) => ({ definition }));
+
+  const seen = new Set<string>();
+  for (const host of hosts.list()) {
+    for (const definition of host.platform?.getResources?.() ?? []) {
+      if (seen.has(definition.name)) continue;
+      seen.add(definition.name);
+      registrations.push({
+        definition,
+        isAvailable: (candidate) => candidate.platform?.getResources?.().some((d) => d.name === definition.name) ?? false,
+      });
+    }
+  }
+
+  registerResources(server, hosts, registrations, redactor);
+  logger.debug(`Registered ${registrations.length} resources: ${registrations.map((r) => r.definition.name).join(", ")}`);
+}
@@ -0,0 +1,237 @@
+import * as crypto from "crypto";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { HostRegistry, ManagedHost } from "./host-registry.js";
+import { ResourceDefinition } from "./platforms/types.js";
+import { Redactor } from "./redaction.js";
+import { logger } from "./logger.js";
+
+/** URI scheme for host resources: `ssh-sre://{host}/{path}` */
+export const RESOURCE_SCHEME = "ssh-sre";
+
+/**
+ * A resource together with the hosts it can be read from
+ */
+export interface ResourceRegistration {
+  definition: ResourceDefinition;
+  /** Whether the resource exists on a host (default: every host) */
+  isAvailable?: (host: ManagedHost) => boolean;
+}
+
+/**
+ * Build the URI of a resource on a host, filling in its path variables
+ */
+export function resourceUri(host: string, path: string, variables: Record<string, string> = {}): string {
+  const filled = path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(variables[name] ?? ""));
+  return `${RESOURCE_SCHEME}://${host}/${filled}`;
+}
+
+/**
+ * Names of the `{variable}` segments in a resource path
+ */
+function pathVariables(path: string): string[] {
+  return Array.from(path.matchAll(/\{(\w+)\}/g), (match) => match[1]);
+}
+
+/**
+ * Match a URI against a resource's template and validate its variables
+ *
+ * Path variables are interpolated into remote commands and file paths, so each
+ * is checked with the validator its definition declares (a share name may
+ * contain spaces, a container name may not). The host is checked by the registry.
+ */
+function resolveVariables(uri: string, template: UriTemplate, definition: ResourceDefinition): Record<string, string> | null {
+  const match = template.match(uri);
+  if (!match) return null;
+
+  const variables: Record<string, string> = {};
+  for (const [name, value] of Object.entries(match)) {
+    const decoded = decodeURIComponent(Array.isArray(value) ? value.join(",") : value);
+    if (name !== "host") {
+      try {
+        definition.variables![name](decoded);
+      } catch {
+        throw new Error(`Invalid ${name} "${decoded}" in ${uri}`);
+      }
+    }
+    variables[name] = decoded;
+  }
+  return variables;
+}
+
+/**
+ * Polls subscribed resources and notifies the client when their content changes
+ *
+ * MCP has no push source for host state, so each subscribed URI is re-read every
+ * RESOURCE_POLL_INTERVAL_MS and compared by hash. Reads that fail are skipped
+ * until the next poll rather than reported as changes.
+ */
+export class ResourceSubscriptions {
+  private hashes = new Map<string, string | null>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private read: (uri: string) => Promise<string>,
+    private notify: (uri: string) => Promise<void>,
+    private intervalMs: number
+  ) {}
+
+  /**
+   * Start watching a URI; the first read validates it and records the baseline
+   * @throws Error if the URI doesn't resolve to a readable resource
+   */
+  async subscribe(uri: string): Promise<void> {
+    this.hashes.set(uri, hash(await this.read(uri)));
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.hashes.delete(uri);
+    if (this.hashes.size === 0) this.stop();
+  }
+
+  /**
+   * Re-read every subscribed URI once, notifying for those that changed
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const [uri, previous] of this.hashes) {
+        let current: string;
+        try {
+          current = hash(await this.read(uri));
+        } catch (error) {
+          logger.debug(`Resource poll failed for ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+        // Unsubscribed while the read was in flight
+        if (!this.hashes.has(uri)) continue;
+        this.hashes.set(uri, current);
+        if (previous !== current) await this.notify(uri);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  get size(): number {
+    return this.hashes.size;
+  }
+}
+
+function hash(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+function pollIntervalMs(): number {
+  const value = Number(process.env.RESOURCE_POLL_INTERVAL_MS);
+  return Number.isInteger(value) && value > 0 ? value : 30000;
+}
+
+/**
+ * Register host resources on an McpServer
+ *
+ * Every resource is a template under `ssh-sre://{host}/...`, so one
+ * registration covers all inventory hosts: resources/list enumerates each
+ * available host (and each container, share, ... for templated paths), and
+ * resources/read routes to the named host's connection. Also enables
+ * resources/subscribe, backed by ResourceSubscriptions. Contents are returned
+ * with secrets masked by the redactor.
+ */
+export function registerResources(
+  server: McpServer,
+  hosts: HostRegistry,
+  registrations: ResourceRegistration[],
+  redactor: Redactor = new Redactor()
+): void {
+  const entries = registrations.map((registration) => {
+    const { definition } = registration;
+    for (const name of pathVariables(definition.path)) {
+      if (!definition.variables?.[name]) {
+        throw new Error(`Resource ${definition.name} declares no validator for {${name}}`);
+      }
+    }
+    return { ...registration, template: new UriTemplate(`${RESOURCE_SCHEME}://{host}/${definition.path}`) };
+  });
+
+  const availableHosts = (registration: ResourceRegistration) =>
+    hosts.list().filter((host) => !registration.isAvailable || registration.isAvailable(host));
+
+  const read = async (uri: string): Promise<string> => {
+    for (const entry of entries) {
+      const variables = resolveVariables(uri, entry.template, entry.definition);
+      if (!variables) continue;
+      const { host: hostName, ...pathVariables } = variables;
+      const host = hosts.get(hostName);
+      if (entry.isAvailable && !entry.isAvailable(host)) {
+        throw new Error(`Resource ${entry.definition.name} is not available on host "${host.name}"`);
+      }
+      return entry.definition.read(host.executor, pathVariables);
+    }
+    throw new Error(`Unknown resource: ${uri}`);
+  };
+
+  for (const entry of entries) {
+    const { definition } = entry;
+    const template = new ResourceTemplate(entry.template.toString(), {
+      list: async () => {
+        const resources = [];
+        for (const host of availableHosts(entry)) {
+          if (!definition.list) {
+            resources.push({ uri: resourceUri(host.name, definition.path), name: `${host.name}/${definition.path}`, mimeType: definition.mimeType });
+            continue;
+          }
+          try {
+            for (const variables of await definition.list(host.executor)) {
+              const uri = resourceUri(host.name, definition.path, variables);
+              resources.push({ uri, name: uri.slice(`${RESOURCE_SCHEME}://`.length), mimeType: definition.mimeType });
+            }
+          } catch (error) {
+            logger.debug(`Listing ${definition.name} on ${host.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+        return { resources };
+      },
+      complete: {
+        host: () => availableHosts(entry).map((host) => host.name),
+      },
+    });
+
+    server.resource(definition.name, template, { description: definition.description, mimeType: definition.mimeType }, async (uri: URL) => ({
+      contents: [{ uri: uri.href, mimeType: definition.mimeType, text: redactor.redactText(await read(uri.href)) }],
+    }));
+  }
+
+  const subscriptions = new ResourceSubscriptions(
+    read,
+    (uri) => server.server.sendResourceUpdated({ uri }),
+    pollIntervalMs()
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    subscriptions.stop();
+    onclose?.();
+  };
+}
@@ -0,0 +1,36 @@
+import { ResourceDefinition } from "../platforms/types.js";
+import { SYSTEM_INFO_COMMAND } from "../tools/core/system-tools.js";
+import { buildDiagnosticReport } from "../tools/core/health-diagnostics-tools.js";
+import { containerName, sh } from "../shell.js";
+
+/**
+ * Resources available on every host
+ */
+export const coreResources: ResourceDefinition[] = [
+  {
+    name: "system-info",
+    path: "system/info",
+    description: "Kernel, uptime and memory summary",
+    mimeType: "text/plain",
+    read: (executor) => executor(SYSTEM_INFO_COMMAND),
+  },
+  {
+    name: "diagnostic-report",
+    path: "diagnostics/report",
+    description: "Diagnostic report: kernel, uptime, array, containers, disks and memory",
+    mimeType: "text/markdown",
+    read: (executor) => buildDiagnosticReport(executor, true),
+  },
+  {
+    name: "container-inspect",
+    path: "containers/{name}/inspect",
+    variables: { name: containerName },
+    description: "docker inspect output for a container",
+    mimeType: "application/json",
+    read: async (executor, { name }) => executor(sh`docker inspect ${containerName(name)}`),
+    list: async (executor) => {
+      const output = await executor("docker ps -a --format '{{.Names}}'");
+      return output.trim().split("\n").filter(Boolean).map((name) => ({ name }));
+    },
+  },
+];
@@ -0,0 +1,128 @@
+/**
+ * Shell command construction
+ *
+ * Every command runs through a remote shell, so any user-supplied value
+ * interpolated into a command must stay a single word. Build commands with
+ * the `sh` tag, which quotes each interpolated value; wrap text that is
+ * already shell syntax (a sub-command, a glob) in `raw()`.
+ *
+ * @example
+ * ```ts
+ * sh`docker logs --tail ${args.lines} ${containerName(args.container)}`
+ * // docker logs --tail 100 plex
+ * sh`grep -i -e ${"it's"} /var/log/syslog`
+ * // grep -i -e 'it'\''s' /var/log/syslog
+ * ```
+ */
+
+/** Text embedded in a command verbatim */
+export class ShellFragment {
+  constructor(readonly text: string) {}
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+export type ShellValue = string | number | ShellFragment | readonly (string | number)[];
+
+/** Words that need no quoting */
+const SAFE_WORD = /^[A-Za-z0-9_@%+=:,./-]+$/;
+
+/**
+ * Mark text as shell syntax so `sh` embeds it unquoted
+ *
+ * Only for constants and commands built with `sh`, never for user input.
+ */
+export function raw(text: string): ShellFragment {
+  return new ShellFragment(text);
+}
+
+/**
+ * Quote a value as a single shell word
+ * @throws Error if the value contains a NUL byte or is not a finite number
+ */
+export function quote(value: string | number): string {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Invalid numeric shell argument: ${value}`);
+    return String(value);
+  }
+  if (value.includes("\0")) throw new Error("Shell argument contains a NUL byte");
+  if (SAFE_WORD.test(value)) return value;
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+function render(value: ShellValue): string {
+  if (value instanceof ShellFragment) return value.text;
+  if (Array.isArray(value)) return value.map(quote).join(" ");
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error(`Invalid shell argument: ${String(value)}`);
+  }
+  return quote(value);
+}
+
+/**
+ * Build a command, quoting every interpolated value
+ *
+ * Strings and numbers become one word each, arrays one word per element,
+ * and `raw()` fragments are embedded as-is.
+ */
+export function sh(strings: TemplateStringsArray, ...values: ShellValue[]): string {
+  let command = strings[0];
+  for (let i = 0; i < values.length; i++) {
+    command += render(values[i]) + strings[i + 1];
+  }
+  return command;
+}
+
+function validated(kind: string, value: string, pattern: RegExp): string {
+  if (!pattern.test(value)) throw new Error(`Invalid ${kind} "${value}"`);
+  return value;
+}
+
+/**
+ * Check a Docker container, network or volume name (or ID)
+ * @throws Error if it isn't a valid Docker object name
+ */
+export function containerName(value: string, kind = "container name"): string {
+  return validated(kind, value, /^[A-Za-z0-9][A-Za-z0-9_.-]{0,254}$/);
+}
+
+/**
+ * Check a hostname or IP address (v4 or v6)
+ * @throws Error if it could be mistaken for an option or contains other characters
+ */
+export function hostName(value: string, kind = "host name"): string {
+  return validated(kind, value, /^[A-Za-z0-9][A-Za-z0-9.:_-]{0,252}$/);
+}
+
+/**
+ * Check a block device name under /dev (sda, nvme0n1, md1p1, dm-0)
+ * @throws Error if it isn't a bare device name
+ */
+export function deviceName(value: string): string {
+  return validated("device name", value, /^[a-z][a-z0-9_-]{0,31}$/);
+}
+
+/**
+ * Check a single path component such as an Unraid share or template name
+ * @throws Error if it is empty, `.`/`..`, or contains a slash
+ */
+export function fileName(value: string, kind = "file name"): string {
+  return validated(kind, value, /^(?!\.\.?$)[^/\0]{1,255}$/);
+}
+
+/**
+ * Keep a user-supplied path from being parsed as an option (`-delete` becomes `./-delete`)
+ */
+export function filePath(value: string): string {
+  return value.startsWith("-") ? `./${value}` : value;
+}
+
+/**
+ * Check an Unraid share name
+ * @throws Error if it isn't a single path component
+ */
+export function shareName(value: string): string {
+  return fileName(value, "share name");
+}
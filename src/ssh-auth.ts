@@ -0,0 +1,139 @@
+import { utils } from "ssh2";
+import * as fs from "fs";
+import { logger } from "./logger.js";
+import { expandHome } from "./ssh-config.js";
+
+/**
+ * Credentials for a host; at least one method must be configured
+ */
+export interface SSHAuthConfig {
+  username: string;
+  /** One or more private key paths, comma-separated, tried in order */
+  privateKeyPath?: string;
+  /** Passphrase for encrypted private keys */
+  passphrase?: string;
+  /** ssh-agent socket path (SSH_AUTH_SOCK) */
+  agent?: string;
+  /** Password, also used to answer keyboard-interactive prompts */
+  password?: string;
+}
+
+/**
+ * One step of the authentication sequence, in the shape ssh2's authHandler accepts
+ */
+type AuthMethod =
+  | { type: "publickey"; username: string; key: Buffer; passphrase?: string }
+  | { type: "agent"; username: string; agent: string }
+  | { type: "password"; username: string; password: string }
+  | {
+      type: "keyboard-interactive";
+      username: string;
+      prompt: (name: string, instructions: string, lang: string, prompts: unknown[], finish: (answers: string[]) => void) => void;
+    };
+
+/**
+ * Split a comma-separated SSH_PRIVATE_KEY_PATH into individual paths
+ */
+export function splitKeyPaths(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((p) => p.trim()).filter(Boolean);
+}
+
+/**
+ * Whether a config has at least one usable authentication method
+ */
+export function hasCredentials(config: Omit<SSHAuthConfig, "username">): boolean {
+  return splitKeyPaths(config.privateKeyPath).length > 0 || !!config.password || !!config.agent;
+}
+
+/**
+ * Key paths to read: `~/` is expanded here because inventory files and
+ * comma-separated lists never pass through a shell
+ */
+function keyFiles(config: SSHAuthConfig): string[] {
+  return splitKeyPaths(config.privateKeyPath).map(expandHome);
+}
+
+/**
+ * Read each configured key, dropping (with a warning) keys that can't be read
+ * or decrypted so the next method gets a chance
+ */
+function loadKeys(config: SSHAuthConfig): Array<{ path: string; key: Buffer }> {
+  const keys: Array<{ path: string; key: Buffer }> = [];
+  for (const keyPath of keyFiles(config)) {
+    try {
+      const key = fs.readFileSync(keyPath);
+      const parsed = utils.parseKey(key, config.passphrase);
+      if (parsed instanceof Error) {
+        throw new Error(
+          config.passphrase
+            ? `cannot decrypt with the configured passphrase (${parsed.message})`
+            : `${parsed.message}; set SSH_KEY_PASSPHRASE if the key is encrypted`
+        );
+      }
+      keys.push({ path: keyPath, key });
+    } catch (error) {
+      logger.warn(`Private key ${keyPath}: ${error instanceof Error ? error.message : String(error)} - skipping`);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Build the ssh2 connect options for a host's credentials
+ *
+ * Methods are tried in OpenSSH's order: private keys, ssh-agent, password,
+ * then keyboard-interactive answered with the password. A single key or a
+ * bare password uses ssh2's plain options (the client answers
+ * keyboard-interactive prompts itself); anything more goes through an
+ * authHandler that walks the list and skips methods the server doesn't offer.
+ */
+export function buildAuthOptions(config: SSHAuthConfig): Record<string, unknown> {
+  const keyPaths = keyFiles(config);
+
+  if (keyPaths.length === 1 && !config.agent && !config.password) {
+    // ssh2 parses (and decrypts) the key itself and fails the connect with its reason
+    const key = fs.readFileSync(keyPaths[0]);
+    return config.passphrase ? { privateKey: key, passphrase: config.passphrase } : { privateKey: key };
+  }
+  if (keyPaths.length === 0 && !config.agent && config.password) {
+    return { password: config.password, tryKeyboard: true };
+  }
+
+  const username = config.username;
+  const methods: AuthMethod[] = loadKeys(config).map(({ key }) => ({
+    type: "publickey",
+    username,
+    key,
+    passphrase: config.passphrase,
+  }));
+  if (config.agent) methods.push({ type: "agent", username, agent: config.agent });
+  if (config.password) {
+    const password = config.password;
+    methods.push({ type: "password", username, password });
+    methods.push({
+      type: "keyboard-interactive",
+      username,
+      prompt: (_name, _instructions, _lang, prompts, finish) => finish(prompts.map(() => password)),
+    });
+  }
+
+  if (methods.length === 0) {
+    throw new Error("No usable SSH credentials: every configured private key failed to load (see warnings above)");
+  }
+
+  return {
+    authHandler: (
+      methodsLeft: string[] | null,
+      _partialSuccess: boolean | null,
+      next: (method: AuthMethod | false) => void
+    ) => {
+      while (methods.length > 0) {
+        const method = methods.shift()!;
+        // Agent auth is a publickey exchange on the wire
+        const wireType = method.type === "agent" ? "publickey" : method.type;
+        if (!methodsLeft || methodsLeft.includes(wireType)) return next(method);
+      }
+      return next(false);
+    },
+  };
+}
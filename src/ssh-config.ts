@@ -0,0 +1,249 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { SSHConnectionConfig } from "./ssh-manager.js";
+import { parseProxyJump } from "./jump-hosts.js";
+
+/**
+ * Settings resolved for one alias from an OpenSSH client config
+ */
+export interface SshConfigEntry {
+  /** HostName, or the alias itself when none is set */
+  hostName: string;
+  port?: number;
+  user?: string;
+  /** IdentityFile values in the order they were declared, with ~ and %-tokens expanded */
+  identityFiles: string[];
+  /** Raw ProxyJump value */
+  proxyJump?: string;
+}
+
+/**
+ * One keyword line together with the Host patterns it is scoped to
+ * (null when it applies to every host)
+ */
+interface Directive {
+  patterns: string[] | null;
+  keyword: string;
+  args: string[];
+}
+
+/** Keywords we resolve; everything else in the file is ignored */
+const SUPPORTED_KEYWORDS = new Set(["hostname", "port", "user", "identityfile", "proxyjump"]);
+
+/** Maximum Include depth, matching OpenSSH's READCONF_MAX_DEPTH */
+const MAX_INCLUDE_DEPTH = 16;
+
+/** Patterns that never match; used to skip Match blocks */
+const NEVER: string[] = [];
+
+/**
+ * Expand a leading `~` to the home directory, as a shell would
+ */
+export function expandHome(value: string): string {
+  if (value === "~") return os.homedir();
+  return value.startsWith("~/") ? path.join(os.homedir(), value.slice(2)) : value;
+}
+
+/**
+ * Split a config line into keyword and arguments, honoring `Keyword=value` and double quotes
+ */
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const re = /"([^"]*)"|([^\s"]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(line)) !== null) {
+    tokens.push(match[1] ?? match[2]);
+  }
+  if (tokens.length > 0) {
+    const eq = tokens[0].indexOf("=");
+    if (eq !== -1) {
+      const [keyword, rest] = [tokens[0].slice(0, eq), tokens[0].slice(eq + 1)];
+      tokens.splice(0, 1, keyword, ...(rest ? [rest] : []));
+    } else if (tokens[1]?.startsWith("=")) {
+      const rest = tokens[1].slice(1);
+      tokens.splice(1, 1, ...(rest ? [rest] : []));
+    }
+  }
+  return tokens;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * OpenSSH Host matching: any positive pattern matches and no negated pattern matches
+ */
+export function hostPatternsMatch(patterns: string[], alias: string): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    if (pattern.startsWith("!")) {
+      if (globToRegExp(pattern.slice(1)).test(alias)) return false;
+    } else if (globToRegExp(pattern).test(alias)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Expand an Include argument into files, supporting `*` / `?` in the file name
+ */
+function expandInclude(arg: string, baseDir: string): string[] {
+  const expanded = expandHome(arg);
+  const full = path.isAbsolute(expanded) ? expanded : path.join(baseDir, expanded);
+  const dir = path.dirname(full);
+  const name = path.basename(full);
+
+  if (!/[*?]/.test(name)) return fs.existsSync(full) ? [full] : [];
+
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+  const re = globToRegExp(name);
+  return entries.filter((entry) => re.test(entry)).sort().map((entry) => path.join(dir, entry));
+}
+
+/**
+ * Flatten a config file (and its Includes) into scoped directives
+ *
+ * @param baseDir Directory relative Include paths resolve against (~/.ssh for user configs)
+ * @param scope Host patterns inherited from an enclosing Host block
+ */
+function readDirectives(file: string, baseDir: string, scope: string[] | null, depth: number): Directive[] {
+  if (depth > MAX_INCLUDE_DEPTH) {
+    throw new Error(`SSH config: Include nested too deeply at ${file}`);
+  }
+
+  const directives: Directive[] = [];
+  let patterns = scope;
+
+  for (const rawLine of fs.readFileSync(file, "utf8").split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const [word, ...args] = tokenize(line);
+    if (!word) continue;
+    const keyword = word.toLowerCase();
+
+    if (keyword === "host") {
+      patterns = args;
+    } else if (keyword === "match") {
+      // Match criteria (exec, user, ...) aren't evaluated; only `Match all` applies
+      patterns = args.length === 1 && args[0].toLowerCase() === "all" ? null : NEVER;
+    } else if (keyword === "include") {
+      for (const arg of args) {
+        for (const included of expandInclude(arg, baseDir)) {
+          directives.push(...readDirectives(included, baseDir, patterns, depth + 1));
+        }
+      }
+    } else if (SUPPORTED_KEYWORDS.has(keyword) && args.length > 0) {
+      directives.push({ patterns, keyword, args });
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Expand OpenSSH %-tokens used in HostName and IdentityFile
+ */
+function expandTokens(value: string, tokens: Record<string, string>): string {
+  return value.replace(/%(.)/g, (whole, token: string) => (token === "%" ? "%" : tokens[token] ?? whole));
+}
+
+/**
+ * Resolve an alias the way `ssh <alias>` would
+ *
+ * The first value seen for each keyword wins, so specific Host blocks must come
+ * before wildcard ones (as in OpenSSH). IdentityFile accumulates.
+ *
+ * @param file Config path (default: ~/.ssh/config)
+ */
+export function lookupSshConfig(alias: string, file = "~/.ssh/config"): SshConfigEntry {
+  const configPath = expandHome(file);
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`SSH config: ${configPath} not found`);
+  }
+
+  const values = new Map<string, string>();
+  const identityFiles: string[] = [];
+  for (const directive of readDirectives(configPath, path.dirname(configPath), null, 0)) {
+    if (directive.patterns && !hostPatternsMatch(directive.patterns, alias)) continue;
+    if (directive.keyword === "identityfile") {
+      identityFiles.push(directive.args[0]);
+    } else if (!values.has(directive.keyword)) {
+      values.set(directive.keyword, directive.args.join(" "));
+    }
+  }
+
+  const hostName = expandTokens(values.get("hostname") ?? alias, { h: alias });
+  const portValue = values.get("port");
+  const port = portValue ? Number(portValue) : undefined;
+  if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+    throw new Error(`SSH config: invalid Port "${portValue}" for ${alias}`);
+  }
+
+  const user = values.get("user");
+  const tokens = {
+    h: hostName,
+    n: alias,
+    p: String(port ?? 22),
+    r: user ?? os.userInfo().username,
+    u: os.userInfo().username,
+    d: os.homedir(),
+  };
+
+  return {
+    hostName,
+    port,
+    user,
+    identityFiles: identityFiles.map((f) => expandHome(expandTokens(f, tokens))),
+    proxyJump: values.get("proxyjump"),
+  };
+}
+
+/** Keys OpenSSH tries when a host has no IdentityFile */
+const DEFAULT_IDENTITY_FILES = ["~/.ssh/id_ed25519", "~/.ssh/id_ecdsa", "~/.ssh/id_rsa"];
+
+/**
+ * Connection settings for an alias, with ProxyJump hops resolved through the same config
+ *
+ * Fields the config doesn't set are left undefined so explicit env vars (or
+ * defaults) can fill them in.
+ */
+export function connectionFromSshConfig(
+  alias: string,
+  file?: string
+): Partial<Omit<SSHConnectionConfig, "jumpHosts">> & { jumpHosts?: Array<Partial<SSHConnectionConfig>> } {
+  const entry = lookupSshConfig(alias, file);
+  const identityFiles = entry.identityFiles.length > 0
+    ? entry.identityFiles
+    : DEFAULT_IDENTITY_FILES.map(expandHome).filter((f) => fs.existsSync(f));
+
+  const jumpHosts = entry.proxyJump
+    ? parseProxyJump(entry.proxyJump).map((hop) => {
+        // A hop may itself be an alias in the same config
+        const hopEntry = lookupSshConfig(hop.host, file);
+        return {
+          host: hopEntry.hostName,
+          port: hop.port ?? hopEntry.port,
+          username: hop.username ?? hopEntry.user,
+          privateKeyPath: hopEntry.identityFiles.length > 0 ? hopEntry.identityFiles.join(",") : undefined,
+        };
+      })
+    : undefined;
+
+  return {
+    host: entry.hostName,
+    port: entry.port,
+    username: entry.user ?? os.userInfo().username,
+    privateKeyPath: identityFiles.length > 0 ? identityFiles.join(",") : undefined,
+    jumpHosts,
+  };
+}
@@ -1,6 +1,11 @@
-import { Client } from "ssh2";
-import * as fs from "fs";
+import { Client, ClientChannel } from "ssh2";
+import { StringDecoder } from "string_decoder";
 import { logger } from "./logger.js";
+import { CircuitBreaker, CircuitSnapshot } from "./circuit-breaker.js";
+import { HostKeyChecking, parseHostKeyChecking, verifyHostKey } from "./host-keys.js";
+import { buildAuthOptions, hasCredentials } from "./ssh-auth.js";
+import { describeRoute, parseProxyJump, resolveJumpHosts } from "./jump-hosts.js";
+import { connectionFromSshConfig } from "./ssh-config.js";
 
 /**
  * Minimal surface of the ssh2 Client that SSHConnectionManager actually uses.
@@ -10,58 +15,230 @@ import { logger } from "./logger.js";
  * declarations that could trigger exponential union expansion in tsc.
  */
 interface NodeSSHClient {
-  connect(config: Record<string, unknown>): Promise<unknown>;
-  execCommand(command: string): Promise<{ stdout: string; stderr: string; code: number | null }>;
+  connect(config: SSHConnectionConfig): Promise<unknown>;
+  execCommand(command: string, options: ChannelOptions): Promise<ChannelResult>;
   dispose(): void;
 }
 
+/**
+ * Per-channel streaming options
+ */
+interface ChannelOptions {
+  /** Called with decoded output as it arrives (stdout and stderr interleaved) */
+  onData?: (chunk: string) => void;
+  /** Stop reading and close the channel once this many bytes have been received */
+  maxOutputBytes: number;
+  /** Aborting signals the remote process and closes the channel */
+  signal?: AbortSignal;
+}
+
+interface ChannelResult {
+  stdout: string;
+  stderr: string;
+  code: number | null;
+  /** True when output hit maxOutputBytes and the channel was closed early */
+  truncated: boolean;
+}
+
+/**
+ * Options for a single command
+ */
+export interface ExecOptions {
+  /** Receives partial output while the command runs */
+  onOutput?: (chunk: string) => void;
+  /** Timeout for this command (default: COMMAND_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Cancels the command, e.g. when the MCP client cancels the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Answer keyboard-interactive prompts (e.g. PAM "Password:") with the configured password
+ */
+function answerKeyboardInteractive(client: Client, getPassword: () => string | undefined): void {
+  client.on('keyboard-interactive', (_name, _instructions, _lang, prompts, finish) => {
+    const answer = getPassword() ?? "";
+    (finish as (answers: string[]) => void)((prompts as unknown[]).map(() => answer));
+  });
+}
+
+/**
+ * Connect one ssh2 Client, optionally over an existing stream (a jump host's forwarded channel)
+ */
+function connectClient(client: Client, config: SSHConnectionConfig, sock?: ClientChannel): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // ssh2 reports a rejected host key as a generic handshake error; keep our reason
+    let hostKeyRejection: string | null = null;
+
+    client.once('ready', () => resolve());
+    client.once('error', (err: Error) => reject(hostKeyRejection ? new Error(hostKeyRejection) : err));
+
+    let authOptions: Record<string, unknown>;
+    try {
+      authOptions = buildAuthOptions(config);
+    } catch (error) {
+      return reject(error);
+    }
+
+    const connectConfig: Record<string, unknown> = {
+      ...authOptions,
+      host: config.host,
+      port: config.port ?? 22,
+      username: config.username,
+      hostVerifier: (key: Buffer) => {
+        const verdict = verifyHostKey(key, {
+          host: config.host,
+          port: config.port ?? 22,
+          knownHostsFile: config.knownHostsFile,
+          hostFingerprint: config.hostFingerprint,
+          hostKeyChecking: config.hostKeyChecking,
+        });
+        if (!verdict.ok) hostKeyRejection = verdict.reason;
+        return verdict.ok;
+      },
+    };
+    if (sock) connectConfig.sock = sock;
+
+    client.connect(connectConfig as unknown as Parameters<Client['connect']>[0]);
+  });
+}
+
+/**
+ * Open a direct-tcpip channel from a jump host to the next hop
+ */
+function forwardOut(client: Client, host: string, port: number): Promise<ClientChannel> {
+  return new Promise((resolve, reject) => {
+    client.forwardOut("127.0.0.1", 0, host, port, (err, channel) => (err ? reject(err) : resolve(channel)));
+  });
+}
+
 /**
  * Adapter that wraps ssh2's callback-based Client in the NodeSSHClient interface.
  */
 class SSH2Adapter implements NodeSSHClient {
   private client: Client;
+  private password: string | undefined;
+  /** Jump host connections, in dial order; rebuilt on every connect */
+  private hops: Client[] = [];
 
   constructor() {
     this.client = new Client();
+    answerKeyboardInteractive(this.client, () => this.password);
   }
 
-  connect(config: Record<string, unknown>): Promise<unknown> {
-    return new Promise((resolve, reject) => {
-      this.client.once('ready', () => resolve(undefined));
-      this.client.once('error', (err: Error) => reject(err));
-
-      const connectConfig: Record<string, unknown> = {
-        host: config.host,
-        port: config.port ?? 22,
-        username: config.username,
-      };
+  /**
+   * Connect to the target, dialing through each jump host first.
+   * Any previous chain is torn down so a reconnect always starts from the first hop.
+   */
+  async connect(config: SSHConnectionConfig): Promise<unknown> {
+    this.password = config.password;
+    this.closeHops();
+
+    const jumpHosts = config.jumpHosts ?? [];
+    let sock: ClientChannel | undefined;
+
+    for (const [index, hop] of jumpHosts.entries()) {
+      const client = new Client();
+      answerKeyboardInteractive(client, () => hop.password);
+      this.hops.push(client);
+
+      const label = `jump host ${hop.username}@${hop.host}:${hop.port} (hop ${index + 1}/${jumpHosts.length})`;
+      try {
+        await connectClient(client, hop, sock);
+      } catch (error) {
+        this.closeHops();
+        throw new Error(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
 
-      if (config.password) {
-        connectConfig.password = config.password;
-      } else if (config.privateKeyPath) {
-        connectConfig.privateKey = fs.readFileSync(config.privateKeyPath as string);
+      const next = jumpHosts[index + 1] ?? config;
+      try {
+        sock = await forwardOut(client, next.host, next.port ?? 22);
+      } catch (error) {
+        this.closeHops();
+        throw new Error(
+          `${label} could not reach ${next.host}:${next.port ?? 22}: ${error instanceof Error ? error.message : String(error)}`
+        );
       }
+    }
 
-      this.client.connect(connectConfig as unknown as Parameters<Client['connect']>[0]);
-    });
+    try {
+      await connectClient(this.client, config, sock);
+    } catch (error) {
+      this.closeHops();
+      throw error;
+    }
+    return undefined;
+  }
+
+  private closeHops(): void {
+    // Close from the target side inwards so each tunnel is torn down before its carrier
+    for (const hop of this.hops.reverse()) hop.end();
+    this.hops = [];
   }
 
-  execCommand(command: string): Promise<{ stdout: string; stderr: string; code: number | null }> {
+  /**
+   * Run a command on a new exec channel, streaming output to `onData` and
+   * closing the channel once `maxOutputBytes` is reached
+   *
+   * When `signal` aborts, the command is sent SIGTERM and the channel is closed,
+   * so a timed-out or cancelled command doesn't keep running on the server.
+   * sshd runs each exec request in its own session and delivers the signal to
+   * that process group, so pipelines and child processes are stopped too.
+   */
+  execCommand(command: string, options: ChannelOptions): Promise<ChannelResult> {
     return new Promise((resolve, reject) => {
       this.client.exec(command, (err, stream) => {
         if (err) return reject(err);
 
+        const { signal } = options;
+        const abort = () => {
+          // Not every sshd honors signal requests; closing the channel hangs up regardless
+          try {
+            stream.signal('TERM');
+          } catch {
+            // Channel already closing
+          }
+          stream.close();
+          reject(signal?.reason ?? new Error("Command aborted"));
+        };
+        if (signal?.aborted) return abort();
+        signal?.addEventListener('abort', abort, { once: true });
+
         const stdoutChunks: Buffer[] = [];
         const stderrChunks: Buffer[] = [];
-
-        stream.stdout.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
-        stream.stderr.on('data', (chunk: Buffer) => stderrChunks.push(chunk));
+        let received = 0;
+        let truncated = false;
+
+        const collect = (chunks: Buffer[], decoder: StringDecoder) => (chunk: Buffer) => {
+          if (truncated) return;
+          const room = options.maxOutputBytes - received;
+          const kept = chunk.length > room ? chunk.subarray(0, room) : chunk;
+          chunks.push(kept);
+          received += kept.length;
+          if (options.onData && kept.length > 0) options.onData(decoder.write(kept));
+          if (chunk.length > room) {
+            truncated = true;
+            stream.close();
+          }
+        };
+
+        stream.stdout.on('data', collect(stdoutChunks, new StringDecoder('utf8')));
+        stream.stderr.on('data', collect(stderrChunks, new StringDecoder('utf8')));
 
         stream.on('close', (code: number | null) => {
+          signal?.removeEventListener('abort', abort);
+          let stdout = Buffer.concat(stdoutChunks).toString('utf8');
+          if (truncated) {
+            stdout +=
+              `\n\n[Output truncated: exceeded ${options.maxOutputBytes} bytes (MAX_OUTPUT_BYTES) and the command was stopped. ` +
+              `Narrow the query (filters, fewer lines, grep) to see the rest.]`;
+          }
           resolve({
-            stdout: Buffer.concat(stdoutChunks).toString('utf8'),
+            stdout,
             stderr: Buffer.concat(stderrChunks).toString('utf8'),
-            code,
+            // A channel we closed early has no exit status; the partial output is still valid
+            code: truncated ? 0 : code,
+            truncated,
           });
         });
       });
@@ -70,7 +247,128 @@ class SSH2Adapter implements NodeSSHClient {
 
   dispose(): void {
     this.client.end();
+    this.closeHops();
+  }
+}
+
+/**
+ * Counting semaphore that caps how many exec channels are open at once
+ */
+class ChannelLimiter {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    // Hand the slot straight to the next waiter so `active` never dips below the limit
+    if (next) next();
+    else this.active--;
+  }
+}
+
+/**
+ * One SSH connection in the pool and the number of exec channels it currently carries
+ */
+interface PooledConnection {
+  client: NodeSSHClient;
+  activeChannels: number;
+}
+
+/**
+ * Cheap command used to verify a recovered connection before closing the breaker
+ */
+const PROBE_COMMAND = "true";
+
+/**
+ * Connection settings for a single SSH target
+ */
+export interface SSHConnectionConfig {
+  host: string;
+  port: number;
+  username: string;
+  /** One or more private key paths, comma-separated, tried in order */
+  privateKeyPath?: string;
+  /** Passphrase for encrypted private keys */
+  passphrase?: string;
+  /** ssh-agent socket path */
+  agent?: string;
+  /** Password; also answers keyboard-interactive prompts */
+  password?: string;
+  /** known_hosts file used to verify the server (default: ~/.ssh/known_hosts) */
+  knownHostsFile?: string;
+  /** Pinned SHA256 host key fingerprint; takes precedence over known_hosts */
+  hostFingerprint?: string;
+  /** Host key checking policy (default: accept-new) */
+  hostKeyChecking?: HostKeyChecking;
+  /** Jump hosts to dial through, in order (like ProxyJump) */
+  jumpHosts?: SSHConnectionConfig[];
+}
+
+/**
+ * Build a connection config from the SSH_* environment variables
+ *
+ * With SSH_CONFIG_HOST set, HostName, Port, User, IdentityFile and ProxyJump
+ * come from that alias in ~/.ssh/config (or SSH_CONFIG_FILE); any explicit
+ * SSH_* variable still overrides the matching field.
+ */
+export function connectionConfigFromEnv(): SSHConnectionConfig {
+  const alias = process.env.SSH_CONFIG_HOST;
+  const fromConfig = alias ? connectionFromSshConfig(alias, process.env.SSH_CONFIG_FILE) : undefined;
+
+  const host = process.env.SSH_HOST ?? fromConfig?.host;
+  const port = process.env.SSH_PORT ? parseInt(process.env.SSH_PORT) : fromConfig?.port ?? 22;
+  const username = process.env.SSH_USERNAME ?? fromConfig?.username;
+  const privateKeyPath = process.env.SSH_PRIVATE_KEY_PATH ?? fromConfig?.privateKeyPath;
+  const passphrase = process.env.SSH_KEY_PASSPHRASE;
+  const agent = process.env.SSH_AUTH_SOCK;
+  const password = process.env.SSH_PASSWORD;
+
+  if (!host) throw new Error("SSH_HOST environment variable is required");
+  if (!username) throw new Error("SSH_USERNAME environment variable is required");
+  if (!hasCredentials({ privateKeyPath, password, agent })) {
+    throw new Error(
+      "No SSH credentials configured: set SSH_PRIVATE_KEY_PATH, SSH_PASSWORD or SSH_AUTH_SOCK (ssh-agent)"
+    );
+  }
+
+  const config: SSHConnectionConfig = {
+    host,
+    port,
+    username,
+    privateKeyPath,
+    passphrase,
+    agent,
+    password,
+    knownHostsFile: process.env.SSH_KNOWN_HOSTS_FILE,
+    hostFingerprint: process.env.SSH_HOST_FINGERPRINT,
+    hostKeyChecking: parseHostKeyChecking(process.env.SSH_HOST_KEY_CHECKING, "SSH_HOST_KEY_CHECKING"),
+  };
+
+  if (process.env.SSH_JUMP_HOSTS) {
+    // Hops share SSH_JUMP_* credentials when set, otherwise the target's key or agent (never its password)
+    const hopCredentials = {
+      privateKeyPath: process.env.SSH_JUMP_PRIVATE_KEY_PATH,
+      password: process.env.SSH_JUMP_PASSWORD,
+    };
+    config.jumpHosts = resolveJumpHosts(
+      parseProxyJump(process.env.SSH_JUMP_HOSTS).map((hop) => ({ ...hopCredentials, ...hop })),
+      config
+    );
+  } else if (fromConfig?.jumpHosts) {
+    config.jumpHosts = resolveJumpHosts(fromConfig.jumpHosts, config);
   }
+
+  return config;
 }
 
 /**
@@ -78,102 +376,205 @@ class SSH2Adapter implements NodeSSHClient {
  * Handles SSH connections to remote servers with auto-reconnect functionality
  */
 export class SSHConnectionManager {
-  private ssh: NodeSSHClient;
-  private config: {
-    host: string;
-    port: number;
-    username: string;
-    privateKeyPath?: string;
-    password?: string;
-  };
+  private pool: PooledConnection[];
+  private limiter: ChannelLimiter;
+  private connecting: Promise<void> | null = null;
+  private config: SSHConnectionConfig;
   private connected: boolean = false;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private baseBackoffMs: number = 1000;
   private commandTimeoutMs: number;
-  private maxConsecutiveFailures: number;
-  private consecutiveFailures: number = 0;
-  private circuitBreakerOpen: boolean = false;
-
-  constructor() {
-    this.ssh = new SSH2Adapter();
-
-    const host = process.env.SSH_HOST;
-    const port = process.env.SSH_PORT ? parseInt(process.env.SSH_PORT) : 22;
-    const username = process.env.SSH_USERNAME;
-    const privateKeyPath = process.env.SSH_PRIVATE_KEY_PATH;
-    const password = process.env.SSH_PASSWORD;
-
-    if (!host) throw new Error("SSH_HOST environment variable is required");
-    if (!username) throw new Error("SSH_USERNAME environment variable is required");
-    if (!privateKeyPath && !password) {
-      throw new Error("Either SSH_PRIVATE_KEY_PATH or SSH_PASSWORD environment variable is required");
-    }
-
-    this.config = { host, port, username, privateKeyPath, password };
+  private maxOutputBytes: number;
+  private breaker: CircuitBreaker;
+
+  /**
+   * @param config Connection settings; read from SSH_* environment variables when omitted
+   */
+  constructor(config?: SSHConnectionConfig) {
+    this.config = config ?? connectionConfigFromEnv();
+
+    // Commands are multiplexed as exec channels over a small pool of connections
+    const poolSize = process.env.SSH_POOL_SIZE ? Math.max(1, parseInt(process.env.SSH_POOL_SIZE)) : 1;
+    const maxConcurrency = process.env.SSH_MAX_CONCURRENCY
+      ? Math.max(1, parseInt(process.env.SSH_MAX_CONCURRENCY))
+      : 8;
+    this.pool = Array.from({ length: poolSize }, () => ({ client: new SSH2Adapter(), activeChannels: 0 }));
+    this.limiter = new ChannelLimiter(maxConcurrency);
 
     this.commandTimeoutMs = process.env.COMMAND_TIMEOUT_MS
       ? parseInt(process.env.COMMAND_TIMEOUT_MS)
       : 15000;
-    this.maxConsecutiveFailures = process.env.MAX_CONSECUTIVE_FAILURES
+    this.maxOutputBytes = process.env.MAX_OUTPUT_BYTES
+      ? parseInt(process.env.MAX_OUTPUT_BYTES)
+      : 2 * 1024 * 1024;
+    const maxConsecutiveFailures = process.env.MAX_CONSECUTIVE_FAILURES
       ? parseInt(process.env.MAX_CONSECUTIVE_FAILURES)
       : 3;
+    const cooldownMs = process.env.CIRCUIT_BREAKER_COOLDOWN_MS
+      ? parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS)
+      : 30000;
+    this.breaker = new CircuitBreaker(maxConsecutiveFailures, cooldownMs);
   }
 
+  /**
+   * Open every pooled connection. Concurrent callers share the same attempt.
+   */
   async connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.openPool().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async openPool(): Promise<void> {
     try {
-      await this.ssh.connect(this.config);
+      await Promise.all(this.pool.map((conn) => conn.client.connect(this.config)));
       this.connected = true;
       this.reconnectAttempts = 0;
-      logger.info(`Successfully connected to ${this.config.host}`);
+      const poolInfo = this.pool.length > 1 ? ` (${this.pool.length} pooled connections)` : "";
+      const route = this.config.jumpHosts?.length ? ` via ${describeRoute(this.config)}` : "";
+      logger.info(`Successfully connected to ${this.config.host}${route}${poolInfo}`);
     } catch (error) {
       this.connected = false;
       throw new Error(`Failed to connect to SSH server: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Reconnect with exponential backoff, giving up after maxReconnectAttempts
+   */
   private async reconnect(): Promise<void> {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      throw new Error(`Failed to reconnect after ${this.maxReconnectAttempts} attempts`);
+    for (;;) {
+      if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+        throw new Error(`Failed to reconnect after ${this.maxReconnectAttempts} attempts`);
+      }
+
+      this.reconnectAttempts++;
+      const backoffMs = this.baseBackoffMs * Math.pow(2, this.reconnectAttempts - 1);
+      logger.warn(`Attempting to reconnect (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${backoffMs}ms...`);
+      await new Promise(resolve => setTimeout(resolve, backoffMs));
+
+      try {
+        await this.connect();
+        return;
+      } catch (error) {
+        logger.warn(`Reconnect attempt ${this.reconnectAttempts} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
+  }
 
-    this.reconnectAttempts++;
-    const backoffMs = this.baseBackoffMs * Math.pow(2, this.reconnectAttempts - 1);
-    logger.warn(`Attempting to reconnect (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${backoffMs}ms...`);
-    await new Promise(resolve => setTimeout(resolve, backoffMs));
-    await this.connect();
+  /**
+   * Replace every pooled client with a fresh one so a probe never reuses a dead socket
+   */
+  private resetPool(): void {
+    for (const conn of this.pool) {
+      try {
+        conn.client.dispose();
+      } catch {
+        // Already closed
+      }
+    }
+    this.pool = this.pool.map(() => ({ client: new SSH2Adapter(), activeChannels: 0 }));
+    this.connected = false;
+  }
+
+  /**
+   * Half-open trial: reconnect with backoff, then run a single cheap command.
+   * Success closes the breaker; failure re-opens it for another cool-down.
+   */
+  private async probe(): Promise<void> {
+    logger.info(`Circuit breaker half-open for ${this.config.host}, probing connection...`);
+    try {
+      this.resetPool();
+      this.reconnectAttempts = 0;
+      await this.reconnect();
+      const result = await this.runCommand(PROBE_COMMAND);
+      if (result.exitCode !== 0) {
+        throw new Error(`probe command exited with ${result.exitCode}`);
+      }
+      logger.info(`Circuit breaker closed for ${this.config.host}: connection recovered`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.breaker.recordProbeFailure(message);
+      logger.error(`Circuit breaker probe failed for ${this.config.host}: ${message}`);
+      throw new Error(`Reconnect probe failed: ${message}. ${this.circuitOpenMessage()}`);
+    }
   }
 
-  async executeCommand(command: string): Promise<{ stdout: string; stderr: string; exitCode: number }> {
-    if (this.circuitBreakerOpen) {
-      throw new Error(
-        `Circuit breaker is open after ${this.consecutiveFailures} consecutive failures. ` +
-        `Please check server health or restart the MCP server to reset.`
-      );
+  /**
+   * Explain why commands are being rejected and when the next retry happens
+   */
+  private circuitOpenMessage(): string {
+    const status = this.breaker.snapshot();
+    if (status.state === "half_open") {
+      return `Circuit breaker for ${this.config.host} is half-open: a reconnect probe is in progress. Retry shortly.`;
     }
 
+    const retryIn = Math.max(0, Math.ceil(((status.nextRetryAt ?? Date.now()) - Date.now()) / 1000));
+    const retryAt = status.nextRetryAt ? new Date(status.nextRetryAt).toISOString() : "unknown";
+    return (
+      `Circuit breaker for ${this.config.host} is open after ${status.consecutiveFailures} consecutive failures` +
+      (status.lastError ? ` (last error: ${status.lastError})` : "") +
+      `. Next reconnect attempt at ${retryAt} (in ${retryIn}s). ` +
+      `Use the connection tool to check status.`
+    );
+  }
+
+  async executeCommand(
+    command: string,
+    options: ExecOptions = {}
+  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+    const decision = this.breaker.check();
+    if (decision === "reject") {
+      throw new Error(this.circuitOpenMessage());
+    }
+    if (decision === "probe") {
+      await this.probe();
+    }
+
+    return this.runCommand(command, options);
+  }
+
+  private async runCommand(
+    command: string,
+    options: ExecOptions = {}
+  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
     let timeoutId: NodeJS.Timeout | null = null;
+    let conn: PooledConnection | null = null;
+    const timeoutMs = options.timeoutMs ?? this.commandTimeoutMs;
+    const cancelled = () => new Error("Command cancelled by the client; the remote process was stopped");
+
+    if (options.signal?.aborted) throw cancelled();
 
     try {
       if (!this.connected) {
         await this.connect();
       }
 
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        timeoutId = setTimeout(() => {
-          reject(new Error(`TIMEOUT: Command timed out after ${this.commandTimeoutMs}ms`));
-        }, this.commandTimeoutMs);
-      });
+      await this.limiter.acquire();
+      conn = this.leastBusyConnection();
+      conn.activeChannels++;
 
-      const result = await Promise.race([
-        this.ssh.execCommand(command),
-        timeoutPromise,
-      ]);
+      const controller = new AbortController();
+      timeoutId = setTimeout(() => {
+        controller.abort(new Error(`TIMEOUT: Command timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      const result = await conn.client.execCommand(command, {
+        onData: options.onOutput,
+        maxOutputBytes: this.maxOutputBytes,
+        signal: options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal,
+      });
 
       if (timeoutId) clearTimeout(timeoutId);
 
-      this.consecutiveFailures = 0;
-      this.circuitBreakerOpen = false;
+      this.breaker.recordSuccess();
+      if (result.truncated) {
+        logger.warn(`Output of command on ${this.config.host} truncated at ${this.maxOutputBytes} bytes`);
+      }
 
       return {
         stdout: result.stdout,
@@ -183,25 +584,27 @@ export class SSHConnectionManager {
     } catch (error) {
       if (timeoutId) clearTimeout(timeoutId);
 
-      this.consecutiveFailures++;
+      // A cancelled call says nothing about the host's health
+      if (options.signal?.aborted) throw cancelled();
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
 
-      if (this.consecutiveFailures >= this.maxConsecutiveFailures) {
-        this.circuitBreakerOpen = true;
+      if (this.breaker.recordFailure(errorMessage)) {
+        const { consecutiveFailures, cooldownMs } = this.breaker.snapshot();
         logger.error(
-          `Circuit breaker opened after ${this.consecutiveFailures} consecutive failures. ` +
-          `Future commands will fail immediately until the MCP server is restarted.`
+          `Circuit breaker opened for ${this.config.host} after ${consecutiveFailures} consecutive failures. ` +
+          `Commands will fail immediately for ${cooldownMs}ms, then a reconnect probe will run.`
         );
       }
 
-      const errorMessage = error instanceof Error ? error.message : String(error);
       const isTimeout = errorMessage.includes("TIMEOUT:");
       const isConnection = errorMessage.toLowerCase().includes("connection");
 
       if (isTimeout) {
         throw new Error(
-          `Command timed out after ${this.commandTimeoutMs}ms. ` +
+          `Command timed out after ${timeoutMs}ms and was stopped. ` +
           `The command may be hung or taking too long. ` +
-          `Consider increasing COMMAND_TIMEOUT_MS if this is a long-running operation.`
+          `Pass a larger timeoutMs for this call, or raise COMMAND_TIMEOUT_MS if this is a long-running operation.`
         );
       }
 
@@ -215,18 +618,44 @@ export class SSHConnectionManager {
       }
 
       throw new Error(`Failed to execute command: ${errorMessage}`);
+    } finally {
+      if (conn) {
+        conn.activeChannels--;
+        this.limiter.release();
+      }
     }
   }
 
+  /**
+   * Pick the pooled connection carrying the fewest open channels
+   */
+  private leastBusyConnection(): PooledConnection {
+    return this.pool.reduce((best, conn) => (conn.activeChannels < best.activeChannels ? conn : best));
+  }
+
+  /**
+   * Current circuit breaker state for diagnostics
+   */
+  getCircuitStatus(): CircuitSnapshot {
+    return this.breaker.snapshot();
+  }
+
+  /**
+   * Get the hostname this manager connects to
+   */
+  getHost(): string {
+    return this.config.host;
+  }
+
   isConnected(): boolean {
     return this.connected;
   }
 
   async disconnect(): Promise<void> {
     if (this.connected) {
-      this.ssh.dispose();
+      for (const conn of this.pool) conn.client.dispose();
       this.connected = false;
-      logger.info("Disconnected from SSH server");
+      logger.info(`Disconnected from ${this.config.host}`);
     }
   }
 }
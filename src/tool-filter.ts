@@ -0,0 +1,98 @@
+import * as fs from "fs";
+
+/**
+ * Allow/deny lists of tools (`docker`) and actions (`docker:env`)
+ *
+ * The shape of TOOLS_CONFIG_FILE.
+ */
+export interface ToolFilterConfig {
+  /** When non-empty, only these tools and actions are registered */
+  allow?: string[];
+  /** Never registered; wins over allow */
+  deny?: string[];
+}
+
+const ENTRY = /^[a-z][a-z0-9_]*(:[a-z][a-z0-9_]*)?$/;
+
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Decides which tools and actions get registered
+ *
+ * A `tool` entry covers every action of the tool; a `tool:action` entry covers
+ * one action. With an allow list, a tool is registered when it or any of its
+ * actions is allowed, and only its allowed actions are kept.
+ */
+export class ToolFilter {
+  private allow: Set<string>;
+  private deny: Set<string>;
+  private matched = new Set<string>();
+
+  constructor(config: ToolFilterConfig = {}) {
+    for (const entry of [...(config.allow ?? []), ...(config.deny ?? [])]) {
+      if (!ENTRY.test(entry)) {
+        throw new Error(`Tool filter: invalid entry "${entry}" (expected "tool" or "tool:action")`);
+      }
+    }
+    this.allow = new Set(config.allow);
+    this.deny = new Set(config.deny);
+  }
+
+  allowsTool(tool: string): boolean {
+    this.match(tool);
+    if (this.deny.has(tool)) return false;
+    if (this.allow.size === 0 || this.allow.has(tool)) return true;
+    return Array.from(this.allow).some((entry) => entry.startsWith(`${tool}:`));
+  }
+
+  allowsAction(tool: string, action: string): boolean {
+    const entry = `${tool}:${action}`;
+    this.match(entry);
+    if (this.deny.has(tool) || this.deny.has(entry)) return false;
+    return this.allow.size === 0 || this.allow.has(tool) || this.allow.has(entry);
+  }
+
+  /**
+   * Entries that haven't matched any tool or action checked so far (likely typos)
+   */
+  unmatched(): string[] {
+    return [...this.allow, ...this.deny].filter((entry) => !this.matched.has(entry));
+  }
+
+  private match(entry: string): void {
+    if (this.allow.has(entry) || this.deny.has(entry)) this.matched.add(entry);
+  }
+}
+
+/**
+ * Load the tool filter
+ *
+ * Reads TOOLS_CONFIG_FILE (JSON `{ "allow": [...], "deny": [...] }`) when set;
+ * TOOLS_ALLOW and TOOLS_DENY (comma-separated) replace the file's lists.
+ */
+export function loadToolFilter(env: NodeJS.ProcessEnv = process.env): ToolFilter {
+  let config: ToolFilterConfig = {};
+  if (env.TOOLS_CONFIG_FILE) {
+    try {
+      config = JSON.parse(fs.readFileSync(env.TOOLS_CONFIG_FILE, "utf8"));
+    } catch (error) {
+      throw new Error(`Tool filter: cannot read ${env.TOOLS_CONFIG_FILE} - ${error instanceof Error ? error.message : String(error)}`);
+    }
+    for (const key of ["allow", "deny"] as const) {
+      const list = config[key];
+      if (list !== undefined && !(Array.isArray(list) && list.every((entry) => typeof entry === "string"))) {
+        throw new Error(`Tool filter: "${key}" in ${env.TOOLS_CONFIG_FILE} must be an array of strings`);
+      }
+    }
+  }
+
+  return new ToolFilter({
+    allow: env.TOOLS_ALLOW !== undefined ? parseList(env.TOOLS_ALLOW) : config.allow,
+    deny: env.TOOLS_DENY !== undefined ? parseList(env.TOOLS_DENY) : config.deny,
+  });
+}
@@ -1,5 +1,9 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { Platform, SSHExecutor } from "./platforms/types.js";
+import { PlatformToolModule } from "./platforms/types.js";
+import { HostRegistry } from "./host-registry.js";
+import { isReadOnlyMode, wrapLocalToolServer, wrapToolServer } from "./tool-registrar.js";
+import { ToolFilter } from "./tool-filter.js";
+import { Redactor } from "./redaction.js";
 import { logger } from "./logger.js";
 
 // Core tools - always loaded regardless of platform
@@ -13,61 +17,121 @@ import {
   registerPerformanceTools,
   registerVMTools,
   registerContainerTopologyTools,
+  registerComposeTools,
   registerHealthDiagnosticsTools,
   registerFileWriteTools,
+  registerConnectionTools,
+  registerAuditTools,
 } from "./tools/core/index.js";
 
 /**
- * Load all tools for a given platform
+ * A tool registered by loadTools, with the actions left after filtering
+ */
+export interface LoadedTool {
+  name: string;
+  actions: string[];
+  /** Whether the tool comes from a platform module rather than the core set */
+  platform: boolean;
+}
+
+/**
+ * Collect the platform tool modules needed across all hosts, de-duplicated by name
+ */
+function collectPlatformModules(hosts: HostRegistry): PlatformToolModule[] {
+  const modules = new Map<string, PlatformToolModule>();
+  for (const host of hosts.list()) {
+    for (const module of host.platform?.getToolModules() ?? []) {
+      if (!modules.has(module.name)) modules.set(module.name, module);
+    }
+  }
+  return Array.from(modules.values());
+}
+
+/**
+ * Load all tools for the hosts in the registry
  *
  * 1. Load core tools (always loaded, work on any Linux system)
- * 2. Load platform-specific tools based on detected platform
+ * 2. Load platform-specific tools for every platform detected across the hosts;
+ *    calls targeting a host without that platform are rejected
+ *
+ * Every tool is registered through wrapToolServer, which adds the `host`
+ * parameter and routes commands through the selected host's connection,
+ * except connection and audit, which span every host (wrapLocalToolServer).
+ * Tools and actions disabled by the tool filter are left out, as are
+ * file_write and mutating actions in READ_ONLY mode. Every result has
+ * secrets masked by the redactor.
+ *
+ * @returns The registered tools and their enabled actions
  */
 export function loadTools(
   server: McpServer,
-  executor: SSHExecutor,
-  platform: Platform
-): void {
+  hosts: HostRegistry,
+  filter: ToolFilter = new ToolFilter(),
+  redactor: Redactor = new Redactor()
+): LoadedTool[] {
+  const loaded: LoadedTool[] = [];
+  const executor = hosts.routingExecutor();
+  const localServer = wrapLocalToolServer(server, {
+    filter,
+    redactor,
+    onRegister: (name, actions) => loaded.push({ name, actions, platform: false }),
+  });
+  const coreServer = wrapToolServer(server, hosts, {
+    filter,
+    redactor,
+    onRegister: (name, actions) => loaded.push({ name, actions, platform: false }),
+  });
+
   // 1. Register core tools (always loaded)
-  registerDockerTools(server, executor);
-  registerSystemTools(server, executor);
-  registerMonitoringTools(server, executor);
-  registerSecurityTools(server, executor);
-  registerLogAnalysisTools(server, executor);
-  registerResourceManagementTools(server, executor);
-  registerPerformanceTools(server, executor);
-  registerVMTools(server, executor);
-  registerContainerTopologyTools(server, executor);
-  registerHealthDiagnosticsTools(server, executor);
-  registerFileWriteTools(server, executor);
+  registerDockerTools(coreServer, executor);
+  registerSystemTools(coreServer, executor);
+  registerMonitoringTools(coreServer, executor);
+  registerSecurityTools(coreServer, executor);
+  registerLogAnalysisTools(coreServer, executor);
+  registerResourceManagementTools(coreServer, executor);
+  registerPerformanceTools(coreServer, executor);
+  registerVMTools(coreServer, executor);
+  registerContainerTopologyTools(coreServer, executor);
+  registerComposeTools(coreServer, executor);
+  registerHealthDiagnosticsTools(coreServer, executor);
+  if (!isReadOnlyMode()) registerFileWriteTools(coreServer, executor);
+
+  // Connection diagnostics read manager state directly and span all hosts
+  registerConnectionTools(localServer, hosts);
+
+  // The audit tool reads the local audit log, which covers all hosts
+  if (hosts.auditLog) registerAuditTools(localServer, hosts.auditLog);
 
   // 2. Register platform-specific tools
-  const platformModules = platform.getToolModules();
+  const platformModules = collectPlatformModules(hosts);
 
   // Sort by priority (higher priority first)
   platformModules.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
 
   for (const module of platformModules) {
     logger.debug(`Loading platform tool module: ${module.name}`);
-    module.register(server, executor);
+    const moduleServer = wrapToolServer(server, hosts, {
+      isAvailable: (host) => host.platform?.getToolModules().some((m) => m.name === module.name) ?? false,
+      filter,
+      redactor,
+      onRegister: (name, actions) => loaded.push({ name, actions, platform: true }),
+    });
+    module.register(moduleServer, executor);
   }
 
-  logger.debug(`Loaded tools for platform: ${platform.displayName}`);
+  logger.debug(`Loaded tools for hosts: ${hosts.names().join(", ")}`);
+  return loaded;
 }
 
 /**
- * Count the total number of tools loaded
+ * Count the tools and actions loadTools registered
  */
-export function countTools(platform: Platform): { core: number; platform: number; total: number } {
-  // Core tools: 11 tools
-  const core = 11;
-
-  // Platform-specific tools count
-  const platformCount = platform.getToolModules().length;
-
+export function countTools(tools: LoadedTool[]): { core: number; platform: number; total: number; actions: number } {
+  const platform = tools.filter((tool) => tool.platform).length;
   return {
-    core,
-    platform: platformCount,
-    total: core + platformCount,
+    core: tools.length - platform,
+    platform,
+    total: tools.length,
+    actions: tools.reduce((sum, tool) => sum + tool.actions.length, 0),
   };
 }
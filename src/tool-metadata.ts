@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+/**
+ * Metadata a tool module declares about one of its actions
+ */
+export interface ActionMetadata {
+  /**
+   * Default per-command timeout for the action. A function receives the call's
+   * arguments so actions like `track_metric` can scale with their duration.
+   */
+  timeoutMs?: number | ((args: Record<string, unknown>) => number);
+  /**
+   * Schema of the action's structured result; declared actions return it via
+   * `structuredResult()`, the rest return `{ output }` with their text
+   */
+  output?: z.ZodTypeAny;
+  /** Changes state on the host (writes files, starts processes, ...); hidden in READ_ONLY mode */
+  mutating?: boolean;
+  /** Deletes or overwrites existing data; implies mutating */
+  destructive?: boolean;
+  /** Reaches systems outside the inventory (e.g. downloads from a URL) */
+  openWorld?: boolean;
+}
+
+const registry = new Map<string, Record<string, ActionMetadata>>();
+
+/**
+ * Declare metadata for a tool's actions
+ *
+ * Called by tool modules next to their `server.tool(...)` registration; the
+ * tool registrar reads it back when the tool is invoked.
+ *
+ * @example
+ * ```ts
+ * defineActions("performance", {
+ *   bottleneck: { timeoutMs: 30_000 },
+ *   track_metric: { timeoutMs: (args) => ((args.durationSeconds as number ?? 30) + 15) * 1000 },
+ * });
+ * ```
+ */
+export function defineActions(tool: string, actions: Record<string, ActionMetadata>): void {
+  registry.set(tool, { ...registry.get(tool), ...actions });
+}
+
+/**
+ * Metadata for a tool action, if the tool declared any
+ */
+export function getActionMetadata(tool: string, action: unknown): ActionMetadata | undefined {
+  if (typeof action !== "string") return undefined;
+  return registry.get(tool)?.[action];
+}
+
+/**
+ * Default command timeout for a call, or undefined to use COMMAND_TIMEOUT_MS
+ */
+export function defaultTimeoutFor(tool: string, args: Record<string, unknown>): number | undefined {
+  const timeout = getActionMetadata(tool, args.action)?.timeoutMs;
+  return typeof timeout === "function" ? timeout(args) : timeout;
+}
+
+/**
+ * Result schemas declared by a tool's actions, keyed by action
+ */
+export function outputSchemasFor(tool: string): Record<string, z.ZodTypeAny> {
+  const schemas: Record<string, z.ZodTypeAny> = {};
+  for (const [action, metadata] of Object.entries(registry.get(tool) ?? {})) {
+    if (metadata.output) schemas[action] = metadata.output;
+  }
+  return schemas;
+}
+
+/**
+ * Whether an action changes state on the host
+ */
+export function isMutatingAction(tool: string, action: string): boolean {
+  const metadata = getActionMetadata(tool, action);
+  return Boolean(metadata?.mutating || metadata?.destructive);
+}
+
+/**
+ * MCP annotations for a tool, derived from the metadata of the actions it exposes
+ *
+ * Set explicitly because the MCP defaults assume the worst (not read-only,
+ * destructive, open world).
+ */
+export function toolAnnotations(tool: string, actions: readonly string[]): {
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+  openWorldHint: boolean;
+} {
+  const metadata = actions.map((action) => getActionMetadata(tool, action) ?? {});
+  return {
+    readOnlyHint: !actions.some((action) => isMutatingAction(tool, action)),
+    destructiveHint: metadata.some((m) => m.destructive === true),
+    openWorldHint: metadata.some((m) => m.openWorld === true),
+  };
+}
@@ -0,0 +1,285 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { HostRegistry, ManagedHost } from "./host-registry.js";
+import { runWithCallContext } from "./call-context.js";
+import { createProgressReporter } from "./progress.js";
+import { logger } from "./logger.js";
+import { ToolFilter } from "./tool-filter.js";
+import { Redactor } from "./redaction.js";
+import { defaultTimeoutFor, isMutatingAction, outputSchemasFor, toolAnnotations } from "./tool-metadata.js";
+import { OUTPUT_FORMATS, OutputFormat, ToolResult, formatToolResult, toolOutputSchema } from "./output.js";
+
+type ToolArgs = Record<string, unknown>;
+type ToolHandler = (args: ToolArgs, extra?: unknown) => Promise<ToolResult>;
+
+/**
+ * The `server.tool(name, description, schema, handler)` overload that every
+ * tool module uses. Registering through these narrow signatures keeps tsc from
+ * expanding the SDK's full overload sets against our wrapped schemas.
+ */
+type ToolRegistration = (
+  name: string,
+  description: string,
+  schema: Record<string, z.ZodTypeAny>,
+  handler: ToolHandler
+) => unknown;
+
+/** `server.registerTool(name, config, handler)`, which also takes an outputSchema */
+type ToolConfigRegistration = (
+  name: string,
+  config: {
+    description: string;
+    inputSchema: Record<string, z.ZodTypeAny>;
+    outputSchema: z.ZodTypeAny;
+    annotations: ReturnType<typeof toolAnnotations>;
+  },
+  handler: ToolHandler
+) => unknown;
+
+export interface ToolRegistrarOptions {
+  /**
+   * Whether the tools being registered can run on a given host.
+   * Used for platform-specific modules when hosts run different platforms.
+   */
+  isAvailable?: (host: ManagedHost) => boolean;
+  /** Allow/deny lists for tools and actions (default: everything) */
+  filter?: ToolFilter;
+  /** Called with each registered tool and the actions it kept */
+  onRegister?: (name: string, actions: string[]) => void;
+  /** Masks secrets in every result (default: results are returned as-is) */
+  redactor?: Redactor;
+}
+
+/** Upper bound for the per-call `timeoutMs` argument (default: 10 minutes) */
+function maxCommandTimeoutMs(): number {
+  const value = Number(process.env.MAX_COMMAND_TIMEOUT_MS);
+  return Number.isInteger(value) && value > 0 ? value : 600000;
+}
+
+/**
+ * Whether READ_ONLY is set: mutating tools and actions are then never registered
+ */
+export function isReadOnlyMode(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.READ_ONLY === "true";
+}
+
+/**
+ * Drop actions from the "Actions: a, b (note), c." list in a tool description
+ */
+function pruneDescription(description: string, actions: string[]): string {
+  return actions.reduce((text, action) => {
+    const item = `${action}(?: \\([^)]*\\))?`;
+    return text.replace(new RegExp(`\\b${item}, `), "").replace(new RegExp(`, ${item}(?!\\w)`), "");
+  }, description);
+}
+
+/**
+ * Apply the tool filter and READ_ONLY mode to a tool
+ *
+ * Removes disabled actions from the `action` enum and the description.
+ * Returns undefined when the tool is disabled or has no actions left.
+ */
+function enabledActions(
+  name: string,
+  schema: Record<string, z.ZodTypeAny>,
+  description: string,
+  filter: ToolFilter | undefined,
+  readOnly: boolean
+): { actions: string[]; schema: Record<string, z.ZodTypeAny>; description: string } | undefined {
+  if (filter && !filter.allowsTool(name)) {
+    logger.debug(`Tool "${name}" disabled by the tool filter`);
+    return undefined;
+  }
+  const actionSchema = schema.action instanceof z.ZodEnum ? (schema.action as z.ZodEnum<[string, ...string[]]>) : undefined;
+  if (!actionSchema) return { actions: [], schema, description };
+
+  const actions: string[] = [...actionSchema.options];
+  const hidden = actions.filter(
+    (action) => (readOnly && isMutatingAction(name, action)) || (filter && !filter.allowsAction(name, action))
+  );
+  if (hidden.length === actions.length) {
+    logger.debug(`Tool "${name}" has no enabled actions`);
+    return undefined;
+  }
+  if (hidden.length === 0) return { actions, schema, description };
+  return {
+    actions: actions.filter((action) => !hidden.includes(action)),
+    schema: { ...schema, action: actionSchema.exclude(hidden as [string, ...string[]]) },
+    description: pruneDescription(description, hidden),
+  };
+}
+
+const outputFormatParameter = z
+  .enum(OUTPUT_FORMATS)
+  .optional()
+  .describe("Response format: text (default), json (the structured result), or markdown");
+
+const redactParameter = z.boolean().optional().describe("Set to false to return secrets unmasked (default: true)");
+
+function errorResult(text: string): ToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+/**
+ * Wrap an McpServer so tool modules registered through it become host-aware
+ *
+ * - Adds a `host` parameter to every tool when the inventory has more than one host
+ * - Runs each handler inside a call context naming the target host, which the
+ *   routing executor uses to pick the right SSH connection
+ * - Streams partial command output as progress notifications when the client
+ *   sends a progressToken, masked by the redactor like the final result
+ * - Stops running commands when the client cancels the request
+ * - Adds a `timeoutMs` parameter; commands run with it, or with the action's
+ *   declared default (see tool-metadata), instead of COMMAND_TIMEOUT_MS
+ * - Declares an outputSchema, returns every result as `structuredContent`, and
+ *   adds an `outputFormat` parameter (text, json or markdown; see output.ts)
+ * - Declares MCP annotations from the actions' metadata
+ * - Removes actions disabled by the tool filter or READ_ONLY mode from the
+ *   `action` enum and the description, and skips tools that have nothing left
+ * - Masks secrets in results with the redactor; when it allows opting out,
+ *   adds a `redact` parameter that turns masking off for one call
+ *
+ * Tool modules are unchanged: they keep calling `server.tool(...)` with a plain executor.
+ */
+export function wrapToolServer(
+  server: McpServer,
+  hosts: HostRegistry,
+  options: ToolRegistrarOptions = {}
+): McpServer {
+  const register = server.registerTool.bind(server) as unknown as ToolConfigRegistration;
+  const hostNames = hosts.names();
+  const multiHost = hostNames.length > 1;
+  const maxTimeoutMs = maxCommandTimeoutMs();
+  const readOnly = isReadOnlyMode();
+
+  const tool: ToolRegistration = (name, description, schema, handler) => {
+    for (const reserved of ["host", "timeoutMs", "outputFormat", "redact"]) {
+      if (reserved in schema) {
+        throw new Error(`Tool "${name}" already defines a "${reserved}" parameter`);
+      }
+    }
+
+    const enabled = enabledActions(name, schema, description, options.filter, readOnly);
+    if (!enabled) return undefined;
+    const { actions, schema: toolSchema, description: toolDescription } = enabled;
+
+    const shape: Record<string, z.ZodTypeAny> = {
+      ...toolSchema,
+      timeoutMs: z
+        .number()
+        .int()
+        .positive()
+        .max(maxTimeoutMs)
+        .optional()
+        .describe(`Per-command timeout in ms for this call (max ${maxTimeoutMs}); raise for slow operations`),
+      outputFormat: outputFormatParameter,
+    };
+    if (options.redactor?.allowOptOut) {
+      shape.redact = redactParameter;
+    }
+    if (multiHost) {
+      shape.host = z.enum(hostNames as [string, ...string[]]).optional().describe(`Target host (default: ${hosts.defaultHost})`);
+    }
+
+    const outputSchema = toolOutputSchema(outputSchemasFor(name));
+
+    const annotations = toolAnnotations(name, actions);
+    options.onRegister?.(name, actions);
+
+    return register(name, { description: toolDescription, inputSchema: shape, outputSchema, annotations }, async (args, extra) => {
+      const { host: requestedHost, timeoutMs: requestedTimeout, outputFormat, redact, ...toolArgs } = args;
+
+      let target: ManagedHost;
+      try {
+        target = hosts.get(requestedHost as string | undefined);
+      } catch (error) {
+        return errorResult(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      if (options.isAvailable && !options.isAvailable(target)) {
+        const platform = target.platform ? target.platform.displayName : "unknown platform";
+        return errorResult(`Error: tool "${name}" is not available on host "${target.name}" (${platform})`);
+      }
+
+      const redactor = redact === false && options.redactor?.allowOptOut ? undefined : options.redactor;
+      const progress = createProgressReporter(extra, redactor && ((text) => redactor.redactText(text)));
+      try {
+        const timeoutMs = (requestedTimeout as number | undefined) ?? defaultTimeoutFor(name, toolArgs);
+        const format = outputFormat as OutputFormat | undefined;
+        const action = typeof toolArgs.action === "string" ? toolArgs.action : undefined;
+        const { signal, authInfo } = (extra ?? {}) as { signal?: AbortSignal; authInfo?: { clientId?: string } };
+        const result = await runWithCallContext(
+          {
+            host: target.name,
+            onOutput: progress?.onOutput,
+            timeoutMs,
+            signal,
+            outputFormat: format,
+            tool: name,
+            action,
+            args: toolArgs,
+            clientId: authInfo?.clientId,
+          },
+          () => handler(toolArgs, extra)
+        );
+        const formatted = formatToolResult(result, { host: target.name, action }, format);
+        return redactor ? redactor.redactResult(formatted) : formatted;
+      } finally {
+        progress?.finish();
+      }
+    });
+  };
+
+  // Inherit everything else from the real server; only tool registration is intercepted
+  const wrapped = Object.create(server) as McpServer;
+  (wrapped as unknown as { tool: ToolRegistration }).tool = tool;
+  return wrapped;
+}
+
+/**
+ * Wrap an McpServer for tools that span every host (connection, audit)
+ *
+ * These read local state rather than running commands, and keep their own
+ * `host` parameter as a filter, so no `host` or `timeoutMs` is added and the
+ * result envelope has no `host`. Otherwise they get what wrapToolServer adds:
+ * the outputSchema and `outputFormat` parameter, annotations from the actions'
+ * metadata, the tool filter and READ_ONLY mode applied to its actions, and
+ * masking by the redactor with its `redact` opt-out.
+ */
+export function wrapLocalToolServer(server: McpServer, options: ToolRegistrarOptions = {}): McpServer {
+  const register = server.registerTool.bind(server) as unknown as ToolConfigRegistration;
+
+  const tool: ToolRegistration = (name, description, schema, handler) => {
+    for (const reserved of ["outputFormat", "redact"]) {
+      if (reserved in schema) {
+        throw new Error(`Tool "${name}" already defines a "${reserved}" parameter`);
+      }
+    }
+
+    const enabled = enabledActions(name, schema, description, options.filter, isReadOnlyMode());
+    if (!enabled) return undefined;
+    const { actions } = enabled;
+    const shape: Record<string, z.ZodTypeAny> = { ...enabled.schema, outputFormat: outputFormatParameter };
+    if (options.redactor?.allowOptOut) {
+      shape.redact = redactParameter;
+    }
+
+    const outputSchema = toolOutputSchema(outputSchemasFor(name), false);
+    const annotations = toolAnnotations(name, actions);
+    options.onRegister?.(name, actions);
+
+    return register(name, { description: enabled.description, inputSchema: shape, outputSchema, annotations }, async (args, extra) => {
+      const { outputFormat, redact, ...toolArgs } = args;
+      const format = outputFormat as OutputFormat | undefined;
+      const action = typeof toolArgs.action === "string" ? toolArgs.action : undefined;
+      const redactor = redact === false && options.redactor?.allowOptOut ? undefined : options.redactor;
+      const result = await runWithCallContext({ outputFormat: format, tool: name, action }, () => handler(toolArgs, extra));
+      const formatted = formatToolResult(result, { action }, format);
+      return redactor ? redactor.redactResult(formatted) : formatted;
+    });
+  };
+
+  const wrapped = Object.create(server) as McpServer;
+  (wrapped as unknown as { tool: ToolRegistration }).tool = tool;
+  return wrapped;
+}
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AuditLog, AuditRecord } from "../../audit-log.js";
+import { defineActions } from "../../tool-metadata.js";
+import { markdownTable, structuredResult } from "../../output.js";
+
+export const auditActions = ["recent", "verify"] as const;
+
+const recentOutput = z.object({
+  entries: z.array(z.object({
+    timestamp: z.string(),
+    host: z.string(),
+    tool: z.string().optional(),
+    action: z.string().optional(),
+    args: z.record(z.unknown()).optional(),
+    clientId: z.string().optional(),
+    command: z.string(),
+    exitCode: z.number().nullable().describe("null when the command never ran"),
+    durationMs: z.number(),
+    outputBytes: z.number(),
+    error: z.string().optional(),
+    prevHash: z.string().optional(),
+    hash: z.string().optional(),
+  })),
+});
+
+const verifyOutput = z.object({
+  intact: z.boolean(),
+  records: z.number(),
+});
+
+function recordSource(record: AuditRecord): string {
+  return record.tool ? `${record.tool}${record.action ? `/${record.action}` : ""}` : "internal";
+}
+
+function recordOutcome(record: AuditRecord): string {
+  return record.exitCode === null ? `error: ${record.error ?? "unknown"}` : `exit=${record.exitCode}`;
+}
+
+function formatRecord(record: AuditRecord): string {
+  const source = recordSource(record);
+  const outcome = recordOutcome(record);
+  const client = record.clientId ? ` client=${record.clientId}` : "";
+  return `${record.timestamp} [${record.host}] ${source}${client} ${outcome} ${record.durationMs}ms ${record.outputBytes}B\n  $ ${record.command}`;
+}
+
+/**
+ * Audit log queries
+ *
+ * Registered through wrapLocalToolServer rather than the host wrapper: the
+ * log is local to this server and covers every host, so there is no command
+ * to route.
+ */
+export function registerAuditTools(
+  server: McpServer,
+  auditLog: AuditLog
+): void {
+  defineActions("audit", {
+    recent: { output: recentOutput },
+    verify: { output: verifyOutput },
+  });
+
+  server.tool(
+    "audit",
+    "Audit log of commands run on remote hosts. Actions: recent (latest entries, optionally filtered by host/tool/since), verify (check the hash chain for tampering).",
+    {
+      action: z.enum(auditActions).describe("Action"),
+      limit: z.number().int().positive().max(1000).optional().describe("Entries to return (default: 50)"),
+      host: z.string().optional().describe("Only entries for this host"),
+      tool: z.string().optional().describe("Only entries issued by this tool"),
+      since: z.string().optional().describe("Only entries at or after this ISO timestamp"),
+    },
+    async (args) => {
+      try {
+        switch (args.action) {
+          case "recent": {
+            const since = args.since ? new Date(args.since) : undefined;
+            if (since && isNaN(since.getTime())) {
+              return { content: [{ type: "text", text: `Error: invalid since timestamp "${args.since}"` }], isError: true };
+            }
+            const entries = await auditLog.query({ limit: args.limit, host: args.host, tool: args.tool, since });
+            return structuredResult({ entries }, (data, format) => {
+              if (data.entries.length === 0) return "No matching audit entries";
+              if (format === "markdown") {
+                return markdownTable(["Time", "Host", "Tool", "Outcome", "Duration", "Command"],
+                  data.entries.map((r) => [r.timestamp, r.host, recordSource(r), recordOutcome(r), `${r.durationMs}ms`, `\`${r.command}\``]));
+              }
+              return `Audit Log (${data.entries.length} entries):\n\n${data.entries.map(formatRecord).join("\n")}`;
+            });
+          }
+
+          case "verify": {
+            if (!auditLog.hashChain) {
+              return { content: [{ type: "text", text: "Error: hash chain is not enabled (set AUDIT_LOG_HASH_CHAIN=true)" }], isError: true };
+            }
+            const result = await auditLog.verify();
+            if (result.brokenAt !== undefined) {
+              return { content: [{ type: "text", text: `Audit log chain BROKEN at entry ${result.brokenAt} of ${result.records}: ${result.reason}` }], isError: true };
+            }
+            return structuredResult({ intact: true, records: result.records }, (data) => `Audit log chain intact (${data.records} entries)`);
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
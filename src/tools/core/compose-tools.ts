@@ -0,0 +1,306 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { defineActions } from "../../tool-metadata.js";
+import { markdownTable, structuredResult } from "../../output.js";
+import { containerName, raw, sh } from "../../shell.js";
+
+type SSHExecutor = (command: string) => Promise<string>;
+
+const composeActions = ["list_projects", "status", "config", "diff"] as const;
+
+interface ComposeContainer {
+  name: string;
+  service: string;
+  image: string;
+  state: string;
+  health?: string;
+  ports: string[];
+  env: Record<string, string>;
+}
+
+interface ComposeProject {
+  name: string;
+  workingDir?: string;
+  configFiles: string[];
+  containers: ComposeContainer[];
+}
+
+const projectListOutput = z.object({
+  projects: z.array(z.object({
+    name: z.string(),
+    workingDir: z.string().optional(),
+    configFiles: z.array(z.string()),
+    services: z.number(),
+    running: z.number(),
+    containers: z.number(),
+  })),
+});
+
+const statusOutput = z.object({
+  project: z.string(),
+  configFiles: z.array(z.string()),
+  services: z.array(z.object({
+    service: z.string(),
+    running: z.number(),
+    containers: z.array(z.object({
+      name: z.string(),
+      image: z.string(),
+      state: z.string(),
+      health: z.string().optional(),
+      ports: z.array(z.string()),
+    })),
+  })),
+});
+
+const diffOutput = z.object({
+  project: z.string(),
+  inSync: z.boolean(),
+  services: z.array(z.object({
+    service: z.string(),
+    issues: z.array(z.string()),
+  })),
+});
+
+/** `[host_ip:]published:target/protocol`, or `target/protocol` when not published */
+function formatPort(target: string, published?: string, hostIp?: string): string {
+  if (!published) return target;
+  const ip = hostIp && hostIp !== "0.0.0.0" ? `${hostIp}:` : "";
+  return `${ip}${published}:${target}`;
+}
+
+/** Add the implicit `:latest` tag so `nginx` and `nginx:latest` compare equal */
+function normalizeImage(image: string): string {
+  const name = image.split("/").pop() ?? image;
+  return name.includes(":") || name.includes("@") ? image : `${image}:latest`;
+}
+
+function parseComposeContainers(inspectData: any[]): ComposeProject[] {
+  const projects = new Map<string, ComposeProject>();
+  for (const c of inspectData) {
+    const labels: Record<string, string> = c.Config?.Labels ?? {};
+    const projectName = labels["com.docker.compose.project"];
+    if (!projectName) continue;
+    let project = projects.get(projectName);
+    if (!project) {
+      project = {
+        name: projectName,
+        workingDir: labels["com.docker.compose.project.working_dir"],
+        configFiles: (labels["com.docker.compose.project.config_files"] ?? "").split(",").filter(f => f),
+        containers: [],
+      };
+      projects.set(projectName, project);
+    }
+    const ports: string[] = [];
+    for (const [target, bindings] of Object.entries(c.HostConfig?.PortBindings ?? {})) {
+      for (const b of (bindings as any[] | null) ?? [{}]) ports.push(formatPort(target, b.HostPort, b.HostIp));
+    }
+    const env: Record<string, string> = {};
+    for (const entry of (c.Config?.Env ?? []) as string[]) {
+      const i = entry.indexOf("=");
+      if (i > 0) env[entry.substring(0, i)] = entry.substring(i + 1);
+    }
+    const name = c.Name.startsWith("/") ? c.Name.substring(1) : c.Name;
+    project.containers.push({
+      name,
+      service: labels["com.docker.compose.service"] ?? name,
+      image: c.Config?.Image ?? "",
+      state: c.State?.Status ?? "unknown",
+      ...(c.State?.Health ? { health: c.State.Health.Status } : {}),
+      ports: ports.sort(),
+      env,
+    });
+  }
+  return Array.from(projects.values());
+}
+
+/** Find compose projects from the labels compose puts on every container it creates */
+async function discoverProjects(sshExecutor: SSHExecutor): Promise<ComposeProject[]> {
+  const ids = (await sshExecutor("docker ps -aq --filter label=com.docker.compose.project")).trim().split("\n").filter(id => id.trim());
+  if (ids.length === 0) return [];
+  return parseComposeContainers(JSON.parse(await sshExecutor(sh`docker inspect ${ids}`)));
+}
+
+/** `docker compose` with the project's directory and config files, as compose itself recorded them */
+function composeCommand(project: ComposeProject, subcommand: string): string {
+  const directory = project.workingDir ? sh` --project-directory ${project.workingDir}` : "";
+  const files = project.configFiles.flatMap(file => ["-f", file]);
+  return sh`docker compose${raw(directory)} -p ${project.name} ${files} ${raw(subcommand)}`;
+}
+
+function serviceCount(project: ComposeProject): number {
+  return new Set(project.containers.map(c => c.service)).size;
+}
+
+/**
+ * Compare the services declared in `docker compose config --format json`
+ * with the project's containers
+ */
+function diffProject(project: ComposeProject, config: any): z.infer<typeof diffOutput> {
+  const declared: Record<string, any> = config.services ?? {};
+  const services: Array<{ service: string; issues: string[] }> = [];
+
+  for (const [service, definition] of Object.entries(declared)) {
+    const issues: string[] = [];
+    const containers = project.containers.filter(c => c.service === service);
+    if (containers.length === 0) issues.push("no container (not created or removed)");
+
+    const image = definition.image ?? `${project.name}-${service}`;
+    const ports = ((definition.ports ?? []) as any[])
+      .map(p => formatPort(`${p.target}/${p.protocol ?? "tcp"}`, p.published !== undefined ? String(p.published) : undefined, p.host_ip))
+      .sort();
+    const environment: Record<string, string | null> = definition.environment ?? {};
+
+    for (const c of containers) {
+      const prefix = containers.length > 1 ? `${c.name}: ` : "";
+      if (normalizeImage(c.image) !== normalizeImage(image)) issues.push(`${prefix}image declared ${image}, running ${c.image}`);
+      if (ports.join(",") !== c.ports.join(",")) {
+        issues.push(`${prefix}ports declared [${ports.join(", ")}], running [${c.ports.join(", ")}]`);
+      }
+      // Values aren't shown: env often holds secrets
+      const missing = Object.keys(environment).filter(key => environment[key] !== null && !(key in c.env));
+      const changed = Object.keys(environment).filter(key => environment[key] !== null && key in c.env && c.env[key] !== environment[key]);
+      if (changed.length) issues.push(`${prefix}env differs: ${changed.join(", ")}`);
+      if (missing.length) issues.push(`${prefix}env missing: ${missing.join(", ")}`);
+      if (c.state !== "running") issues.push(`${prefix}container ${c.state}`);
+    }
+    services.push({ service, issues });
+  }
+
+  for (const service of new Set(project.containers.map(c => c.service))) {
+    if (!(service in declared)) services.push({ service, issues: ["not in the compose file (orphan)"] });
+  }
+
+  return { project: project.name, inSync: services.every(s => s.issues.length === 0), services };
+}
+
+export function registerComposeTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  defineActions("compose", {
+    list_projects: { output: projectListOutput },
+    status: { output: statusOutput },
+    config: { timeoutMs: 60000 },
+    diff: { output: diffOutput, timeoutMs: 60000 },
+  });
+
+  server.tool(
+    "compose",
+    "Docker Compose ops, with projects found from container labels. Actions: list_projects, status (per-service state), config (read and validate the compose files), diff (declared services, images, ports and env vs running).",
+    {
+      action: z.enum(composeActions).describe("Action"),
+      project: z.string().optional().describe("Compose project name"),
+      ...outputFiltersSchema.shape,
+    },
+    async (args) => {
+      try {
+        if (args.action === "list_projects") {
+          const projects = (await discoverProjects(sshExecutor)).map(p => ({
+            name: p.name,
+            ...(p.workingDir ? { workingDir: p.workingDir } : {}),
+            configFiles: p.configFiles,
+            services: serviceCount(p),
+            running: p.containers.filter(c => c.state === "running").length,
+            containers: p.containers.length,
+          }));
+          return structuredResult({ projects }, (data, format) => {
+            if (data.projects.length === 0) return "No compose projects.";
+            if (format === "markdown") {
+              return markdownTable(["Project", "Services", "Running", "Config files"],
+                data.projects.map(p => [p.name, String(p.services), `${p.running}/${p.containers}`, p.configFiles.join(", ")]), args);
+            }
+            const text = data.projects.map(p =>
+              `Project: ${p.name}\nDirectory: ${p.workingDir ?? "unknown"}\nConfig: ${p.configFiles.join(", ") || "unknown"}\nServices: ${p.services} (${p.running}/${p.containers} containers running)\n`
+            ).join("\n---\n\n");
+            return `Compose Projects:\n\n${applyFiltersToText(text, args)}`;
+          });
+        }
+
+        if (!args.project) return { content: [{ type: "text", text: "Error: project required" }], isError: true };
+        const projectName = containerName(args.project, "project name");
+        const project = (await discoverProjects(sshExecutor)).find(p => p.name === projectName);
+        if (!project) {
+          return { content: [{ type: "text", text: `Compose project "${projectName}" not found (no containers carry its labels).` }], isError: true };
+        }
+        if (args.action !== "status" && project.configFiles.length === 0) {
+          return { content: [{ type: "text", text: `Error: project "${projectName}" has no config_files label` }], isError: true };
+        }
+
+        switch (args.action) {
+          case "status": {
+            const services = new Map<string, ComposeContainer[]>();
+            for (const c of project.containers) {
+              if (!services.has(c.service)) services.set(c.service, []);
+              services.get(c.service)!.push(c);
+            }
+            const status = {
+              project: project.name,
+              configFiles: project.configFiles,
+              services: Array.from(services.entries()).map(([service, containers]) => ({
+                service,
+                running: containers.filter(c => c.state === "running").length,
+                containers: containers.map(({ name, image, state, health, ports }) => ({ name, image, state, ...(health ? { health } : {}), ports })),
+              })),
+            };
+            return structuredResult(status, (data, format) => {
+              if (format === "markdown") {
+                return `**${data.project}**\n\n` + markdownTable(["Service", "Container", "State", "Image", "Ports"],
+                  data.services.flatMap(s => s.containers.map(c =>
+                    [s.service, c.name, `${c.state}${c.health ? ` (${c.health})` : ""}`, c.image, c.ports.join(", ")]
+                  )), args);
+              }
+              let result = `Compose Project: ${data.project}\n` + "=".repeat(60) + "\n";
+              result += `Config: ${data.configFiles.join(", ") || "unknown"}\n\n`;
+              for (const s of data.services) {
+                result += `${s.service} (${s.running}/${s.containers.length} running)\n`;
+                for (const c of s.containers) {
+                  result += `  ${c.name}: ${c.state}${c.health ? ` (${c.health})` : ""} - ${c.image}\n`;
+                  if (c.ports.length) result += `    Ports: ${c.ports.join(", ")}\n`;
+                }
+              }
+              return applyFiltersToText(result, args);
+            });
+          }
+
+          case "config": {
+            const files = await Promise.all(project.configFiles.map(async file => {
+              try {
+                return `=== ${file} ===\n${await sshExecutor(sh`cat ${file}`)}`;
+              } catch (error) {
+                return `=== ${file} ===\nUnreadable: ${error instanceof Error ? error.message : String(error)}`;
+              }
+            }));
+            let validation: string;
+            try {
+              await sshExecutor(composeCommand(project, "config --quiet"));
+              validation = "Valid";
+            } catch (error) {
+              validation = `Invalid - ${error instanceof Error ? error.message : String(error)}`;
+            }
+            const text = `Compose Config - ${project.name}\nValidation: ${validation}\n\n${files.join("\n\n")}`;
+            return { content: [{ type: "text", text: applyFiltersToText(text, args) }] };
+          }
+
+          case "diff": {
+            const config = JSON.parse(await sshExecutor(composeCommand(project, "config --format json")));
+            return structuredResult(diffProject(project, config), (data, format) => {
+              const header = data.inSync
+                ? `Compose project ${data.project} matches its compose file (${data.services.length} services).`
+                : `Compose project ${data.project} drifted from its compose file:`;
+              const drifted = data.services.filter(s => s.issues.length > 0);
+              const lines = drifted.map(s =>
+                format === "markdown"
+                  ? `- **${s.service}**\n${s.issues.map(i => `  - ${i}`).join("\n")}`
+                  : `${s.service}:\n${s.issues.map(i => `  - ${i}`).join("\n")}`
+              );
+              return applyFiltersToText([header, ...lines].join("\n\n"), args);
+            });
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { HostRegistry, ManagedHost } from "../../host-registry.js";
+import { defineActions } from "../../tool-metadata.js";
+import { markdownTable, structuredResult } from "../../output.js";
+
+export const connectionActions = ["status"] as const;
+
+const hostStatusSchema = z.object({
+  name: z.string(),
+  address: z.string(),
+  connected: z.boolean(),
+  platform: z.string().optional().describe("Unset until the platform is detected"),
+  circuit: z.object({
+    state: z.enum(["closed", "open", "half_open"]),
+    consecutiveFailures: z.number(),
+    failureThreshold: z.number(),
+    cooldownMs: z.number(),
+    openedAt: z.string().optional().describe("ISO time the breaker last opened"),
+    nextRetryAt: z.string().optional().describe("ISO time of the next probe while open"),
+    lastError: z.string().optional(),
+  }),
+});
+
+const connectionStatusOutput = z.object({
+  hosts: z.array(hostStatusSchema),
+});
+
+type HostStatus = z.infer<typeof hostStatusSchema>;
+
+function isoTime(ms: number | null): string | undefined {
+  return ms === null ? undefined : new Date(ms).toISOString();
+}
+
+function hostStatus(host: ManagedHost): HostStatus {
+  const circuit = host.manager.getCircuitStatus();
+  const openedAt = isoTime(circuit.openedAt);
+  const nextRetryAt = isoTime(circuit.nextRetryAt);
+  return {
+    name: host.name,
+    address: host.config.host,
+    connected: host.manager.isConnected(),
+    ...(host.platform ? { platform: host.platform.displayName } : {}),
+    circuit: {
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      failureThreshold: circuit.failureThreshold,
+      cooldownMs: circuit.cooldownMs,
+      ...(openedAt ? { openedAt } : {}),
+      ...(nextRetryAt ? { nextRetryAt } : {}),
+      ...(circuit.lastError ? { lastError: circuit.lastError } : {}),
+    },
+  };
+}
+
+function formatHostStatus(host: HostStatus, now: number): string {
+  const { circuit } = host;
+  const lines = [
+    `=== ${host.name} (${host.address}) ===`,
+    `Connected: ${host.connected ? "yes" : "no"}`,
+    `Platform: ${host.platform ?? "not detected"}`,
+    `Circuit breaker: ${circuit.state}`,
+    `Consecutive failures: ${circuit.consecutiveFailures}/${circuit.failureThreshold}`,
+  ];
+
+  if (circuit.state !== "closed") {
+    lines.push(`Opened at: ${circuit.openedAt ?? "-"}`);
+    if (circuit.state === "open" && circuit.nextRetryAt) {
+      const retryIn = Math.max(0, Math.ceil((Date.parse(circuit.nextRetryAt) - now) / 1000));
+      lines.push(`Next retry: ${circuit.nextRetryAt} (in ${retryIn}s)`);
+    } else {
+      lines.push("Next retry: probe in progress");
+    }
+    lines.push(`Cool-down: ${circuit.cooldownMs}ms`);
+  }
+  if (circuit.lastError) lines.push(`Last error: ${circuit.lastError}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Connection diagnostics
+ *
+ * Registered through wrapLocalToolServer rather than the host wrapper: with no
+ * `host` it reports every host instead of just the default one, so it defines
+ * its own `host` parameter.
+ */
+export function registerConnectionTools(
+  server: McpServer,
+  hosts: HostRegistry
+): void {
+  defineActions("connection", {
+    status: { output: connectionStatusOutput },
+  });
+
+  server.tool(
+    "connection",
+    "SSH connection diagnostics. Actions: status (connection and circuit breaker state per host, with next retry time when open).",
+    {
+      action: z.enum(connectionActions).describe("Action"),
+      host: z.string().optional().describe("Host name (default: all hosts)"),
+    },
+    async (args) => {
+      try {
+        switch (args.action) {
+          case "status": {
+            const targets = args.host ? [hosts.get(args.host)] : hosts.list();
+            return structuredResult({ hosts: targets.map(hostStatus) }, (data, format) => {
+              if (format === "markdown") {
+                return markdownTable(["Host", "Connected", "Platform", "Circuit", "Failures", "Last error"],
+                  data.hosts.map((h) => [
+                    h.name,
+                    h.connected ? "yes" : "no",
+                    h.platform ?? "not detected",
+                    h.circuit.state,
+                    `${h.circuit.consecutiveFailures}/${h.circuit.failureThreshold}`,
+                    h.circuit.lastError ?? "",
+                  ]));
+              }
+              const now = Date.now();
+              return `Connection Status:\n\n${data.hosts.map((host) => formatHostStatus(host, now)).join("\n\n")}`;
+            });
+          }
+
+          default:
+            return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
+        }
+      } catch (error) {
+        return { content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    }
+  );
+}
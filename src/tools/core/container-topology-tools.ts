@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { containerName, hostName, sh } from "../../shell.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
@@ -57,7 +58,7 @@ export function registerContainerTopologyTools(server: McpServer, sshExecutor: S
       action: z.enum(topologyActions).describe("Action"),
       container: z.string().optional().describe("Container"),
       type: z.enum(["ping", "dns", "traceroute", "container"]).optional().describe("Test type"),
-      host: z.string().optional().describe("Target host"),
+      target: z.string().optional().describe("Target host"),
       fromContainer: z.string().optional().describe("Source container"),
       port: z.number().optional().describe("Port"),
       dnsServer: z.string().optional().describe("DNS server"),
@@ -161,49 +162,51 @@ export function registerContainerTopologyTools(server: McpServer, sshExecutor: S
           }
 
           case "network_test": {
-            if (!args.type || !args.host) return { content: [{ type: "text", text: "Error: type and host required" }], isError: true };
+            if (!args.type || !args.target) return { content: [{ type: "text", text: "Error: type and target required" }], isError: true };
+            const target = hostName(args.target);
             let result = "";
             switch (args.type) {
               case "ping": {
                 const count = args.count ?? 4;
-                let cmd = applyFilters(`ping -c ${count} ${args.host}`, args);
+                let cmd = applyFilters(sh`ping -c ${count} ${target}`, args);
                 const output = await sshExecutor(cmd);
-                result = `Ping Test\n${"=".repeat(60)}\n\nHost: ${args.host}\n\n${output}`;
+                result = `Ping Test\n${"=".repeat(60)}\n\nHost: ${args.target}\n\n${output}`;
                 break;
               }
               case "dns": {
-                result = `DNS Test\n${"=".repeat(60)}\n\nHostname: ${args.host}\n`;
-                let cmd = args.dnsServer ? `nslookup ${args.host} ${args.dnsServer}` : `nslookup ${args.host}`;
+                result = `DNS Test\n${"=".repeat(60)}\n\nHostname: ${args.target}\n`;
+                const dnsServer = args.dnsServer ? hostName(args.dnsServer, "DNS server") : undefined;
+                let cmd = dnsServer ? sh`nslookup ${target} ${dnsServer}` : sh`nslookup ${target}`;
                 cmd = applyFilters(cmd, args);
                 try {
                   result += await sshExecutor(cmd);
                 } catch {
-                  cmd = args.dnsServer ? `dig @${args.dnsServer} ${args.host}` : `dig ${args.host}`;
+                  cmd = dnsServer ? sh`dig ${`@${dnsServer}`} ${target}` : sh`dig ${target}`;
                   try { result += await sshExecutor(cmd); }
                   catch { result += "Both nslookup and dig failed.\n"; }
                 }
                 break;
               }
               case "traceroute": {
-                result = `Traceroute\n${"=".repeat(60)}\n\nHost: ${args.host}\n\n`;
+                result = `Traceroute\n${"=".repeat(60)}\n\nHost: ${args.target}\n\n`;
                 try {
-                  let cmd = applyFilters(`traceroute ${args.host}`, args);
+                  let cmd = applyFilters(sh`traceroute ${target}`, args);
                   result += await sshExecutor(cmd);
                 } catch {
-                  try { result += await sshExecutor(`tracepath ${args.host}`); }
+                  try { result += await sshExecutor(sh`tracepath ${target}`); }
                   catch { result += "Both traceroute and tracepath failed.\n"; }
                 }
                 break;
               }
               case "container": {
                 if (!args.fromContainer) return { content: [{ type: "text", text: "Error: fromContainer required" }], isError: true };
-                result = `Container Test\n${"=".repeat(60)}\n\nFrom: ${args.fromContainer}\nTo: ${args.host}\n`;
+                result = `Container Test\n${"=".repeat(60)}\n\nFrom: ${args.fromContainer}\nTo: ${args.target}\n`;
                 if (args.port) {
-                  let cmd = applyFilters(`docker exec ${args.fromContainer} sh -c "command -v nc >/dev/null 2>&1 && nc -zv ${args.host} ${args.port} 2>&1 || echo 'netcat not available'"`, args);
+                  let cmd = applyFilters(sh`docker exec ${containerName(args.fromContainer)} sh -c ${sh`command -v nc >/dev/null 2>&1 && nc -zv ${target} ${args.port} 2>&1 || echo 'netcat not available'`}`, args);
                   const output = await sshExecutor(cmd);
                   result += `Port: ${args.port}\n\n${output}`;
                 } else {
-                  let cmd = applyFilters(`docker exec ${args.fromContainer} ping -c 4 ${args.host}`, args);
+                  let cmd = applyFilters(sh`docker exec ${containerName(args.fromContainer)} ping -c 4 ${target}`, args);
                   result += "\n" + await sshExecutor(cmd);
                 }
                 break;
@@ -1,22 +1,312 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { runBatch } from "../../batch.js";
+import { defineActions } from "../../tool-metadata.js";
+import { markdownTable, structuredResult } from "../../output.js";
+import { containerName, hostName, raw, sh } from "../../shell.js";
+import { fetchRemoteDigest, parseImageReference } from "../../image-registry.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
+const lifecycleActions = ["start", "stop", "restart", "pause", "unpause", "kill"] as const;
+
 const dockerActions = [
   "list_containers", "inspect", "logs", "stats", "port",
   "env", "top", "health", "logs_aggregate",
-  "list_networks", "inspect_network", "list_volumes", "inspect_volume", "network_containers"
+  "list_networks", "inspect_network", "list_volumes", "inspect_volume", "network_containers",
+  "image_updates", "events", "watch_events", "exec", "exec_probe", ...lifecycleActions,
 ] as const;
 
+const containerListOutput = z.object({
+  containers: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    image: z.string(),
+    status: z.string(),
+    state: z.string(),
+    ports: z.string(),
+  })),
+});
+
+const networkListOutput = z.object({
+  networks: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    driver: z.string(),
+    scope: z.string(),
+  })),
+});
+
+const volumeListOutput = z.object({
+  volumes: z.array(z.object({
+    name: z.string(),
+    driver: z.string(),
+    scope: z.string(),
+    mountpoint: z.string().optional(),
+  })),
+});
+
+const containerHealthOutput = z.object({
+  containers: z.array(z.object({
+    name: z.string(),
+    state: z.string(),
+    health: z.enum(["healthy", "unhealthy", "starting", "no healthcheck"]),
+  })),
+});
+
+const containerStateOutput = z.object({
+  status: z.string(),
+  health: z.string().optional(),
+  startedAt: z.string(),
+  exitCode: z.number(),
+});
+
+const lifecycleOutput = z.object({
+  container: z.string(),
+  command: z.string(),
+  dryRun: z.boolean(),
+  before: containerStateOutput,
+  after: containerStateOutput.optional(),
+});
+
+type ContainerState = z.infer<typeof containerStateOutput>;
+
+const imageUpdatesOutput = z.object({
+  images: z.array(z.object({
+    image: z.string(),
+    containers: z.array(z.string()),
+    status: z.enum(["current", "stale", "pinned", "local", "unknown"]),
+    latestTag: z.boolean(),
+    created: z.string().optional(),
+    ageDays: z.number().optional(),
+    localDigests: z.array(z.string()),
+    remoteDigest: z.string().optional(),
+    error: z.string().optional(),
+  })),
+});
+
+type ImageUpdate = z.infer<typeof imageUpdatesOutput>["images"][number];
+
+/** The `docker inspect` fields image_updates reads */
+interface InspectedContainer {
+  Name: string;
+  /** Image ID the container runs */
+  Image: string;
+  Config?: { Image?: string };
+}
+
+/** The `docker image inspect` fields image_updates reads */
+interface InspectedImage {
+  Id: string;
+  RepoDigests?: string[];
+  Created?: string;
+}
+
+const eventTypes = ["die", "oom", "health_status", "restart", "start", "stop", "kill"] as const;
+
+/** One event per line: unix time, container name, action, exit code (die only) */
+const EVENT_FORMAT = '{{.Time}}\t{{.Actor.Attributes.name}}\t{{.Action}}\t{{index .Actor.Attributes "exitCode"}}';
+
+/** Longest `watch_events` window, so a watch can't hold a connection indefinitely */
+const MAX_WATCH_SECONDS = 600;
+
+const eventsOutput = z.object({
+  events: z.array(z.object({
+    time: z.string(),
+    container: z.string(),
+    action: z.string(),
+    exitCode: z.number().optional(),
+  })),
+  containers: z.array(z.object({
+    container: z.string(),
+    counts: z.record(z.number()),
+    exitCodes: z.array(z.number()),
+    first: z.string(),
+    last: z.string(),
+  })),
+});
+
+type EventsResult = z.infer<typeof eventsOutput>;
+
+function parseEvents(output: string, exitCodes?: number[]): EventsResult["events"] {
+  return output.split("\n").filter(line => line.trim()).flatMap(line => {
+    const [time, container, action, exitCode] = line.split("\t");
+    if (!container || !action) return [];
+    const code = exitCode ? Number(exitCode) : undefined;
+    // exitCodes narrows die events; other events have no exit code and are kept
+    if (exitCodes && action === "die" && (code === undefined || !exitCodes.includes(code))) return [];
+    return [{ time: new Date(Number(time) * 1000).toISOString(), container, action, ...(code !== undefined ? { exitCode: code } : {}) }];
+  });
+}
+
+function summarizeEvents(events: EventsResult["events"]): EventsResult {
+  const containers = new Map<string, EventsResult["containers"][number]>();
+  for (const event of events) {
+    let summary = containers.get(event.container);
+    if (!summary) {
+      summary = { container: event.container, counts: {}, exitCodes: [], first: event.time, last: event.time };
+      containers.set(event.container, summary);
+    }
+    summary.counts[event.action] = (summary.counts[event.action] ?? 0) + 1;
+    if (event.exitCode !== undefined && !summary.exitCodes.includes(event.exitCode)) summary.exitCodes.push(event.exitCode);
+    summary.last = event.time;
+  }
+  return { events, containers: Array.from(containers.values()) };
+}
+
+function renderEvents(title: string, data: EventsResult, format: "text" | "markdown"): string {
+  if (data.events.length === 0) return `${title}: no matching events.`;
+  const describe = (c: EventsResult["containers"][number]) => {
+    const counts = Object.entries(c.counts).map(([action, count]) => `${action} x${count}`).join(", ");
+    const codes = c.exitCodes.length ? `; exit codes ${c.exitCodes.join(", ")}` : "";
+    const loop = (c.counts.die ?? 0) >= 3 ? " (possible restart loop)" : "";
+    return `${counts}${codes}${loop}`;
+  };
+  const recent = data.events.slice(-20);
+  if (format === "markdown") {
+    return `**${title}** (${data.events.length} events)\n\n| Container | Events | From | To |\n|---|---|---|---|\n` +
+      data.containers.map(c => `| ${c.container} | ${describe(c)} | ${c.first} | ${c.last} |`).join("\n");
+  }
+  return `${title} (${data.events.length} events, ${data.containers.length} containers):\n\n` +
+    data.containers.map(c => `${c.container}: ${describe(c)}\n  ${c.first} - ${c.last}`).join("\n") +
+    `\n\nRecent events:\n` +
+    recent.map(e => `${e.time} ${e.container} ${e.action}${e.exitCode !== undefined ? ` (exit ${e.exitCode})` : ""}`).join("\n");
+}
+
+const execProbes = ["read_file", "list_dir", "processes", "dns", "http_get"] as const;
+
+/**
+ * Binaries `exec` may run when DOCKER_EXEC_ALLOWED_BINARIES is unset: read-only diagnostics, no shells.
+ * `find` can write or run other programs, so EXEC_DENIED_ARGUMENTS limits it; curl and wget can
+ * send container files anywhere and are only allowed when configured (exec_probe http_get covers GETs)
+ */
+const DEFAULT_EXEC_BINARIES = [
+  "cat", "ls", "head", "tail", "grep", "find", "stat", "df", "du", "ps", "id", "hostname", "uname", "date",
+  "nslookup", "dig", "getent", "ping", "netstat", "ss", "ip",
+];
+
+/**
+ * Arguments that make an allowed binary write files or start other programs.
+ * `prefixes` also match `--flag=value` and `-fprint0`; `shortFlags` match inside clusters like `-sSo`
+ */
+const EXEC_DENIED_ARGUMENTS: Record<string, { prefixes: string[]; shortFlags?: string }> = {
+  find: { prefixes: ["-exec", "-execdir", "-ok", "-okdir", "-delete", "-fprint", "-fls"] },
+  // Request bodies are denied outright: -d @file, -F x=@file and --json @file read container files
+  curl: {
+    prefixes: [
+      "--output", "--remote-name", "--remote-name-all", "--upload-file", "--config",
+      "--data", "--data-ascii", "--data-binary", "--data-raw", "--data-urlencode", "--form", "--form-string", "--json", "--url-query",
+    ],
+    shortFlags: "oOTKdF",
+  },
+  wget: {
+    prefixes: ["--output-document", "--output-file", "--append-output", "--execute", "--post-file", "--body-file", "--post-data", "--body-data"],
+    shortFlags: "oOTae",
+  },
+};
+
+/** The first argument the binary's deny rules reject, if any */
+function deniedExecArgument(command: string[]): string | undefined {
+  const rules = EXEC_DENIED_ARGUMENTS[command[0]];
+  if (!rules) return undefined;
+  return command.slice(1).find(arg => {
+    if (rules.prefixes.some(prefix => arg === prefix || arg.startsWith(prefix.startsWith("--") ? `${prefix}=` : prefix))) return true;
+    // A cluster of short flags: -o, -sSo, -ofile
+    return !!rules.shortFlags && /^-[A-Za-z]/.test(arg) && [...rules.shortFlags].some(flag => arg.includes(flag));
+  });
+}
+
+/** What nsenter prints when the SSH user may not enter another process's namespace */
+const NSENTER_DENIED = /^nsenter: .*(Permission denied|Operation not permitted)/m;
+
+/** Output kept from exec and probes */
+const EXEC_OUTPUT_BYTES = 262144;
+const MAX_EXEC_SECONDS = 300;
+
+/**
+ * Parse output ending in the `[exit N]` marker exec commands append
+ */
+function parseExecOutput(output: string, seconds: number): { output: string; status: string } {
+  const match = /\[exit (\d+)\]\s*$/.exec(output);
+  const body = match ? output.substring(0, match.index) : output;
+  const code = match ? Number(match[1]) : undefined;
+  const status = code === undefined ? "exit status unknown (output truncated)"
+    : code === 124 || code === 137 ? `timed out after ${seconds}s`
+    : code === 126 || code === 127 ? `exit ${code} (command not found or not executable in the container)`
+    : `exit ${code}`;
+  return { output: body.trimEnd(), status };
+}
+
+const IMAGE_STATUS_LABELS: Record<ImageUpdate["status"], string> = {
+  current: "up to date",
+  stale: "STALE",
+  pinned: "pinned by digest",
+  local: "no registry digest (built or loaded locally)",
+  unknown: "unknown",
+};
+
+async function containerState(sshExecutor: SSHExecutor, container: string): Promise<ContainerState> {
+  const state = JSON.parse(await sshExecutor(sh`docker inspect --format '{{json .State}}' ${container}`));
+  return {
+    status: state.Status,
+    ...(state.Health ? { health: state.Health.Status } : {}),
+    startedAt: state.StartedAt,
+    exitCode: state.ExitCode,
+  };
+}
+
+function describeState(state: ContainerState): string {
+  const health = state.health ? ` (${state.health})` : "";
+  const since = state.status === "running" ? `, started ${state.startedAt}` : `, exit code ${state.exitCode}`;
+  return `${state.status}${health}${since}`;
+}
+
 export function registerDockerTools(
   server: McpServer,
   sshExecutor: SSHExecutor
 ): void {
+  // Containers the lifecycle actions may control; "*" allows all
+  const allowedContainers = (process.env.WRITE_ALLOWED_CONTAINERS ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+  // Binaries the exec action may run inside containers
+  const execBinaries = process.env.DOCKER_EXEC_ALLOWED_BINARIES
+    ? process.env.DOCKER_EXEC_ALLOWED_BINARIES.split(",").map((name) => name.trim()).filter((name) => name.length > 0)
+    : DEFAULT_EXEC_BINARIES;
+  // Registries (besides localhost) image_updates queries over plain HTTP
+  const insecureRegistries = (process.env.DOCKER_INSECURE_REGISTRIES ?? "")
+    .split(",")
+    .map((registry) => registry.trim())
+    .filter((registry) => registry.length > 0);
+
+  defineActions("docker", {
+    list_containers: { output: containerListOutput },
+    health: { output: containerHealthOutput },
+    list_networks: { output: networkListOutput },
+    list_volumes: { output: volumeListOutput },
+    logs_aggregate: { timeoutMs: 60000 },
+    image_updates: { output: imageUpdatesOutput, timeoutMs: 120000, openWorld: true },
+    events: { output: eventsOutput, timeoutMs: 60000 },
+    // Watches for the whole duration, plus headroom to collect the output
+    watch_events: { output: eventsOutput, timeoutMs: (args) => (((args.durationSeconds as number | undefined) ?? 60) + 15) * 1000 },
+    // Runs for up to execTimeout, plus headroom to collect the output
+    // ping, dig and a configured curl reach whatever the container's network reaches
+    exec: { mutating: true, openWorld: true, timeoutMs: (args) => (((args.execTimeout as number | undefined) ?? 30) + 15) * 1000 },
+    // http_get can request any URL the container's network reaches
+    exec_probe: { openWorld: true, timeoutMs: (args) => (((args.execTimeout as number | undefined) ?? 30) + 15) * 1000 },
+    start: { mutating: true, output: lifecycleOutput },
+    stop: { destructive: true, timeoutMs: 60000, output: lifecycleOutput },
+    restart: { destructive: true, timeoutMs: 60000, output: lifecycleOutput },
+    pause: { mutating: true, output: lifecycleOutput },
+    unpause: { mutating: true, output: lifecycleOutput },
+    kill: { destructive: true, output: lifecycleOutput },
+  });
+
   server.tool(
     "docker",
-    "Docker ops. Actions: list_containers, inspect, logs, stats, port, env, top, health, logs_aggregate (search all), list_networks, inspect_network, list_volumes, inspect_volume, network_containers.",
+    "Docker ops. Actions: list_containers, inspect, logs, stats, port, env, top, health, logs_aggregate (search all), list_networks, inspect_network, list_volumes, inspect_volume, network_containers, image_updates (running images vs registry digests), events (history, per-container summary), watch_events (stream new events as progress), exec (run an allowlisted binary in a container, no shell; execTimeout stops waiting but does not kill the process in the container), exec_probe (read_file, list_dir, processes, dns, http_get; work without a shell in the image; dns and http_get need root on the host for nsenter), start, stop, restart, pause, unpause, kill. Lifecycle actions need confirm: true (or dryRun: true to preview the command) and a container in WRITE_ALLOWED_CONTAINERS.",
     {
       action: z.enum(dockerActions).describe("Action"),
       container: z.string().optional().describe("Container"),
@@ -29,6 +319,18 @@ export function registerDockerTools(
       dangling: z.boolean().optional().describe("Dangling only"),
       pattern: z.string().optional().describe("Search pattern"),
       lines: z.number().optional().default(100).describe("Lines/container"),
+      dockerUntil: z.string().optional().describe("Until (events; default: now)"),
+      eventTypes: z.array(z.enum(eventTypes)).optional().describe("Event types (default: die, oom, health_status, restart)"),
+      exitCodes: z.array(z.number().int()).optional().describe("Only die events with these exit codes"),
+      durationSeconds: z.number().int().min(1).max(MAX_WATCH_SECONDS).optional().default(60).describe("Watch duration"),
+      command: z.array(z.string()).min(1).max(64).optional().describe('Command and arguments for exec, run without a shell (e.g. ["curl", "-s", "localhost:8080"])'),
+      probe: z.enum(execProbes).optional().describe("Preset for exec_probe"),
+      path: z.string().optional().describe("Absolute path in the container (read_file, list_dir)"),
+      target: z.string().optional().describe("Hostname to resolve (dns)"),
+      url: z.string().optional().describe("http(s) URL to GET from inside the container's network (http_get)"),
+      execTimeout: z.number().int().min(1).max(MAX_EXEC_SECONDS).optional().default(30).describe("Time limit in seconds (exec, exec_probe)"),
+      confirm: z.boolean().optional().describe("Must be true to run a lifecycle action"),
+      dryRun: z.boolean().optional().describe("Show the lifecycle command and current state without running it"),
       ...outputFiltersSchema.shape,
     },
     async (args) => {
@@ -39,18 +341,25 @@ export function registerDockerTools(
             const cmd = all ? "docker ps -a --format json" : "docker ps --format json";
             const output = await sshExecutor(cmd);
             const lines = output.trim().split("\n").filter(l => l.trim());
-            if (lines.length === 0) return { content: [{ type: "text", text: "No containers." }] };
-            const containers = lines.map(l => JSON.parse(l));
-            let formatted = containers.map(c =>
-              `ID: ${c.ID}\nName: ${c.Names}\nImage: ${c.Image}\nStatus: ${c.Status}\nState: ${c.State}\nPorts: ${c.Ports || "none"}\n`
-            ).join("\n---\n\n");
-            formatted = applyFiltersToText(formatted, args);
-            return { content: [{ type: "text", text: `Docker Containers:\n\n${formatted}` }] };
+            const containers = lines.map(l => JSON.parse(l)).map(c => ({
+              id: c.ID, name: c.Names, image: c.Image, status: c.Status, state: c.State, ports: c.Ports || "none",
+            }));
+            return structuredResult({ containers }, (data, format) => {
+              if (data.containers.length === 0) return "No containers.";
+              if (format === "markdown") {
+                return markdownTable(["Name", "Image", "State", "Status", "Ports"],
+                  data.containers.map(c => [c.name, c.image, c.state, c.status, c.ports]), args);
+              }
+              const formatted = data.containers.map(c =>
+                `ID: ${c.id}\nName: ${c.name}\nImage: ${c.image}\nStatus: ${c.status}\nState: ${c.state}\nPorts: ${c.ports}\n`
+              ).join("\n---\n\n");
+              return `Docker Containers:\n\n${applyFiltersToText(formatted, args)}`;
+            });
           }
 
           case "inspect": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            const output = await sshExecutor(`docker inspect ${args.container}`);
+            const output = await sshExecutor(sh`docker inspect ${containerName(args.container)}`);
             let formatted = JSON.stringify(JSON.parse(output), null, 2);
             formatted = applyFiltersToText(formatted, args);
             return { content: [{ type: "text", text: `Docker Inspect - ${args.container}:\n\n${formatted}` }] };
@@ -58,9 +367,9 @@ export function registerDockerTools(
 
           case "logs": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            let cmd = `docker logs ${args.container}`;
-            if (args.dockerTail !== undefined) cmd += ` --tail ${args.dockerTail}`;
-            if (args.dockerSince !== undefined) cmd += ` --since ${args.dockerSince}`;
+            let cmd = sh`docker logs ${containerName(args.container)}`;
+            if (args.dockerTail !== undefined) cmd += sh` --tail ${args.dockerTail}`;
+            if (args.dockerSince !== undefined) cmd += sh` --since ${args.dockerSince}`;
             cmd += " 2>&1"; // Capture both stdout and stderr
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
@@ -69,7 +378,7 @@ export function registerDockerTools(
 
           case "stats": {
             let cmd = "docker stats --no-stream";
-            if (args.container) cmd += ` ${args.container}`;
+            if (args.container) cmd += sh` ${containerName(args.container)}`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Docker Stats:\n\n${output}` }] };
@@ -77,21 +386,21 @@ export function registerDockerTools(
 
           case "port": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            let cmd = applyFilters(`docker port ${args.container}`, args);
+            let cmd = applyFilters(sh`docker port ${containerName(args.container)}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Port Mappings - ${args.container}:\n\n${output.trim() || "None"}` }] };
           }
 
           case "env": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            let cmd = applyFilters(`docker inspect --format='{{range .Config.Env}}{{println .}}{{end}}' ${args.container}`, args);
+            let cmd = applyFilters(sh`docker inspect --format='{{range .Config.Env}}{{println .}}{{end}}' ${containerName(args.container)}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Env - ${args.container}:\n\n${output.trim() || "None"}` }] };
           }
 
           case "top": {
             if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
-            let cmd = applyFilters(`docker top ${args.container}`, args);
+            let cmd = applyFilters(sh`docker top ${containerName(args.container)}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Processes - ${args.container}:\n\n${output}` }] };
           }
@@ -99,16 +408,20 @@ export function registerDockerTools(
           case "health": {
             const output = await sshExecutor("docker ps -a --format json");
             const lines = output.trim().split("\n").filter(l => l.trim());
-            if (lines.length === 0) return { content: [{ type: "text", text: "No containers." }] };
-            const containers = lines.map(l => JSON.parse(l));
-            const healthInfo = containers.map(c => {
-              const health = c.Status.includes("(healthy)") ? "healthy"
-                : c.Status.includes("(unhealthy)") ? "unhealthy"
-                : c.Status.includes("(health: starting)") ? "starting" : "no healthcheck";
-              return `Name: ${c.Names}\nState: ${c.State}\nHealth: ${health}\n`;
-            }).join("\n---\n\n");
-            const filtered = applyFiltersToText(`Health Status:\n\n${healthInfo}`, args);
-            return { content: [{ type: "text", text: filtered }] };
+            const containers = lines.map(l => JSON.parse(l)).map(c => {
+              const health = c.Status.includes("(healthy)") ? "healthy" as const
+                : c.Status.includes("(unhealthy)") ? "unhealthy" as const
+                : c.Status.includes("(health: starting)") ? "starting" as const : "no healthcheck" as const;
+              return { name: c.Names as string, state: c.State as string, health };
+            });
+            return structuredResult({ containers }, (data, format) => {
+              if (data.containers.length === 0) return "No containers.";
+              if (format === "markdown") {
+                return markdownTable(["Name", "State", "Health"], data.containers.map(c => [c.name, c.state, c.health]), args);
+              }
+              const healthInfo = data.containers.map(c => `Name: ${c.name}\nState: ${c.state}\nHealth: ${c.health}\n`).join("\n---\n\n");
+              return applyFiltersToText(`Health Status:\n\n${healthInfo}`, args);
+            });
           }
 
           case "logs_aggregate": {
@@ -116,14 +429,14 @@ export function registerDockerTools(
             const containerList = await sshExecutor("docker ps --format '{{.Names}}'");
             const containers = containerList.trim().split("\n").filter(n => n.trim());
             if (containers.length === 0) return { content: [{ type: "text", text: "No running containers." }] };
+            const pattern = args.pattern;
+            const searches = await runBatch(sshExecutor, containers.map(container =>
+              sh`docker logs --tail ${args.lines ?? 100} ${container} 2>&1 | grep -i -e ${pattern} || true`
+            ));
             const results: string[] = [];
-            for (const container of containers) {
-              try {
-                const logCmd = `docker logs --tail ${args.lines ?? 100} ${container} 2>&1 | grep -i '${args.pattern}' || true`;
-                const logOutput = await sshExecutor(logCmd);
-                if (logOutput.trim()) results.push(`=== ${container} ===\n${logOutput.trim()}\n`);
-              } catch { continue; }
-            }
+            searches.forEach((search, i) => {
+              if (search.ok && search.output.trim()) results.push(`=== ${containers[i]} ===\n${search.output.trim()}\n`);
+            });
             const text = results.length === 0
               ? `No matches for "${args.pattern}".`
               : `Search "${args.pattern}" (${results.length}/${containers.length}):\n\n${results.join("\n")}`;
@@ -131,33 +444,51 @@ export function registerDockerTools(
           }
 
           case "list_networks": {
-            let cmd = "docker network ls";
-            if (args.filter) cmd += ` --filter driver=${args.filter}`;
-            cmd = applyFilters(cmd, args);
+            let cmd = "docker network ls --format json";
+            if (args.filter) cmd += sh` --filter ${`driver=${args.filter}`}`;
             const output = await sshExecutor(cmd);
-            return { content: [{ type: "text", text: `Docker Networks:\n\n${output}` }] };
+            const networks = output.trim().split("\n").filter(l => l.trim()).map(l => JSON.parse(l)).map(n => ({
+              id: n.ID ?? "", name: n.Name, driver: n.Driver ?? "", scope: n.Scope ?? "",
+            }));
+            return structuredResult({ networks }, (data, format) => {
+              if (data.networks.length === 0) return "No networks.";
+              if (format === "markdown") {
+                return markdownTable(["Name", "Driver", "Scope", "ID"], data.networks.map(n => [n.name, n.driver, n.scope, n.id]), args);
+              }
+              const formatted = data.networks.map(n => `${n.name} (${n.driver}, ${n.scope}) ${n.id}`).join("\n");
+              return `Docker Networks:\n\n${applyFiltersToText(formatted, args)}`;
+            });
           }
 
           case "inspect_network": {
             if (!args.network) return { content: [{ type: "text", text: "Error: network required" }], isError: true };
-            const output = await sshExecutor(`docker network inspect ${args.network}`);
+            const output = await sshExecutor(sh`docker network inspect ${containerName(args.network, "network name")}`);
             let formatted = JSON.stringify(JSON.parse(output), null, 2);
             formatted = applyFiltersToText(formatted, args);
             return { content: [{ type: "text", text: `Network - ${args.network}:\n\n${formatted}` }] };
           }
 
           case "list_volumes": {
-            let cmd = "docker volume ls";
+            let cmd = "docker volume ls --format json";
             if (args.dangling === true) cmd += " --filter dangling=true";
             else if (args.dangling === false) cmd += " --filter dangling=false";
-            cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
-            return { content: [{ type: "text", text: `Docker Volumes:\n\n${output}` }] };
+            const volumes = output.trim().split("\n").filter(l => l.trim()).map(l => JSON.parse(l)).map(v => ({
+              name: v.Name, driver: v.Driver ?? "", scope: v.Scope ?? "", ...(v.Mountpoint ? { mountpoint: v.Mountpoint } : {}),
+            }));
+            return structuredResult({ volumes }, (data, format) => {
+              if (data.volumes.length === 0) return "No volumes.";
+              if (format === "markdown") {
+                return markdownTable(["Name", "Driver", "Mountpoint"], data.volumes.map(v => [v.name, v.driver, v.mountpoint ?? ""]), args);
+              }
+              const formatted = data.volumes.map(v => `${v.name} (${v.driver})${v.mountpoint ? ` ${v.mountpoint}` : ""}`).join("\n");
+              return `Docker Volumes:\n\n${applyFiltersToText(formatted, args)}`;
+            });
           }
 
           case "inspect_volume": {
             if (!args.volume) return { content: [{ type: "text", text: "Error: volume required" }], isError: true };
-            const output = await sshExecutor(`docker volume inspect ${args.volume}`);
+            const output = await sshExecutor(sh`docker volume inspect ${containerName(args.volume, "volume name")}`);
             let formatted = JSON.stringify(JSON.parse(output), null, 2);
             formatted = applyFiltersToText(formatted, args);
             return { content: [{ type: "text", text: `Volume - ${args.volume}:\n\n${formatted}` }] };
@@ -165,11 +496,233 @@ export function registerDockerTools(
 
           case "network_containers": {
             if (!args.network) return { content: [{ type: "text", text: "Error: network required" }], isError: true };
-            let cmd = applyFilters(`docker network inspect ${args.network} --format '{{range $id, $container := .Containers}}{{$id}}: {{$container.Name}} ({{$container.IPv4Address}}){{println}}{{end}}'`, args);
+            let cmd = applyFilters(sh`docker network inspect ${containerName(args.network, "network name")} --format '{{range $id, $container := .Containers}}{{$id}}: {{$container.Name}} ({{$container.IPv4Address}}){{println}}{{end}}'`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Containers on ${args.network}:\n\n${output.trim() || "None"}` }] };
           }
 
+          case "image_updates": {
+            const ids = args.container
+              ? [containerName(args.container)]
+              : (await sshExecutor("docker ps -q")).trim().split("\n").filter(id => id.trim());
+            if (ids.length === 0) return { content: [{ type: "text", text: "No running containers." }] };
+            const containers: InspectedContainer[] = JSON.parse(await sshExecutor(sh`docker inspect ${ids}`));
+            const imageIds = [...new Set(containers.map(c => c.Image))];
+            const inspectedImages: InspectedImage[] = JSON.parse(await sshExecutor(sh`docker image inspect ${imageIds}`));
+            const localImages = new Map(inspectedImages.map(image => [image.Id, image]));
+
+            // Containers started from the same reference share one registry lookup
+            const byReference = new Map<string, { containers: string[]; imageId: string }>();
+            for (const c of containers) {
+              const reference = c.Config?.Image ?? c.Image;
+              if (!byReference.has(reference)) byReference.set(reference, { containers: [], imageId: c.Image });
+              byReference.get(reference)!.containers.push(c.Name.startsWith("/") ? c.Name.substring(1) : c.Name);
+            }
+
+            const images = await Promise.all(Array.from(byReference.entries()).map(async ([image, entry]): Promise<ImageUpdate> => {
+              const local = localImages.get(entry.imageId);
+              const localDigests = (local?.RepoDigests ?? []).map(d => d.substring(d.indexOf("@") + 1));
+              const created = local?.Created;
+              const base = {
+                image,
+                containers: entry.containers,
+                latestTag: false,
+                ...(created ? { created, ageDays: Math.floor((Date.now() - Date.parse(created)) / 86400000) } : {}),
+                localDigests,
+              };
+              try {
+                const reference = parseImageReference(image);
+                const update = { ...base, latestTag: reference.tag === "latest" };
+                if (reference.digest) return { ...update, status: "pinned" };
+                if (localDigests.length === 0) return { ...update, status: "local" };
+                const remoteDigest = await fetchRemoteDigest(sshExecutor, reference, insecureRegistries);
+                return { ...update, status: localDigests.includes(remoteDigest) ? "current" : "stale", remoteDigest };
+              } catch (error) {
+                return { ...base, status: "unknown", error: error instanceof Error ? error.message : String(error) };
+              }
+            }));
+
+            return structuredResult({ images }, (data, format) => {
+              const stale = data.images.filter(i => i.status === "stale").length;
+              const describe = (i: ImageUpdate) => {
+                const notes = [
+                  IMAGE_STATUS_LABELS[i.status],
+                  ...(i.ageDays !== undefined ? [`image ${i.ageDays} days old`] : []),
+                  ...(i.latestTag ? ["uses the latest tag"] : []),
+                  ...(i.error ? [i.error] : []),
+                ];
+                return { notes: notes.join("; "), containers: i.containers.join(", ") };
+              };
+              if (format === "markdown") {
+                return `${stale} of ${data.images.length} images stale\n\n` + markdownTable(["Image", "Containers", "Status"],
+                  data.images.map(i => {
+                    const { notes, containers } = describe(i);
+                    return [i.image, containers, notes];
+                  }), args);
+              }
+              const text = data.images.map(i => {
+                const { notes, containers } = describe(i);
+                const digests = i.status === "stale" ? `\n  Running: ${i.localDigests.join(", ")}\n  Registry: ${i.remoteDigest}` : "";
+                return `${i.image} (${containers})\n  ${notes}${digests}`;
+              }).join("\n\n");
+              return applyFiltersToText(`Image Updates (${stale} of ${data.images.length} images stale):\n\n${text}`, args);
+            });
+          }
+
+          case "events":
+          case "watch_events": {
+            const filters = [
+              "--filter", "type=container",
+              ...(args.container ? ["--filter", `container=${containerName(args.container)}`] : []),
+              ...(args.eventTypes ?? ["die", "oom", "health_status", "restart"]).flatMap((type: string) => ["--filter", `event=${type}`]),
+            ];
+            let cmd: string;
+            let title: string;
+            if (args.action === "events") {
+              const since = args.dockerSince ?? "1h";
+              // Without --until, docker events keeps streaming; pin it to the host's clock
+              const until = args.dockerUntil ?? raw(`"$(date +%s)"`);
+              cmd = sh`docker events --since ${since} --until ${until} ${filters} --format ${EVENT_FORMAT}`;
+              title = `Docker Events since ${since}${args.dockerUntil !== undefined ? ` until ${args.dockerUntil}` : ""}`;
+            } else {
+              const seconds = args.durationSeconds ?? 60;
+              // New events stream to the client as progress notifications while the watch runs
+              cmd = sh`timeout ${seconds} docker events ${filters} --format ${EVENT_FORMAT}`;
+              title = `Docker Events over ${seconds}s`;
+            }
+            const events = parseEvents(await sshExecutor(cmd), args.exitCodes);
+            return structuredResult(summarizeEvents(events), (data, format) => applyFiltersToText(renderEvents(title, data, format), args));
+          }
+
+          case "exec": {
+            if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
+            if (!args.command?.length) return { content: [{ type: "text", text: "Error: command required" }], isError: true };
+            const container = containerName(args.container);
+            const [binary] = args.command;
+            if (binary.includes("/") || !execBinaries.includes(binary)) {
+              return {
+                content: [{ type: "text", text: `Error: "${binary}" is not an allowed exec binary (allowed: ${execBinaries.join(", ")}; set DOCKER_EXEC_ALLOWED_BINARIES)` }],
+                isError: true,
+              };
+            }
+            const denied = deniedExecArgument(args.command);
+            if (denied) {
+              return { content: [{ type: "text", text: `Error: argument "${denied}" is not allowed for ${binary} (it can write files or run other programs)` }], isError: true };
+            }
+            const seconds = args.execTimeout ?? 30;
+            // No -i/-t: stdin is closed, so nothing can wait for input. timeout ends the docker client's exec session;
+            // docker doesn't signal the process in the container, which can keep running until it exits
+            const output = await sshExecutor(
+              sh`{ timeout -k 5 ${seconds} docker exec ${container} ${args.command} 2>&1; echo "[exit $?]"; } | tail -c ${EXEC_OUTPUT_BYTES}`
+            );
+            const result = parseExecOutput(output, seconds);
+            const text = `Exec - ${container}: ${args.command.join(" ")} (${result.status})\n\n${result.output || "(no output)"}`;
+            return { content: [{ type: "text", text: applyFiltersToText(text, args) }] };
+          }
+
+          case "exec_probe": {
+            if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
+            if (!args.probe) return { content: [{ type: "text", text: "Error: probe required" }], isError: true };
+            const container = containerName(args.container);
+            const seconds = args.execTimeout ?? 30;
+            // Network probes run the host's tools inside the container's network namespace
+            const containerPid = async () => {
+              const pid = (await sshExecutor(sh`docker inspect --format '{{.State.Pid}}' ${container}`)).trim();
+              if (!/^[1-9]\d*$/.test(pid)) throw new Error(`container "${container}" is not running`);
+              return Number(pid);
+            };
+            let cmd: string;
+            switch (args.probe) {
+              case "read_file":
+              case "list_dir": {
+                if (!args.path?.startsWith("/")) return { content: [{ type: "text", text: "Error: absolute path required" }], isError: true };
+                // docker cp reads the container's filesystem itself, so no binaries are needed in the image
+                const source = `${container}:${args.path}`;
+                cmd = args.probe === "read_file"
+                  ? sh`timeout ${seconds} docker cp -L ${source} - | tar -xO | head -c ${EXEC_OUTPUT_BYTES}`
+                  : sh`timeout ${seconds} docker cp -L ${source} - | tar -tv | head -n 500`;
+                break;
+              }
+              case "processes":
+                // ps on the host, without the e flag, so no environment is shown
+                cmd = sh`docker top ${container} -o pid,ppid,user,etime,args`;
+                break;
+              case "dns": {
+                if (!args.target) return { content: [{ type: "text", text: "Error: target required" }], isError: true };
+                const target = hostName(args.target);
+                const pid = await containerPid();
+                // Ask the container's own resolver (127.0.0.11 on user-defined networks)
+                const resolvConf = await sshExecutor(sh`docker cp -L ${`${container}:/etc/resolv.conf`} - | tar -xO`).catch(() => "");
+                const nameserver = /^nameserver\s+(\S+)/m.exec(resolvConf)?.[1];
+                cmd = sh`timeout ${seconds} nsenter -t ${pid} -n nslookup ${target} ${nameserver ? [hostName(nameserver, "nameserver")] : []}`;
+                break;
+              }
+              case "http_get": {
+                if (!args.url || !/^https?:\/\/[^\s]+$/.test(args.url)) {
+                  return { content: [{ type: "text", text: "Error: http(s) url required" }], isError: true };
+                }
+                const pid = await containerPid();
+                cmd = sh`nsenter -t ${pid} -n curl -sS -i --max-time ${seconds} ${args.url} 2>&1 | head -c ${EXEC_OUTPUT_BYTES}`;
+                break;
+              }
+              default:
+                return { content: [{ type: "text", text: `Unknown probe: ${args.probe}` }], isError: true };
+            }
+            // dns fails with nsenter's message; http_get pipes it into its output
+            const output = await sshExecutor(cmd).catch((error: unknown) => {
+              if (error instanceof Error && NSENTER_DENIED.test(error.message)) return error.message;
+              throw error;
+            });
+            if (NSENTER_DENIED.test(output)) {
+              return {
+                content: [{ type: "text", text: `Error: ${args.probe} runs nsenter on the host, which the SSH user is not permitted to do; it needs root (or CAP_SYS_ADMIN and CAP_SYS_PTRACE)` }],
+                isError: true,
+              };
+            }
+            const text = `Probe ${args.probe} - ${container}:\n\n${output.trimEnd() || "(no output)"}`;
+            return { content: [{ type: "text", text: applyFiltersToText(text, args) }] };
+          }
+
+          case "start":
+          case "stop":
+          case "restart":
+          case "pause":
+          case "unpause":
+          case "kill": {
+            if (!args.container) return { content: [{ type: "text", text: "Error: container required" }], isError: true };
+            const container = containerName(args.container);
+            if (allowedContainers.length === 0) {
+              return {
+                content: [{ type: "text", text: "Error: no containers allowed for lifecycle actions. Set WRITE_ALLOWED_CONTAINERS on the MCP server." }],
+                isError: true,
+              };
+            }
+            if (!allowedContainers.includes("*") && !allowedContainers.includes(container)) {
+              return { content: [{ type: "text", text: `Error: container "${container}" is not in WRITE_ALLOWED_CONTAINERS` }], isError: true };
+            }
+            if (!args.dryRun && args.confirm !== true) {
+              return {
+                content: [{ type: "text", text: `Error: ${args.action} requires confirm: true (use dryRun: true to preview it)` }],
+                isError: true,
+              };
+            }
+
+            const command = sh`docker ${args.action} ${container}`;
+            const before = await containerState(sshExecutor, container);
+            let after: ContainerState | undefined;
+            if (!args.dryRun) {
+              await sshExecutor(command);
+              after = await containerState(sshExecutor, container);
+            }
+            return structuredResult({ container, command, dryRun: Boolean(args.dryRun), before, ...(after ? { after } : {}) }, (data, format) => {
+              const commandLine = format === "markdown" ? `\`${data.command}\`` : `$ ${data.command}`;
+              if (data.dryRun) {
+                return `Dry run - ${args.action} ${data.container} (not executed):\n${commandLine}\nCurrent: ${describeState(data.before)}`;
+              }
+              return `${args.action} ${data.container}:\n${commandLine}\nBefore: ${describeState(data.before)}\nAfter: ${describeState(data.after ?? data.before)}`;
+            });
+          }
+
           default:
             return { content: [{ type: "text", text: `Unknown action: ${args.action}` }], isError: true };
         }
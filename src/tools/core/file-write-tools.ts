@@ -2,6 +2,9 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { posix } from "path";
 import type { SSHExecutor } from "../../platforms/types.js";
+import { defineActions } from "../../tool-metadata.js";
+import { structuredResult } from "../../output.js";
+import { sh } from "../../shell.js";
 
 const fileWriteActions = [
   "write_file",
@@ -13,6 +16,10 @@ const fileWriteActions = [
   "download_url",
 ] as const;
 
+const allowedPathsOutput = z.object({
+  allowedPaths: z.array(z.string()).describe("Write path prefixes; empty if WRITE_ALLOWED_PATHS is unset"),
+});
+
 /**
  * Normalize a POSIX path and check if it is covered by any allowlisted prefix.
  * Returns true if the path is permitted, false otherwise.
@@ -27,14 +34,6 @@ function isPathAllowed(rawPath: string, allowedPaths: string[]): boolean {
   });
 }
 
-/**
- * Escape a string for safe interpolation inside a single-quoted shell argument.
- * Replaces each single-quote with: '\''
- */
-function shellEscape(value: string): string {
-  return value.replace(/'/g, "'\\''");
-}
-
 export function registerFileWriteTools(
   server: McpServer,
   sshExecutor: SSHExecutor
@@ -46,6 +45,16 @@ export function registerFileWriteTools(
     .map((p) => p.trim().replace(/\/+$/, ""))
     .filter((p) => p.length > 0);
 
+  defineActions("file_write", {
+    write_file: { destructive: true },
+    append_file: { mutating: true },
+    replace_in_file: { destructive: true },
+    delete_file: { destructive: true },
+    mkdir: { mutating: true },
+    download_url: { destructive: true, openWorld: true },
+    list_allowed_paths: { output: allowedPathsOutput },
+  });
+
   server.tool(
     "file_write",
     "File write operations on the remote server. All mutating actions require the target path to be covered by an allowlisted prefix (WRITE_ALLOWED_PATHS). Actions: write_file, append_file, replace_in_file, delete_file, mkdir, list_allowed_paths, download_url. write_file supports encoding: 'utf8' (default) or 'base64' for binary file uploads up to 50MB. download_url fetches a URL to an allowed remote path via SSH-executed curl (HTTPS only).",
@@ -62,14 +71,9 @@ export function registerFileWriteTools(
       try {
         switch (args.action) {
           case "list_allowed_paths": {
-            if (allowedPaths.length === 0) {
-              return {
-                content: [{ type: "text", text: "No write paths configured. Set WRITE_ALLOWED_PATHS on the MCP server." }],
-              };
-            }
-            return {
-              content: [{ type: "text", text: `Allowed write path prefixes:\n${allowedPaths.join("\n")}` }],
-            };
+            return structuredResult({ allowedPaths }, (data) => data.allowedPaths.length === 0
+              ? "No write paths configured. Set WRITE_ALLOWED_PATHS on the MCP server."
+              : `Allowed write path prefixes:\n${data.allowedPaths.join("\n")}`);
           }
 
           case "write_file": {
@@ -85,13 +89,10 @@ export function registerFileWriteTools(
                 isError: true,
               };
             }
-            const escapedPath = shellEscape(args.path);
             if (args.encoding === "base64") {
-              const escapedContent = shellEscape(args.content);
-              await sshExecutor(`printf '%s' '${escapedContent}' | base64 -d > '${escapedPath}'`);
+              await sshExecutor(sh`printf '%s' ${args.content} | base64 -d > ${args.path}`);
             } else {
-              const escapedContent = shellEscape(args.content);
-              await sshExecutor(`printf '%s' '${escapedContent}' | tee '${escapedPath}' > /dev/null`);
+              await sshExecutor(sh`printf '%s' ${args.content} | tee ${args.path} > /dev/null`);
             }
             return { content: [{ type: "text", text: `Successfully wrote to "${args.path}"` }] };
           }
@@ -109,9 +110,7 @@ export function registerFileWriteTools(
                 isError: true,
               };
             }
-            const escapedPath = shellEscape(args.path);
-            const escapedContent = shellEscape(args.content);
-            await sshExecutor(`printf '%s' '${escapedContent}' >> '${escapedPath}'`);
+            await sshExecutor(sh`printf '%s' ${args.content} >> ${args.path}`);
             return { content: [{ type: "text", text: `Successfully appended to "${args.path}"` }] };
           }
 
@@ -131,8 +130,7 @@ export function registerFileWriteTools(
                 isError: true,
               };
             }
-            const escapedPath = shellEscape(args.path);
-            const fileContent = await sshExecutor(`cat '${escapedPath}'`);
+            const fileContent = await sshExecutor(sh`cat ${args.path}`);
             if (!fileContent.includes(args.oldString)) {
               return {
                 content: [{ type: "text", text: `Error: oldString not found in "${args.path}"` }],
@@ -140,8 +138,7 @@ export function registerFileWriteTools(
               };
             }
             const newContent = fileContent.replace(args.oldString, args.newString);
-            const escapedNewContent = shellEscape(newContent);
-            await sshExecutor(`printf '%s' '${escapedNewContent}' | tee '${escapedPath}' > /dev/null`);
+            await sshExecutor(sh`printf '%s' ${newContent} | tee ${args.path} > /dev/null`);
             return { content: [{ type: "text", text: `Successfully replaced string in "${args.path}"` }] };
           }
 
@@ -155,8 +152,7 @@ export function registerFileWriteTools(
                 isError: true,
               };
             }
-            const escapedPath = shellEscape(args.path);
-            await sshExecutor(`rm '${escapedPath}'`);
+            await sshExecutor(sh`rm ${args.path}`);
             return { content: [{ type: "text", text: `Successfully deleted "${args.path}"` }] };
           }
 
@@ -170,8 +166,7 @@ export function registerFileWriteTools(
                 isError: true,
               };
             }
-            const escapedPath = shellEscape(args.path);
-            await sshExecutor(`mkdir -p '${escapedPath}'`);
+            await sshExecutor(sh`mkdir -p ${args.path}`);
             return { content: [{ type: "text", text: `Successfully created directory "${args.path}"` }] };
           }
 
@@ -191,9 +186,7 @@ export function registerFileWriteTools(
                 isError: true,
               };
             }
-            const escapedUrl = shellEscape(args.url);
-            const escapedPath = shellEscape(args.path);
-            await sshExecutor(`curl -fsSL '${escapedUrl}' -o '${escapedPath}'`);
+            await sshExecutor(sh`curl -fsSL ${args.url} -o ${args.path}`);
             return { content: [{ type: "text", text: `Successfully downloaded to "${args.path}"` }] };
           }
 
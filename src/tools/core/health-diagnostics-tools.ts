@@ -1,15 +1,102 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { runBatch } from "../../batch.js";
+import { defineActions } from "../../tool-metadata.js";
+import { structuredResult } from "../../output.js";
+import { fileName, filePath, sh } from "../../shell.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
 enum HealthStatus { OK = "OK", WARNING = "WARNING", CRITICAL = "CRITICAL" }
 interface HealthCheckResult { category: string; status: HealthStatus; details: string; }
+interface DriveTemp { device: string; temp: number; }
+
+/**
+ * Read the temperature of every SATA/NVMe drive, querying all drives in one batch.
+ * Drives whose SMART output has no temperature are skipped.
+ */
+async function readDriveTemps(sshExecutor: SSHExecutor): Promise<DriveTemp[]> {
+  const devices = await sshExecutor("ls -1 /dev/sd? /dev/nvme?n? 2>/dev/null || true");
+  const deviceList = devices.trim().split("\n").filter(d => d.trim());
+  const results = await runBatch(sshExecutor, deviceList.map(devicePath => {
+    const isNvme = devicePath.replace("/dev/", "").startsWith("nvme");
+    return isNvme ? sh`smartctl -A -d nvme ${devicePath} 2>/dev/null | grep -i temperature | head -1` : sh`smartctl -A -d ata ${devicePath} 2>/dev/null | grep -i temperature_celsius | head -1`;
+  }));
+  const temps: DriveTemp[] = [];
+  results.forEach((result, i) => {
+    if (!result.ok) return;
+    const tempMatch = result.output.match(/(\d+)\s+(Celsius|C\b)/i);
+    if (tempMatch) temps.push({ device: deviceList[i].replace("/dev/", ""), temp: parseInt(tempMatch[1]) });
+  });
+  return temps;
+}
+
+/**
+ * Build the diagnostic report: kernel, uptime, array, containers, disks and memory.
+ * Sections whose command fails are left out.
+ */
+export async function buildDiagnosticReport(sshExecutor: SSHExecutor, isMarkdown: boolean): Promise<string> {
+  let report = isMarkdown ? "# Diagnostic Report\n\n" : "=== Diagnostic Report ===\n\n";
+  report += `Generated: ${new Date().toLocaleString()}\n\n`;
+  try {
+    const uname = await sshExecutor("uname -a");
+    report += isMarkdown ? `**Kernel:** ${uname}\n\n` : `Kernel: ${uname}\n`;
+    const uptime = await sshExecutor("uptime");
+    report += isMarkdown ? `**Uptime:** ${uptime}\n\n` : `Uptime: ${uptime}\n`;
+  } catch {}
+  try {
+    const arrayStatus = await sshExecutor("cat /proc/mdcmd 2>/dev/null || mdcmd status");
+    report += isMarkdown ? `## Array\n\n\`\`\`\n${arrayStatus}\n\`\`\`\n\n` : `--- Array ---\n\n${arrayStatus}\n\n`;
+  } catch {}
+  try {
+    const containers = await sshExecutor("docker ps -a --format 'table {{.Names}}\t{{.State}}\t{{.Status}}'");
+    report += isMarkdown ? `## Containers\n\n\`\`\`\n${containers}\n\`\`\`\n\n` : `--- Containers ---\n\n${containers}\n\n`;
+  } catch {}
+  try {
+    const df = await sshExecutor("df -h | grep -E '^/dev/(sd|nvme|md)|Filesystem'");
+    report += isMarkdown ? `## Disk\n\n\`\`\`\n${df}\n\`\`\`\n\n` : `--- Disk ---\n\n${df}\n\n`;
+  } catch {}
+  try {
+    const mem = await sshExecutor("free -h");
+    report += isMarkdown ? `## Memory\n\n\`\`\`\n${mem}\n\`\`\`\n\n` : `--- Memory ---\n\n${mem}\n\n`;
+  } catch {}
+  return report;
+}
+
+const thresholdAlertsOutput = z.object({
+  thresholds: z.object({ cpu: z.number(), memory: z.number(), disk: z.number(), temperature: z.number() }),
+  alerts: z.array(z.object({
+    metric: z.enum(["cpu", "memory", "disk", "temperature"]),
+    target: z.string().optional().describe("Disk or drive the alert is about"),
+    value: z.number(),
+    threshold: z.number(),
+  })),
+});
+
+type ThresholdAlert = z.infer<typeof thresholdAlertsOutput>["alerts"][number];
+
+function describeAlert(alert: ThresholdAlert): string {
+  switch (alert.metric) {
+    case "cpu": return `CPU ${alert.value.toFixed(1)}% > ${alert.threshold}%`;
+    case "memory": return `Memory ${alert.value.toFixed(1)}% > ${alert.threshold}%`;
+    case "disk": return `Disk ${alert.target} ${alert.value}% > ${alert.threshold}%`;
+    case "temperature": return `Drive ${alert.target} ${alert.value}°C > ${alert.threshold}°C`;
+  }
+}
 
 const healthActions = ["comprehensive", "common_issues", "threshold_alerts", "compare_baseline", "diagnostic_report", "snapshot"] as const;
 
 export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  defineActions("health", {
+    comprehensive: { timeoutMs: 60000 },
+    threshold_alerts: { output: thresholdAlertsOutput },
+    // Both save state files on the host (the first baseline, named snapshots)
+    compare_baseline: { mutating: true },
+    diagnostic_report: { timeoutMs: 60000 },
+    snapshot: { mutating: true },
+  });
+
   server.tool(
     "health",
     "Health ops. Actions: comprehensive (full check), common_issues (detect problems), threshold_alerts (metric alerts), compare_baseline (diff from baseline), diagnostic_report (full report), snapshot (save state).",
@@ -28,84 +115,85 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
       try {
         switch (args.action) {
           case "comprehensive": {
-            const results: HealthCheckResult[] = [];
-            // Array (Unraid-specific, but gracefully degrades)
-            try {
-              const arrayStatus = await sshExecutor("cat /proc/mdcmd 2>/dev/null || mdcmd status");
-              const isStarted = arrayStatus.includes("mdState=STARTED");
-              const parityMatch = arrayStatus.match(/sbSyncErrs=(\d+)/);
-              const parityErrors = parityMatch ? parseInt(parityMatch[1]) : 0;
-              let status = HealthStatus.OK, details = "Array running normally";
-              if (!isStarted) { status = HealthStatus.CRITICAL; details = "Array not started"; }
-              else if (parityErrors > 0) { status = HealthStatus.WARNING; details = `Parity errors: ${parityErrors}`; }
-              results.push({ category: "Array", status, details });
-            } catch { results.push({ category: "Array", status: HealthStatus.WARNING, details: "Unable to check" }); }
-            // Temps
-            try {
-              const devices = await sshExecutor("ls -1 /dev/sd? /dev/nvme?n? 2>/dev/null || true");
-              const deviceList = devices.trim().split("\n").filter(d => d.trim());
-              let maxTemp = 0;
-              for (const devicePath of deviceList) {
+            // Each check is independent, so run them all at once
+            const results: HealthCheckResult[] = await Promise.all([
+              // Array (Unraid-specific, but gracefully degrades)
+              (async (): Promise<HealthCheckResult> => {
                 try {
-                  const deviceName = devicePath.replace("/dev/", "");
-                  const isNvme = deviceName.startsWith("nvme");
-                  const smartCmd = isNvme ? `smartctl -A -d nvme ${devicePath} 2>/dev/null | grep -i temperature | head -1` : `smartctl -A -d ata ${devicePath} 2>/dev/null | grep -i temperature_celsius | head -1`;
-                  const tempOutput = await sshExecutor(smartCmd);
-                  const tempMatch = tempOutput.match(/(\d+)\s+(Celsius|C\b)/i);
-                  if (tempMatch) { const temp = parseInt(tempMatch[1]); if (temp > maxTemp) maxTemp = temp; }
-                } catch {}
-              }
-              let status = HealthStatus.OK, details = `Max temp: ${maxTemp}°C`;
-              if (maxTemp > 60) { status = HealthStatus.CRITICAL; details = `Critical: ${maxTemp}°C`; }
-              else if (maxTemp > 50) { status = HealthStatus.WARNING; details = `High: ${maxTemp}°C`; }
-              results.push({ category: "Temps", status, details });
-            } catch { results.push({ category: "Temps", status: HealthStatus.WARNING, details: "Unable to check" }); }
-            // Disk
-            try {
-              const dfOutput = await sshExecutor("df -h | grep -E '^/dev/(sd|nvme|md)'");
-              const lines = dfOutput.trim().split("\n");
-              let critical: string[] = [], warning: string[] = [];
-              for (const line of lines) {
-                const match = line.match(/(\S+)\s+\S+\s+\S+\s+\S+\s+(\d+)%/);
-                if (match) {
-                  const [, device, percent] = match;
-                  const p = parseInt(percent);
-                  if (p >= 95) critical.push(`${device}: ${p}%`);
-                  else if (p >= 90) warning.push(`${device}: ${p}%`);
-                }
-              }
-              let status = HealthStatus.OK, details = "Disk space OK";
-              if (critical.length) { status = HealthStatus.CRITICAL; details = `Critical: ${critical.join(", ")}`; }
-              else if (warning.length) { status = HealthStatus.WARNING; details = `Low: ${warning.join(", ")}`; }
-              results.push({ category: "Disk", status, details });
-            } catch { results.push({ category: "Disk", status: HealthStatus.WARNING, details: "Unable to check" }); }
-            // Containers
-            try {
-              const containersOutput = await sshExecutor("docker ps -a --format '{{.Names}},{{.State}},{{.Status}}'");
-              const containers = containersOutput.trim().split("\n").filter(l => l.trim());
-              let exited: string[] = [], restarting: string[] = [];
-              for (const c of containers) {
-                const [name, state, status] = c.split(",");
-                if (state === "exited") exited.push(name);
-                else if (state === "restarting" || status?.includes("Restarting")) restarting.push(name);
-              }
-              let status = HealthStatus.OK, details = `${containers.length} containers OK`;
-              if (restarting.length) { status = HealthStatus.CRITICAL; details = `Restarting: ${restarting.join(", ")}`; }
-              else if (exited.length) { status = HealthStatus.WARNING; details = `Stopped: ${exited.join(", ")}`; }
-              results.push({ category: "Containers", status, details });
-            } catch { results.push({ category: "Containers", status: HealthStatus.WARNING, details: "Unable to check" }); }
-            // Resources
-            try {
-              const topOutput = await sshExecutor("top -b -n 1 | head -5");
-              const cpuMatch = topOutput.match(/Cpu\(s\):\s*([\d.]+)\s*us/i);
-              const memMatch = topOutput.match(/Mem\s*:\s*(\d+)\s+total,\s*(\d+)\s+free/i);
-              let cpuPercent = cpuMatch ? parseFloat(cpuMatch[1]) : 0;
-              let memPercent = memMatch ? ((parseInt(memMatch[1]) - parseInt(memMatch[2])) / parseInt(memMatch[1])) * 100 : 0;
-              let status = HealthStatus.OK, details = `CPU: ${cpuPercent.toFixed(1)}%, Mem: ${memPercent.toFixed(1)}%`;
-              if (cpuPercent > 90 || memPercent > 95) { status = HealthStatus.CRITICAL; details = `Critical! ${details}`; }
-              else if (cpuPercent > 80 || memPercent > 90) { status = HealthStatus.WARNING; details = `High: ${details}`; }
-              results.push({ category: "Resources", status, details });
-            } catch { results.push({ category: "Resources", status: HealthStatus.WARNING, details: "Unable to check" }); }
+                  const arrayStatus = await sshExecutor("cat /proc/mdcmd 2>/dev/null || mdcmd status");
+                  const isStarted = arrayStatus.includes("mdState=STARTED");
+                  const parityMatch = arrayStatus.match(/sbSyncErrs=(\d+)/);
+                  const parityErrors = parityMatch ? parseInt(parityMatch[1]) : 0;
+                  let status = HealthStatus.OK, details = "Array running normally";
+                  if (!isStarted) { status = HealthStatus.CRITICAL; details = "Array not started"; }
+                  else if (parityErrors > 0) { status = HealthStatus.WARNING; details = `Parity errors: ${parityErrors}`; }
+                  return { category: "Array", status, details };
+                } catch { return { category: "Array", status: HealthStatus.WARNING, details: "Unable to check" }; }
+              })(),
+              // Temps
+              (async (): Promise<HealthCheckResult> => {
+                try {
+                  const temps = await readDriveTemps(sshExecutor);
+                  const maxTemp = temps.reduce((max, t) => Math.max(max, t.temp), 0);
+                  let status = HealthStatus.OK, details = `Max temp: ${maxTemp}°C`;
+                  if (maxTemp > 60) { status = HealthStatus.CRITICAL; details = `Critical: ${maxTemp}°C`; }
+                  else if (maxTemp > 50) { status = HealthStatus.WARNING; details = `High: ${maxTemp}°C`; }
+                  return { category: "Temps", status, details };
+                } catch { return { category: "Temps", status: HealthStatus.WARNING, details: "Unable to check" }; }
+              })(),
+              // Disk
+              (async (): Promise<HealthCheckResult> => {
+                try {
+                  const dfOutput = await sshExecutor("df -h | grep -E '^/dev/(sd|nvme|md)'");
+                  const lines = dfOutput.trim().split("\n");
+                  let critical: string[] = [], warning: string[] = [];
+                  for (const line of lines) {
+                    const match = line.match(/(\S+)\s+\S+\s+\S+\s+\S+\s+(\d+)%/);
+                    if (match) {
+                      const [, device, percent] = match;
+                      const p = parseInt(percent);
+                      if (p >= 95) critical.push(`${device}: ${p}%`);
+                      else if (p >= 90) warning.push(`${device}: ${p}%`);
+                    }
+                  }
+                  let status = HealthStatus.OK, details = "Disk space OK";
+                  if (critical.length) { status = HealthStatus.CRITICAL; details = `Critical: ${critical.join(", ")}`; }
+                  else if (warning.length) { status = HealthStatus.WARNING; details = `Low: ${warning.join(", ")}`; }
+                  return { category: "Disk", status, details };
+                } catch { return { category: "Disk", status: HealthStatus.WARNING, details: "Unable to check" }; }
+              })(),
+              // Containers
+              (async (): Promise<HealthCheckResult> => {
+                try {
+                  const containersOutput = await sshExecutor("docker ps -a --format '{{.Names}},{{.State}},{{.Status}}'");
+                  const containers = containersOutput.trim().split("\n").filter(l => l.trim());
+                  let exited: string[] = [], restarting: string[] = [];
+                  for (const c of containers) {
+                    const [name, state, status] = c.split(",");
+                    if (state === "exited") exited.push(name);
+                    else if (state === "restarting" || status?.includes("Restarting")) restarting.push(name);
+                  }
+                  let status = HealthStatus.OK, details = `${containers.length} containers OK`;
+                  if (restarting.length) { status = HealthStatus.CRITICAL; details = `Restarting: ${restarting.join(", ")}`; }
+                  else if (exited.length) { status = HealthStatus.WARNING; details = `Stopped: ${exited.join(", ")}`; }
+                  return { category: "Containers", status, details };
+                } catch { return { category: "Containers", status: HealthStatus.WARNING, details: "Unable to check" }; }
+              })(),
+              // Resources
+              (async (): Promise<HealthCheckResult> => {
+                try {
+                  const topOutput = await sshExecutor("top -b -n 1 | head -5");
+                  const cpuMatch = topOutput.match(/Cpu\(s\):\s*([\d.]+)\s*us/i);
+                  const memMatch = topOutput.match(/Mem\s*:\s*(\d+)\s+total,\s*(\d+)\s+free/i);
+                  let cpuPercent = cpuMatch ? parseFloat(cpuMatch[1]) : 0;
+                  let memPercent = memMatch ? ((parseInt(memMatch[1]) - parseInt(memMatch[2])) / parseInt(memMatch[1])) * 100 : 0;
+                  let status = HealthStatus.OK, details = `CPU: ${cpuPercent.toFixed(1)}%, Mem: ${memPercent.toFixed(1)}%`;
+                  if (cpuPercent > 90 || memPercent > 95) { status = HealthStatus.CRITICAL; details = `Critical! ${details}`; }
+                  else if (cpuPercent > 80 || memPercent > 90) { status = HealthStatus.WARNING; details = `High: ${details}`; }
+                  return { category: "Resources", status, details };
+                } catch { return { category: "Resources", status: HealthStatus.WARNING, details: "Unable to check" }; }
+              })(),
+            ]);
             const summary = results.map(r => `[${r.status}] ${r.category}: ${r.details}`).join("\n");
             const overall = results.some(r => r.status === HealthStatus.CRITICAL) ? "CRITICAL" : results.some(r => r.status === HealthStatus.WARNING) ? "WARNING" : "OK";
             return { content: [{ type: "text", text: applyFiltersToText(`=== Health Check ===\n\nOverall: ${overall}\n\n${summary}`, args) }] };
@@ -115,20 +203,9 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
             const issues: string[] = [];
             // High temps
             try {
-              const devices = await sshExecutor("ls -1 /dev/sd? /dev/nvme?n? 2>/dev/null || true");
-              for (const devicePath of devices.trim().split("\n").filter(d => d.trim())) {
-                try {
-                  const deviceName = devicePath.replace("/dev/", "");
-                  const isNvme = deviceName.startsWith("nvme");
-                  const smartCmd = isNvme ? `smartctl -A -d nvme ${devicePath} 2>/dev/null | grep -i temperature | head -1` : `smartctl -A -d ata ${devicePath} 2>/dev/null | grep -i temperature_celsius | head -1`;
-                  const tempOutput = await sshExecutor(smartCmd);
-                  const tempMatch = tempOutput.match(/(\d+)\s+(Celsius|C\b)/i);
-                  if (tempMatch) {
-                    const temp = parseInt(tempMatch[1]);
-                    if (temp > 60) issues.push(`[CRITICAL] ${deviceName}: ${temp}°C`);
-                    else if (temp > 50) issues.push(`[HIGH] ${deviceName}: ${temp}°C`);
-                  }
-                } catch {}
+              for (const { device, temp } of await readDriveTemps(sshExecutor)) {
+                if (temp > 60) issues.push(`[CRITICAL] ${device}: ${temp}°C`);
+                else if (temp > 50) issues.push(`[HIGH] ${device}: ${temp}°C`);
               }
             } catch {}
             // Disk space
@@ -160,57 +237,69 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
             const memThreshold = args.memThreshold ?? 90;
             const diskThreshold = args.diskThreshold ?? 90;
             const tempThreshold = args.tempThreshold ?? 50;
-            const alerts: string[] = [];
-            // CPU
-            try {
-              const topOutput = await sshExecutor("top -b -n 1 | head -5");
-              const cpuMatch = topOutput.match(/Cpu\(s\):\s*([\d.]+)\s*us/i);
-              if (cpuMatch) {
-                const cpu = parseFloat(cpuMatch[1]);
-                if (cpu > cpuThreshold) alerts.push(`CPU ${cpu.toFixed(1)}% > ${cpuThreshold}%`);
-              }
-            } catch {}
-            // Memory
-            try {
-              const memOutput = await sshExecutor("free | grep Mem:");
-              const memMatch = memOutput.match(/Mem:\s*(\d+)\s+(\d+)/);
-              if (memMatch) {
-                const mem = (parseInt(memMatch[2]) / parseInt(memMatch[1])) * 100;
-                if (mem > memThreshold) alerts.push(`Memory ${mem.toFixed(1)}% > ${memThreshold}%`);
-              }
-            } catch {}
-            // Disk
-            try {
-              const dfOutput = await sshExecutor("df -h | grep -E '^/dev/(sd|nvme|md)'");
-              for (const line of dfOutput.trim().split("\n")) {
-                const match = line.match(/(\S+)\s+\S+\s+\S+\s+\S+\s+(\d+)%/);
-                if (match && parseInt(match[2]) > diskThreshold) alerts.push(`Disk ${match[1]} ${match[2]}% > ${diskThreshold}%`);
-              }
-            } catch {}
-            // Temps
-            try {
-              const devices = await sshExecutor("ls -1 /dev/sd? /dev/nvme?n? 2>/dev/null || true");
-              for (const devicePath of devices.trim().split("\n").filter(d => d.trim())) {
+            // Each metric is independent, so collect them all at once; alerts keep CPU/Mem/Disk/Temp order
+            const alertGroups = await Promise.all([
+              // CPU
+              (async (): Promise<ThresholdAlert[]> => {
                 try {
-                  const deviceName = devicePath.replace("/dev/", "");
-                  const isNvme = deviceName.startsWith("nvme");
-                  const smartCmd = isNvme ? `smartctl -A -d nvme ${devicePath} 2>/dev/null | grep -i temperature | head -1` : `smartctl -A -d ata ${devicePath} 2>/dev/null | grep -i temperature_celsius | head -1`;
-                  const tempOutput = await sshExecutor(smartCmd);
-                  const tempMatch = tempOutput.match(/(\d+)\s+(Celsius|C\b)/i);
-                  if (tempMatch) {
-                    const temp = parseInt(tempMatch[1]);
-                    if (temp > tempThreshold) alerts.push(`Drive ${deviceName} ${temp}°C > ${tempThreshold}°C`);
+                  const topOutput = await sshExecutor("top -b -n 1 | head -5");
+                  const cpuMatch = topOutput.match(/Cpu\(s\):\s*([\d.]+)\s*us/i);
+                  if (cpuMatch) {
+                    const cpu = parseFloat(cpuMatch[1]);
+                    if (cpu > cpuThreshold) return [{ metric: "cpu", value: cpu, threshold: cpuThreshold }];
                   }
                 } catch {}
+                return [];
+              })(),
+              // Memory
+              (async (): Promise<ThresholdAlert[]> => {
+                try {
+                  const memOutput = await sshExecutor("free | grep Mem:");
+                  const memMatch = memOutput.match(/Mem:\s*(\d+)\s+(\d+)/);
+                  if (memMatch) {
+                    const mem = (parseInt(memMatch[2]) / parseInt(memMatch[1])) * 100;
+                    if (mem > memThreshold) return [{ metric: "memory", value: Math.round(mem * 10) / 10, threshold: memThreshold }];
+                  }
+                } catch {}
+                return [];
+              })(),
+              // Disk
+              (async (): Promise<ThresholdAlert[]> => {
+                const diskAlerts: ThresholdAlert[] = [];
+                try {
+                  const dfOutput = await sshExecutor("df -h | grep -E '^/dev/(sd|nvme|md)'");
+                  for (const line of dfOutput.trim().split("\n")) {
+                    const match = line.match(/(\S+)\s+\S+\s+\S+\s+\S+\s+(\d+)%/);
+                    if (match && parseInt(match[2]) > diskThreshold) diskAlerts.push({ metric: "disk", target: match[1], value: parseInt(match[2]), threshold: diskThreshold });
+                  }
+                } catch {}
+                return diskAlerts;
+              })(),
+              // Temps
+              (async (): Promise<ThresholdAlert[]> => {
+                try {
+                  return (await readDriveTemps(sshExecutor))
+                    .filter(({ temp }) => temp > tempThreshold)
+                    .map(({ device, temp }): ThresholdAlert => ({ metric: "temperature", target: device, value: temp, threshold: tempThreshold }));
+                } catch { return []; }
+              })(),
+            ]);
+            const thresholds = { cpu: cpuThreshold, memory: memThreshold, disk: diskThreshold, temperature: tempThreshold };
+            return structuredResult({ thresholds, alerts: alertGroups.flat() }, (data, format) => {
+              const { cpu, memory, disk, temperature } = data.thresholds;
+              const messages = data.alerts.map(describeAlert);
+              if (format === "markdown") {
+                const summary = `## Threshold Alerts\n\nThresholds: CPU ${cpu}%, Mem ${memory}%, Disk ${disk}%, Temp ${temperature}°C\n\n`;
+                return summary + (messages.length === 0 ? "No thresholds exceeded." : applyFiltersToText(messages.map(m => `- ${m}`).join("\n"), args));
               }
-            } catch {}
-            const header = `=== Threshold Alerts ===\n\nThresholds: CPU ${cpuThreshold}%, Mem ${memThreshold}%, Disk ${diskThreshold}%, Temp ${tempThreshold}°C\n\n`;
-            if (alerts.length === 0) return { content: [{ type: "text", text: applyFiltersToText(header + "No thresholds exceeded.", args) }] };
-            return { content: [{ type: "text", text: applyFiltersToText(header + `${alerts.length} Alert(s):\n\n${alerts.join("\n")}`, args) }] };
+              const header = `=== Threshold Alerts ===\n\nThresholds: CPU ${cpu}%, Mem ${memory}%, Disk ${disk}%, Temp ${temperature}°C\n\n`;
+              if (messages.length === 0) return applyFiltersToText(header + "No thresholds exceeded.", args);
+              return applyFiltersToText(header + `${messages.length} Alert(s):\n\n${messages.join("\n")}`, args);
+            });
           }
 
           case "compare_baseline": {
-            const baselineFile = args.baselineFile ?? "/tmp/unraid-baseline.json";
+            const baselineFile = filePath(args.baselineFile ?? "/tmp/unraid-baseline.json");
             const currentState: any = { timestamp: new Date().toISOString() };
             try {
               const containersOutput = await sshExecutor("docker ps -a --format '{{.Names}}'");
@@ -225,12 +314,11 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
             } catch { currentState.rootDiskPercent = 0; }
             let baseline: any = null;
             try {
-              const baselineJson = await sshExecutor(`cat ${baselineFile}`);
+              const baselineJson = await sshExecutor(sh`cat ${baselineFile}`);
               baseline = JSON.parse(baselineJson);
             } catch {
               try {
-                const escapedJson = JSON.stringify(currentState, null, 2).replace(/'/g, "'\"'\"'");
-                await sshExecutor(`echo '${escapedJson}' > ${baselineFile}`);
+                await sshExecutor(sh`echo ${JSON.stringify(currentState, null, 2)} > ${baselineFile}`);
                 return { content: [{ type: "text", text: applyFiltersToText(`=== Baseline ===\n\nNo baseline found. Saved current state to ${baselineFile}\n\n${JSON.stringify(currentState, null, 2)}`, args) }] };
               } catch (e) { throw new Error(`Failed to save baseline: ${e}`); }
             }
@@ -243,31 +331,7 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
           }
 
           case "diagnostic_report": {
-            const isMarkdown = args.format === "markdown";
-            let report = isMarkdown ? "# Diagnostic Report\n\n" : "=== Diagnostic Report ===\n\n";
-            report += `Generated: ${new Date().toLocaleString()}\n\n`;
-            try {
-              const uname = await sshExecutor("uname -a");
-              report += isMarkdown ? `**Kernel:** ${uname}\n\n` : `Kernel: ${uname}\n`;
-              const uptime = await sshExecutor("uptime");
-              report += isMarkdown ? `**Uptime:** ${uptime}\n\n` : `Uptime: ${uptime}\n`;
-            } catch {}
-            try {
-              const arrayStatus = await sshExecutor("cat /proc/mdcmd 2>/dev/null || mdcmd status");
-              report += isMarkdown ? `## Array\n\n\`\`\`\n${arrayStatus}\n\`\`\`\n\n` : `--- Array ---\n\n${arrayStatus}\n\n`;
-            } catch {}
-            try {
-              const containers = await sshExecutor("docker ps -a --format 'table {{.Names}}\t{{.State}}\t{{.Status}}'");
-              report += isMarkdown ? `## Containers\n\n\`\`\`\n${containers}\n\`\`\`\n\n` : `--- Containers ---\n\n${containers}\n\n`;
-            } catch {}
-            try {
-              const df = await sshExecutor("df -h | grep -E '^/dev/(sd|nvme|md)|Filesystem'");
-              report += isMarkdown ? `## Disk\n\n\`\`\`\n${df}\n\`\`\`\n\n` : `--- Disk ---\n\n${df}\n\n`;
-            } catch {}
-            try {
-              const mem = await sshExecutor("free -h");
-              report += isMarkdown ? `## Memory\n\n\`\`\`\n${mem}\n\`\`\`\n\n` : `--- Memory ---\n\n${mem}\n\n`;
-            } catch {}
+            const report = await buildDiagnosticReport(sshExecutor, args.format === "markdown");
             return { content: [{ type: "text", text: applyFiltersToText(report, args) }] };
           }
 
@@ -299,10 +363,9 @@ export function registerHealthDiagnosticsTools(server: McpServer, sshExecutor: S
             try { snapshot.uptime = await sshExecutor("uptime"); } catch { snapshot.uptime = "Unknown"; }
             let savedPath = "";
             if (args.name) {
-              const filename = `/tmp/snapshot-${args.name}-${Date.now()}.json`;
+              const filename = `/tmp/snapshot-${fileName(args.name, "snapshot name")}-${Date.now()}.json`;
               try {
-                const escapedJson = JSON.stringify(snapshot, null, 2).replace(/'/g, "'\"'\"'");
-                await sshExecutor(`echo '${escapedJson}' > ${filename}`);
+                await sshExecutor(sh`echo ${JSON.stringify(snapshot, null, 2)} > ${filename}`);
                 savedPath = filename;
               } catch {}
             }
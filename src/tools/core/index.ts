@@ -8,5 +8,8 @@ export { registerResourceManagementTools } from "./resource-management-tools.js"
 export { registerPerformanceTools } from "./performance-tools.js";
 export { registerVMTools } from "./vm-tools.js";
 export { registerContainerTopologyTools } from "./container-topology-tools.js";
+export { registerComposeTools } from "./compose-tools.js";
 export { registerHealthDiagnosticsTools } from "./health-diagnostics-tools.js";
 export { registerFileWriteTools } from "./file-write-tools.js";
+export { registerConnectionTools, connectionActions } from "./connection-tools.js";
+export { registerAuditTools, auditActions } from "./audit-tools.js";
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { raw, sh } from "../../shell.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
@@ -28,7 +29,7 @@ export function registerMonitoringTools(
             let cmd = "ps aux";
             if (args.sortBy === "cpu") cmd += " --sort=-%cpu";
             else if (args.sortBy === "memory") cmd += " --sort=-%mem";
-            cmd += ` | head -n ${count + 1}`;  // +1 for header row
+            cmd += sh` | head -n ${count + 1}`;  // +1 for header row
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Process List${args.sortBy ? ` (by ${args.sortBy})` : ""}:\n\n${output}` }] };
@@ -36,14 +37,14 @@ export function registerMonitoringTools(
 
           case "process_tree": {
             const count = args.count ?? 20;
-            const cmd = `command -v pstree >/dev/null 2>&1 && pstree -p | head -n ${count} || ps auxf | head -n ${count + 1}`;
+            const cmd = sh`command -v pstree >/dev/null 2>&1 && pstree -p | head -n ${count} || ps auxf | head -n ${count + 1}`;
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: applyFiltersToText(`Process Tree:\n\n${output}`, args) }] };
           }
 
           case "top": {
             const count = args.count ?? 20;
-            let cmd = applyFilters(`top -b -n 1 | head -n ${count + 7}`, args);
+            let cmd = applyFilters(sh`top -b -n 1 | head -n ${count + 7}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `Top Processes (${count}):\n\n${output}` }] };
           }
@@ -56,9 +57,9 @@ export function registerMonitoringTools(
 
           case "network_connections": {
             const count = args.count ?? 20;
-            const ssCmd = args.listening ? "ss -tulnp" : "ss -tunap";
-            const netstatCmd = args.listening ? "netstat -tulnp" : "netstat -tunap";
-            const cmd = `command -v ss >/dev/null 2>&1 && ${ssCmd} | head -n ${count + 1} || ${netstatCmd} | head -n ${count + 1}`;
+            const ssCmd = raw(args.listening ? "ss -tulnp" : "ss -tunap");
+            const netstatCmd = raw(args.listening ? "netstat -tulnp" : "netstat -tunap");
+            const cmd = sh`command -v ss >/dev/null 2>&1 && ${ssCmd} | head -n ${count + 1} || ${netstatCmd} | head -n ${count + 1}`;
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: applyFiltersToText(`Network${args.listening ? " (listening)" : ""}:\n\n${output}`, args) }] };
           }
@@ -1,12 +1,20 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { defineActions } from "../../tool-metadata.js";
+import { sh } from "../../shell.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
 const performanceActions = ["bottleneck", "bandwidth", "track_metric"] as const;
 
 export function registerPerformanceTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  defineActions("performance", {
+    bottleneck: { timeoutMs: 30000 },
+    // Samples for the whole duration, plus headroom for the last sample
+    track_metric: { timeoutMs: (args) => (((args.durationSeconds as number | undefined) ?? 30) + 15) * 1000 },
+  });
+
   server.tool(
     "performance",
     "Performance ops. Actions: bottleneck (CPU/IO analysis), bandwidth (network usage), track_metric (monitor cpu/memory/disk over time).",
@@ -58,11 +66,11 @@ export function registerPerformanceTools(server: McpServer, sshExecutor: SSHExec
             const samples = Math.floor(duration / interval);
             let cmd = "";
             if (args.metric === "cpu") {
-              cmd = `for i in $(seq 1 ${samples}); do timestamp=$(date '+%Y-%m-%d %H:%M:%S'); cpu=$(top -b -n 1 | grep "Cpu(s)" | awk '{print $2}' | cut -d'%' -f1); echo "$timestamp,$cpu"; [ $i -lt ${samples} ] && sleep ${interval}; done`;
+              cmd = sh`for i in $(seq 1 ${samples}); do timestamp=$(date '+%Y-%m-%d %H:%M:%S'); cpu=$(top -b -n 1 | grep "Cpu(s)" | awk '{print $2}' | cut -d'%' -f1); echo "$timestamp,$cpu"; [ $i -lt ${samples} ] && sleep ${interval}; done`;
             } else if (args.metric === "memory") {
-              cmd = `for i in $(seq 1 ${samples}); do timestamp=$(date '+%Y-%m-%d %H:%M:%S'); mem=$(free -m | awk 'NR==2{printf "%.2f", $3*100/$2}'); echo "$timestamp,$mem"; [ $i -lt ${samples} ] && sleep ${interval}; done`;
+              cmd = sh`for i in $(seq 1 ${samples}); do timestamp=$(date '+%Y-%m-%d %H:%M:%S'); mem=$(free -m | awk 'NR==2{printf "%.2f", $3*100/$2}'); echo "$timestamp,$mem"; [ $i -lt ${samples} ] && sleep ${interval}; done`;
             } else {
-              cmd = `for i in $(seq 1 ${samples}); do timestamp=$(date '+%Y-%m-%d %H:%M:%S'); disk=$(df -h / | awk 'NR==2{print $5}' | cut -d'%' -f1); echo "$timestamp,$disk"; [ $i -lt ${samples} ] && sleep ${interval}; done`;
+              cmd = sh`for i in $(seq 1 ${samples}); do timestamp=$(date '+%Y-%m-%d %H:%M:%S'); disk=$(df -h / | awk 'NR==2{print $5}' | cut -d'%' -f1); echo "$timestamp,$disk"; [ $i -lt ${samples} ] && sleep ${interval}; done`;
             }
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: applyFiltersToText(`Metric: ${args.metric}\nDuration: ${duration}s, Interval: ${interval}s\n\nTimestamp,Value\n${output}`, args) }] };
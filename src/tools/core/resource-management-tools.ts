@@ -1,12 +1,22 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { runBatch } from "../../batch.js";
+import { defineActions } from "../../tool-metadata.js";
+import { filePath, sh } from "../../shell.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
 const resourceActions = ["dangling", "hogs", "disk_analyzer", "docker_df", "zombies", "io_profile"] as const;
 
 export function registerResourceManagementTools(server: McpServer, sshExecutor: SSHExecutor): void {
+  defineActions("resource", {
+    dangling: { timeoutMs: 60000 },
+    disk_analyzer: { timeoutMs: 120000 },
+    docker_df: { timeoutMs: 60000 },
+    io_profile: { timeoutMs: (args) => (((args.duration as number | undefined) || 5) + 20) * 1000 },
+  });
+
   server.tool(
     "resource",
     "Resource ops. Actions: dangling (unused docker resources), hogs (top consumers), disk_analyzer (large files/dirs), docker_df (docker disk usage), zombies (zombie/D-state procs), io_profile (I/O monitoring).",
@@ -24,25 +34,27 @@ export function registerResourceManagementTools(server: McpServer, sshExecutor:
       try {
         switch (args.action) {
           case "dangling": {
-            const volumesOutput = await sshExecutor("docker volume ls -f dangling=true --format json");
-            const imagesOutput = await sshExecutor("docker images -f dangling=true --format json");
-            const networksOutput = await sshExecutor("docker network ls --format json");
+            const [volumesOutput, imagesOutput, networksOutput] = await Promise.all([
+              sshExecutor("docker volume ls -f dangling=true --format json"),
+              sshExecutor("docker images -f dangling=true --format json"),
+              sshExecutor("docker network ls --format json"),
+            ]);
             const volumeLines = volumesOutput.trim().split("\n").filter(l => l.trim());
             const volumes = volumeLines.length > 0 && volumeLines[0] ? volumeLines.map(l => JSON.parse(l)) : [];
             const imageLines = imagesOutput.trim().split("\n").filter(l => l.trim());
             const images = imageLines.length > 0 && imageLines[0] ? imageLines.map(l => JSON.parse(l)) : [];
             const networkLines = networksOutput.trim().split("\n").filter(l => l.trim());
             const allNetworks = networkLines.map(l => JSON.parse(l));
+            const customNetworks = allNetworks.filter(net => typeof net.Name === "string" && !["bridge", "host", "none"].includes(net.Name));
+            const inspections = await runBatch(sshExecutor, customNetworks.map(net => sh`docker network inspect ${net.Name} --format json`));
             const unusedNetworks: any[] = [];
-            for (const net of allNetworks) {
-              if (!["bridge", "host", "none"].includes(net.Name)) {
-                try {
-                  const inspect = await sshExecutor(`docker network inspect ${net.Name} --format json`);
-                  const data = JSON.parse(inspect);
-                  if (data[0] && Object.keys(data[0].Containers || {}).length === 0) unusedNetworks.push(net);
-                } catch {}
-              }
-            }
+            inspections.forEach((inspect, i) => {
+              if (!inspect.ok) return;
+              try {
+                const data = JSON.parse(inspect.output);
+                if (data[0] && Object.keys(data[0].Containers || {}).length === 0) unusedNetworks.push(customNetworks[i]);
+              } catch {}
+            });
             let report = `DANGLING RESOURCES\n${"=".repeat(50)}\n\n`;
             report += `VOLUMES (${volumes.length}):\n${"-".repeat(50)}\n`;
             if (volumes.length === 0) report += "None.\n";
@@ -62,10 +74,10 @@ export function registerResourceManagementTools(server: McpServer, sshExecutor:
             const limit = args.limit || 10;
             let report = `TOP ${limit} (by ${sortBy.toUpperCase()})\n${"=".repeat(70)}\n\n`;
             if (sortBy === "cpu") {
-              const ps = await sshExecutor(`ps aux --sort=-%cpu | head -n ${limit + 1}`);
+              const ps = await sshExecutor(sh`ps aux --sort=-%cpu | head -n ${limit + 1}`);
               report += `PROCESSES:\n${"-".repeat(70)}\n${ps}\n\n`;
             } else if (sortBy === "memory") {
-              const ps = await sshExecutor(`ps aux --sort=-%mem | head -n ${limit + 1}`);
+              const ps = await sshExecutor(sh`ps aux --sort=-%mem | head -n ${limit + 1}`);
               report += `PROCESSES:\n${"-".repeat(70)}\n${ps}\n\n`;
             } else {
               try {
@@ -85,14 +97,14 @@ export function registerResourceManagementTools(server: McpServer, sshExecutor:
             const depth = args.depth || 2;
             const minSize = args.minSize || "1G";
             let report = `DISK ANALYSIS: ${path}\n${"=".repeat(70)}\n\n`;
-            const du = await sshExecutor(`du -h "${path}" --max-depth=${depth} 2>/dev/null | sort -hr | head -20`);
+            const du = await sshExecutor(sh`du -h ${filePath(path)} --max-depth=${depth} 2>/dev/null | sort -hr | head -20`);
             report += `LARGEST DIRS (depth ${depth}):\n${"-".repeat(70)}\n${du}\n\n`;
             try {
-              const find = await sshExecutor(`find "${path}" -type f -size +${minSize} -exec ls -lh {} \\; 2>/dev/null | awk '{print $5 "\\t" $9}' | sort -hr | head -20`);
+              const find = await sshExecutor(sh`find ${filePath(path)} -type f -size ${`+${minSize}`} -exec ls -lh {} \\; 2>/dev/null | awk '{print $5 "\\t" $9}' | sort -hr | head -20`);
               report += `LARGEST FILES (>${minSize}):\n${"-".repeat(70)}\n${find.trim() ? "SIZE\tPATH\n" + find : "None found."}\n\n`;
             } catch { report += "LARGEST FILES: Unable to search\n\n"; }
             try {
-              const df = await sshExecutor(`df -h "${path}"`);
+              const df = await sshExecutor(sh`df -h ${filePath(path)}`);
               report += `FILESYSTEM:\n${"-".repeat(70)}\n${df}`;
             } catch {}
             return { content: [{ type: "text", text: applyFiltersToText(report, args) }] };
@@ -127,7 +139,7 @@ export function registerResourceManagementTools(server: McpServer, sshExecutor:
           case "io_profile": {
             const duration = args.duration || 5;
             let report = `I/O PROFILE (${duration}s)\n${"=".repeat(70)}\n\n`;
-            const stats = await sshExecutor(`timeout ${duration + 1} docker stats --no-stream --format 'table {{.Name}}\\t{{.BlockIO}}\\t{{.NetIO}}\\t{{.CPUPerc}}\\t{{.MemPerc}}'`);
+            const stats = await sshExecutor(sh`timeout ${duration + 1} docker stats --no-stream --format 'table {{.Name}}\\t{{.BlockIO}}\\t{{.NetIO}}\\t{{.CPUPerc}}\\t{{.MemPerc}}'`);
             report += `CONTAINER I/O:\n${"-".repeat(70)}\n${stats}\n\n`;
             try {
               const iostat = await sshExecutor("iostat -x 1 2 | tail -n +4");
@@ -1,15 +1,63 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { applyFilters, outputFiltersSchema } from "../../filters.js";
+import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { defineActions } from "../../tool-metadata.js";
+import { markdownTable, structuredResult } from "../../output.js";
+import { filePath, sh } from "../../shell.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
+/** Kernel, uptime and memory summary (also served as the system/info resource) */
+export const SYSTEM_INFO_COMMAND = `uname -a && echo "---" && uptime && echo "---" && free -h`;
+
 const systemActions = ["list_files", "read_file", "find_files", "disk_usage", "system_info"] as const;
 
+const fileListOutput = z.object({
+  path: z.string(),
+  files: z.array(z.object({
+    name: z.string(),
+    // The rest are only set in long format
+    permissions: z.string().optional(),
+    owner: z.string().optional(),
+    group: z.string().optional(),
+    size: z.string().optional().describe("Human-readable size, as ls -h prints it"),
+    modified: z.string().optional(),
+    linkTarget: z.string().optional(),
+  })),
+});
+
+export type FileEntry = z.infer<typeof fileListOutput>["files"][number];
+
+/** `ls -lah` row: permissions, links, owner, group, size, date (3 fields), name */
+const LS_LONG_ROW = /^([-bcdlps][-rwxsStT]{9}[.+@]?)\s+\d+\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+\s+\S+\s+\S+)\s(.*)$/;
+
+/**
+ * Parse `ls` or `ls -l` output; the `total` line and unparseable rows are skipped
+ */
+export function parseLs(output: string, long: boolean): FileEntry[] {
+  return output.split("\n").filter(line => line.trim()).flatMap((line): FileEntry[] => {
+    if (!long) return [{ name: line }];
+    const match = LS_LONG_ROW.exec(line);
+    if (!match) return [];
+    const [, permissions, owner, group, size, modified, rest] = match;
+    const arrow = permissions.startsWith("l") ? rest.indexOf(" -> ") : -1;
+    return [{
+      name: arrow >= 0 ? rest.substring(0, arrow) : rest,
+      permissions, owner, group, size, modified,
+      ...(arrow >= 0 ? { linkTarget: rest.substring(arrow + 4) } : {}),
+    }];
+  });
+}
+
 export function registerSystemTools(
   server: McpServer,
   sshExecutor: SSHExecutor
 ): void {
+  defineActions("system", {
+    list_files: { output: fileListOutput },
+    find_files: { timeoutMs: 60000 },
+  });
+
   server.tool(
     "system",
     "System ops. Actions: list_files (dir listing), read_file (file contents), find_files (pattern search), disk_usage (df), system_info (kernel/uptime/memory).",
@@ -26,16 +74,28 @@ export function registerSystemTools(
         switch (args.action) {
           case "list_files": {
             if (!args.path) return { content: [{ type: "text", text: "Error: path required" }], isError: true };
-            let cmd = args.long ? `ls -lah "${args.path}"` : `ls "${args.path}"`;
-            cmd = applyFilters(cmd, args);
-            const output = await sshExecutor(cmd);
-            return { content: [{ type: "text", text: output }] };
+            const path = filePath(args.path);
+            const output = await sshExecutor(args.long ? sh`ls -lah ${path}` : sh`ls ${path}`);
+            return structuredResult({ path, files: parseLs(output, !!args.long) }, (data, format) => {
+              if (data.files.length === 0) return `${data.path} is empty.`;
+              if (format === "markdown") {
+                return args.long
+                  ? markdownTable(["Name", "Size", "Modified", "Permissions", "Owner"],
+                    data.files.map(f => [`${f.name}${f.linkTarget ? ` -> ${f.linkTarget}` : ""}`, f.size ?? "", f.modified ?? "", f.permissions ?? "", `${f.owner}:${f.group}`]), args)
+                  : applyFiltersToText(data.files.map(f => `- ${f.name}`).join("\n"), args);
+              }
+              const lines = data.files.map(f => args.long
+                ? `${f.permissions} ${f.owner} ${f.group} ${f.size} ${f.modified} ${f.name}${f.linkTarget ? ` -> ${f.linkTarget}` : ""}`
+                : f.name);
+              return applyFiltersToText(lines.join("\n"), args);
+            });
           }
 
           case "read_file": {
             if (!args.path) return { content: [{ type: "text", text: "Error: path required" }], isError: true };
             const maxLines = args.maxLines ?? 1000;
-            let cmd = maxLines > 0 ? `head -n ${maxLines} "${args.path}"` : `cat "${args.path}"`;
+            const path = filePath(args.path);
+            let cmd = maxLines > 0 ? sh`head -n ${maxLines} ${path}` : sh`cat ${path}`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             const lineCount = output.split("\n").length;
@@ -48,7 +108,7 @@ export function registerSystemTools(
 
           case "find_files": {
             if (!args.path || !args.pattern) return { content: [{ type: "text", text: "Error: path and pattern required" }], isError: true };
-            let cmd = `find "${args.path}" -name "${args.pattern}" -type f 2>/dev/null`;
+            let cmd = sh`find ${filePath(args.path)} -name ${args.pattern} -type f 2>/dev/null`;
             cmd = applyFilters(cmd, args);
             const output = await sshExecutor(cmd);
             if (!output?.trim()) return { content: [{ type: "text", text: `No files matching "${args.pattern}" in ${args.path}` }] };
@@ -62,13 +122,13 @@ export function registerSystemTools(
 
           case "disk_usage": {
             const path = args.path ?? "/";
-            let cmd = applyFilters(`df -h "${path}"`, args);
+            let cmd = applyFilters(sh`df -h ${filePath(path)}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: output }] };
           }
 
           case "system_info": {
-            let cmd = applyFilters(`uname -a && echo "---" && uptime && echo "---" && free -h`, args);
+            let cmd = applyFilters(SYSTEM_INFO_COMMAND, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: output }] };
           }
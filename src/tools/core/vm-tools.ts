@@ -1,15 +1,45 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { applyFilters, outputFiltersSchema } from "../../filters.js";
+import { applyFilters, applyFiltersToText, outputFiltersSchema } from "../../filters.js";
+import { defineActions } from "../../tool-metadata.js";
+import { markdownTable, structuredResult } from "../../output.js";
+import { fileName, sh } from "../../shell.js";
 
 type SSHExecutor = (command: string) => Promise<string>;
 
 const vmActions = ["list", "info", "vnc", "logs"] as const;
 
+const vmListOutput = z.object({
+  vms: z.array(z.object({
+    id: z.number().optional().describe("Domain ID while running"),
+    name: z.string(),
+    state: z.string(),
+  })),
+});
+
+/** States virsh prints; "shut off" and "in shutdown" contain a space, as can VM names */
+const VIRSH_ROW = /^\s*(\S+)\s+(.+?)\s+(running|idle|paused|in shutdown|shut off|crashed|dying|pmsuspended|blocked)\s*$/;
+
+/**
+ * Parse the `virsh list --all` table
+ */
+function parseVirshList(output: string): z.infer<typeof vmListOutput>["vms"] {
+  return output.split("\n").flatMap(line => {
+    const match = VIRSH_ROW.exec(line);
+    if (!match || match[1] === "Id") return [];
+    const id = Number(match[1]);
+    return [{ ...(Number.isInteger(id) ? { id } : {}), name: match[2], state: match[3] }];
+  });
+}
+
 export function registerVMTools(
   server: McpServer,
   sshExecutor: SSHExecutor
 ): void {
+  defineActions("vm", {
+    list: { output: vmListOutput },
+  });
+
   server.tool(
     "vm",
     "VM ops. Actions: list (all VMs), info (VM details), vnc (display address), logs (libvirt logs).",
@@ -23,26 +53,32 @@ export function registerVMTools(
       try {
         switch (args.action) {
           case "list": {
-            let cmd = applyFilters("virsh list --all", args);
-            const output = await sshExecutor(cmd);
-            return { content: [{ type: "text", text: `VMs:\n\n${output}` }] };
+            const vms = parseVirshList(await sshExecutor("virsh list --all"));
+            return structuredResult({ vms }, (data, format) => {
+              if (data.vms.length === 0) return "No VMs.";
+              if (format === "markdown") {
+                return markdownTable(["Name", "State", "ID"], data.vms.map(vm => [vm.name, vm.state, vm.id !== undefined ? String(vm.id) : "-"]), args);
+              }
+              const formatted = data.vms.map(vm => `${vm.name}: ${vm.state}${vm.id !== undefined ? ` (id ${vm.id})` : ""}`).join("\n");
+              return `VMs:\n\n${applyFiltersToText(formatted, args)}`;
+            });
           }
 
           case "info": {
             if (!args.vm) return { content: [{ type: "text", text: "Error: vm required" }], isError: true };
-            let cmd = applyFilters(`virsh dominfo ${args.vm}`, args);
+            let cmd = applyFilters(sh`virsh dominfo ${args.vm}`, args);
             const output = await sshExecutor(cmd);
             return { content: [{ type: "text", text: `VM Info - ${args.vm}:\n\n${output}` }] };
           }
 
           case "vnc": {
             if (!args.vm) return { content: [{ type: "text", text: "Error: vm required" }], isError: true };
-            let cmd = applyFilters(`virsh vncdisplay ${args.vm}`, args);
+            let cmd = applyFilters(sh`virsh vncdisplay ${args.vm}`, args);
             const output = await sshExecutor(cmd);
             const result = output.trim();
             if (!result) {
               try {
-                const xmlOutput = await sshExecutor(`virsh dumpxml ${args.vm} | grep -A 5 "<graphics"`);
+                const xmlOutput = await sshExecutor(sh`virsh dumpxml ${args.vm} | grep -A 5 "<graphics"`);
                 return { content: [{ type: "text", text: `VNC - ${args.vm}:\n\nNo VNC active. Config:\n${xmlOutput}` }] };
               } catch {
                 return { content: [{ type: "text", text: `VNC - ${args.vm}:\n\nNo VNC configured or VM not running.` }] };
@@ -54,7 +90,7 @@ export function registerVMTools(
           case "logs": {
             const lines = args.lines ?? 100;
             if (args.vm) {
-              let cmd = applyFilters(`tail -n ${lines} /var/log/libvirt/qemu/${args.vm}.log`, args);
+              let cmd = applyFilters(sh`tail -n ${lines} ${`/var/log/libvirt/qemu/${fileName(args.vm, "VM name")}.log`}`, args);
               const output = await sshExecutor(cmd);
               return { content: [{ type: "text", text: `Logs - ${args.vm} (${lines} lines):\n\n${output}` }] };
             } else {
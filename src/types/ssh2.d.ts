@@ -5,8 +5,21 @@ declare module 'ssh2' {
     username: string;
     password?: string;
     privateKey?: Buffer | string;
+    passphrase?: string;
+    agent?: string;
+    tryKeyboard?: boolean;
+    sock?: NodeJS.ReadableStream;
+    hostVerifier?: (key: Buffer) => boolean;
   }
 
+  interface ParsedKey {
+    type: string;
+  }
+
+  const utils: {
+    parseKey(data: Buffer | string, passphrase?: string): ParsedKey | ParsedKey[] | Error;
+  };
+
   interface ExecOptions {
     env?: Record<string, string>;
   }
@@ -14,6 +27,8 @@ declare module 'ssh2' {
   interface ClientChannel {
     stdout: NodeJS.ReadableStream;
     stderr: NodeJS.ReadableStream;
+    close(): void;
+    signal(signalName: string): boolean;
     on(event: 'close', listener: (code: number | null, signal: string | null) => void): this;
     on(event: string, listener: (...args: unknown[]) => void): this;
   }
@@ -26,6 +41,13 @@ declare module 'ssh2' {
     connect(config: ConnectConfig): void;
     exec(command: string, callback: (err: Error | undefined, channel: ClientChannel) => void): void;
     exec(command: string, options: ExecOptions, callback: (err: Error | undefined, channel: ClientChannel) => void): void;
+    forwardOut(
+      srcIP: string,
+      srcPort: number,
+      dstIP: string,
+      dstPort: number,
+      callback: (err: Error | undefined, channel: ClientChannel) => void
+    ): void;
     sftp(callback: (err: Error | undefined, sftp: SFTPWrapper) => void): void;
     end(): void;
     on(event: 'ready', listener: () => void): this;